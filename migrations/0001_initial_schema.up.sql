@@ -0,0 +1,324 @@
+-- Migration 0001: initial schema for Charity Compliance Checker
+
+-- Users table (authentication)
+CREATE TABLE IF NOT EXISTS users (
+  id SERIAL PRIMARY KEY,
+  email VARCHAR(255) UNIQUE NOT NULL,
+  password_hash VARCHAR(255) NOT NULL,
+  full_name VARCHAR(255),
+  is_verified BOOLEAN DEFAULT FALSE,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Organizations (team workspaces sharing reports)
+CREATE TABLE IF NOT EXISTS organizations (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(255) NOT NULL,
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Organization memberships
+CREATE TABLE IF NOT EXISTS memberships (
+  id SERIAL PRIMARY KEY,
+  organization_id INTEGER NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role VARCHAR(20) NOT NULL DEFAULT 'member',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (organization_id, user_id)
+);
+
+-- Pending invitations to join an organization (token stored as SHA-256 hash)
+CREATE TABLE IF NOT EXISTS invitations (
+  id SERIAL PRIMARY KEY,
+  organization_id INTEGER NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  email VARCHAR(255) NOT NULL,
+  role VARCHAR(20) NOT NULL DEFAULT 'member',
+  token_hash VARCHAR(64) UNIQUE NOT NULL,
+  invited_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP NOT NULL,
+  accepted_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Roles: owner, admin, editor, viewer ('member' predates role-based access and becomes editor)
+UPDATE memberships SET role = 'editor' WHERE role = 'member';
+UPDATE invitations SET role = 'editor' WHERE role = 'member';
+ALTER TABLE memberships ALTER COLUMN role SET DEFAULT 'viewer';
+ALTER TABLE invitations ALTER COLUMN role SET DEFAULT 'viewer';
+ALTER TABLE memberships DROP CONSTRAINT IF EXISTS memberships_role_check;
+ALTER TABLE memberships ADD CONSTRAINT memberships_role_check
+  CHECK (role IN ('owner', 'admin', 'editor', 'viewer'));
+ALTER TABLE invitations DROP CONSTRAINT IF EXISTS invitations_role_check;
+ALTER TABLE invitations ADD CONSTRAINT invitations_role_check
+  CHECK (role IN ('owner', 'admin', 'editor', 'viewer'));
+
+-- System-wide administrator (bypasses organization roles)
+ALTER TABLE users ADD COLUMN IF NOT EXISTS is_superadmin BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Workspace the user last switched to (carried in the access token)
+ALTER TABLE users ADD COLUMN IF NOT EXISTS current_organization_id INTEGER REFERENCES organizations(id) ON DELETE SET NULL;
+
+-- Two-factor authentication (TOTP). The secret is set on setup and only used once enabled;
+-- the last accepted time step prevents replaying a code.
+ALTER TABLE users ADD COLUMN IF NOT EXISTS totp_secret VARCHAR(64);
+ALTER TABLE users ADD COLUMN IF NOT EXISTS totp_enabled BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS totp_last_step BIGINT;
+
+-- Single-use MFA recovery codes (stored as SHA-256 hashes)
+CREATE TABLE IF NOT EXISTS mfa_recovery_codes (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code_hash VARCHAR(64) NOT NULL,
+  used_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (user_id, code_hash)
+);
+
+-- Sites table (a monitored website, identified by its normalized URL)
+CREATE TABLE IF NOT EXISTS sites (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+  url VARCHAR(2048) NOT NULL,
+  normalized_url VARCHAR(2048) NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (user_id, normalized_url)
+);
+
+-- Reports table (stores compliance scan reports)
+CREATE TABLE IF NOT EXISTS reports (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+  scanned_url VARCHAR(2048) NOT NULL,
+  scan_date TIMESTAMP NOT NULL,
+  overall_status VARCHAR(50) NOT NULL,
+  overall_score INTEGER NOT NULL CHECK (overall_score >= 0 AND overall_score <= 100),
+  report_data JSONB NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Set when a submitted report's score/status differed from the server-computed values
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS score_mismatch BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Organization that shares the report (NULL = personal report)
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS organization_id INTEGER REFERENCES organizations(id) ON DELETE SET NULL;
+
+-- Link reports to their site
+ALTER TABLE reports ADD COLUMN IF NOT EXISTS site_id INTEGER REFERENCES sites(id) ON DELETE SET NULL;
+
+-- Backfill sites for reports created before sites existed (mirrors normalizeUrl in src/utils/url.ts)
+INSERT INTO sites (user_id, url, normalized_url)
+SELECT DISTINCT ON (user_id, normalized_url) user_id, scanned_url, normalized_url
+FROM (
+  SELECT user_id, scanned_url, created_at,
+    lower(regexp_replace(split_part(split_part(
+      regexp_replace(scanned_url, '^[a-z][a-z0-9+.-]*://(www\.)?', '', 'i'),
+    '#', 1), '?', 1), '/+$', '')) AS normalized_url
+  FROM reports
+  WHERE site_id IS NULL
+) AS unlinked
+ORDER BY user_id, normalized_url, created_at
+ON CONFLICT (user_id, normalized_url) DO NOTHING;
+
+UPDATE reports r
+SET site_id = s.id
+FROM sites s
+WHERE r.site_id IS NULL
+  AND s.user_id = r.user_id
+  AND s.normalized_url = lower(regexp_replace(split_part(split_part(
+    regexp_replace(r.scanned_url, '^[a-z][a-z0-9+.-]*://(www\.)?', '', 'i'),
+  '#', 1), '?', 1), '/+$', ''));
+
+-- Refresh tokens table (for JWT refresh tokens)
+-- Tokens are stored as SHA-256 hashes. Each refresh rotates the token within its family;
+-- presenting a revoked token revokes the whole family.
+CREATE TABLE IF NOT EXISTS refresh_tokens (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+  token_hash VARCHAR(64) UNIQUE NOT NULL,
+  family_id VARCHAR(64) NOT NULL,
+  expires_at TIMESTAMP NOT NULL,
+  revoked_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Upgrade tables created before hashing: hash existing tokens, one family per token
+ALTER TABLE refresh_tokens ADD COLUMN IF NOT EXISTS token_hash VARCHAR(64);
+ALTER TABLE refresh_tokens ADD COLUMN IF NOT EXISTS family_id VARCHAR(64);
+ALTER TABLE refresh_tokens ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP;
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'refresh_tokens' AND column_name = 'token'
+  ) THEN
+    UPDATE refresh_tokens
+    SET token_hash = encode(sha256(token::bytea), 'hex'),
+        family_id = md5(random()::text || id::text)
+    WHERE token_hash IS NULL;
+    ALTER TABLE refresh_tokens DROP COLUMN token;
+  END IF;
+END $$;
+ALTER TABLE refresh_tokens ALTER COLUMN token_hash SET NOT NULL;
+ALTER TABLE refresh_tokens ALTER COLUMN family_id SET NOT NULL;
+
+-- Session details shown in the session management API
+ALTER TABLE refresh_tokens ADD COLUMN IF NOT EXISTS user_agent VARCHAR(512);
+ALTER TABLE refresh_tokens ADD COLUMN IF NOT EXISTS ip_address VARCHAR(64);
+ALTER TABLE refresh_tokens ADD COLUMN IF NOT EXISTS last_used_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP;
+
+-- API keys for machine-to-machine access ("cck_<prefix>_<secret>"; only the secret's SHA-256 hash is stored)
+CREATE TABLE IF NOT EXISTS api_keys (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  organization_id INTEGER REFERENCES organizations(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  prefix VARCHAR(32) UNIQUE NOT NULL,
+  secret_hash VARCHAR(64) NOT NULL,
+  scopes TEXT[] NOT NULL,
+  expires_at TIMESTAMP,
+  last_used_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Single-use email tokens (verification and password reset), stored as SHA-256 hashes
+CREATE TABLE IF NOT EXISTS email_tokens (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  purpose VARCHAR(20) NOT NULL CHECK (purpose IN ('verify_email', 'reset_password')),
+  token_hash VARCHAR(64) UNIQUE NOT NULL,
+  expires_at TIMESTAMP NOT NULL,
+  used_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Accounts at OpenID Connect providers (Google, Microsoft) linked to users
+CREATE TABLE IF NOT EXISTS user_identities (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  provider VARCHAR(50) NOT NULL,
+  subject VARCHAR(255) NOT NULL,
+  email VARCHAR(255),
+  last_login_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (provider, subject)
+);
+
+-- Pending OpenID Connect logins (state stored as a SHA-256 hash, with the nonce and PKCE verifier)
+CREATE TABLE IF NOT EXISTS oidc_login_states (
+  id SERIAL PRIMARY KEY,
+  state_hash VARCHAR(64) UNIQUE NOT NULL,
+  provider VARCHAR(50) NOT NULL,
+  nonce VARCHAR(64) NOT NULL,
+  code_verifier VARCHAR(128) NOT NULL,
+  expires_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Login attempts, keyed by email (whether or not an account exists) and client IP
+CREATE TABLE IF NOT EXISTS login_attempts (
+  id SERIAL PRIMARY KEY,
+  email VARCHAR(255) NOT NULL,
+  ip_address VARCHAR(64) NOT NULL,
+  user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+  succeeded BOOLEAN NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Security audit log (lockouts, unlocks)
+CREATE TABLE IF NOT EXISTS security_events (
+  id SERIAL PRIMARY KEY,
+  type VARCHAR(50) NOT NULL,
+  user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  email VARCHAR(255),
+  ip_address VARCHAR(64),
+  details JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Access token signing keys (private keys encrypted with JWT_ACCESS_SECRET).
+-- Keys are published before they activate and keep verifying until they retire.
+CREATE TABLE IF NOT EXISTS jwt_signing_keys (
+  kid VARCHAR(64) PRIMARY KEY,
+  algorithm VARCHAR(10) NOT NULL CHECK (algorithm IN ('RS256', 'EdDSA')),
+  public_key TEXT NOT NULL,
+  private_key_encrypted TEXT NOT NULL,
+  activates_at TIMESTAMP NOT NULL,
+  retires_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Public links to a single report (token stored as a SHA-256 hash)
+CREATE TABLE IF NOT EXISTS report_shares (
+  id SERIAL PRIMARY KEY,
+  report_id INTEGER NOT NULL REFERENCES reports(id) ON DELETE CASCADE,
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  token_hash VARCHAR(64) UNIQUE NOT NULL,
+  password_hash VARCHAR(255),
+  redacted_categories TEXT[] NOT NULL DEFAULT '{}',
+  expires_at TIMESTAMP,
+  revoked_at TIMESTAMP,
+  last_accessed_at TIMESTAMP,
+  access_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Scan schedules (recurring rescans of a site)
+CREATE TABLE IF NOT EXISTS scan_schedules (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+  site_id INTEGER NOT NULL REFERENCES sites(id) ON DELETE CASCADE,
+  frequency VARCHAR(20) NOT NULL CHECK (frequency IN ('weekly', 'monthly')),
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  next_run_at TIMESTAMP NOT NULL,
+  last_run_at TIMESTAMP,
+  last_report_id INTEGER REFERENCES reports(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (site_id)
+);
+
+-- Job queue (claimed with SELECT ... FOR UPDATE SKIP LOCKED)
+CREATE TABLE IF NOT EXISTS jobs (
+  id SERIAL PRIMARY KEY,
+  type VARCHAR(50) NOT NULL,
+  payload JSONB NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  run_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  locked_at TIMESTAMP,
+  last_error TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_reports_user_id ON reports(user_id);
+CREATE INDEX IF NOT EXISTS idx_reports_created_at ON reports(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_reports_site_id_scan_date ON reports(site_id, scan_date);
+CREATE INDEX IF NOT EXISTS idx_report_shares_report_id ON report_shares(report_id);
+CREATE INDEX IF NOT EXISTS idx_sites_user_id ON sites(user_id);
+CREATE INDEX IF NOT EXISTS idx_reports_organization_id ON reports(organization_id);
+CREATE INDEX IF NOT EXISTS idx_memberships_user_id ON memberships(user_id);
+CREATE INDEX IF NOT EXISTS idx_invitations_organization_id ON invitations(organization_id);
+CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_user_id ON refresh_tokens(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_refresh_tokens_token_hash ON refresh_tokens(token_hash);
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_family_id ON refresh_tokens(family_id);
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_expires_at ON refresh_tokens(expires_at);
+CREATE INDEX IF NOT EXISTS idx_api_keys_user_id ON api_keys(user_id);
+CREATE INDEX IF NOT EXISTS idx_email_tokens_user_id ON email_tokens(user_id, purpose);
+CREATE INDEX IF NOT EXISTS idx_email_tokens_expires_at ON email_tokens(expires_at);
+CREATE INDEX IF NOT EXISTS idx_user_identities_user_id ON user_identities(user_id);
+CREATE INDEX IF NOT EXISTS idx_oidc_login_states_expires_at ON oidc_login_states(expires_at);
+CREATE INDEX IF NOT EXISTS idx_login_attempts_email ON login_attempts(email, created_at);
+CREATE INDEX IF NOT EXISTS idx_login_attempts_ip_address ON login_attempts(ip_address, created_at);
+CREATE INDEX IF NOT EXISTS idx_security_events_user_id ON security_events(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_security_events_created_at ON security_events(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_scan_schedules_next_run_at ON scan_schedules(next_run_at) WHERE enabled;
+CREATE INDEX IF NOT EXISTS idx_jobs_pending_run_at ON jobs(run_at) WHERE status = 'pending';
@@ -0,0 +1,8 @@
+-- Migration 0002: revert report search
+
+DROP INDEX IF EXISTS idx_reports_scan_date;
+DROP INDEX IF EXISTS idx_reports_overall_score;
+DROP INDEX IF EXISTS idx_reports_report_data;
+DROP INDEX IF EXISTS idx_reports_search_vector;
+
+ALTER TABLE reports DROP COLUMN IF EXISTS search_vector;
@@ -0,0 +1,16 @@
+-- Migration 0002: full-text and structured search over reports
+
+-- Check titles, summaries and recommendations, weighted in that order for ranking
+ALTER TABLE reports ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  setweight(jsonb_to_tsvector('english', jsonb_path_query_array(report_data, '$.checks.*[*].title'), '["string"]'), 'A') ||
+  setweight(jsonb_to_tsvector('english', jsonb_path_query_array(report_data, '$.checks.*[*].summary'), '["string"]'), 'B') ||
+  setweight(jsonb_to_tsvector('english', jsonb_path_query_array(report_data, '$.checks.*[*].recommendation'), '["string"]'), 'C')
+) STORED;
+
+CREATE INDEX idx_reports_search_vector ON reports USING GIN (search_vector);
+
+-- Serves jsonpath check filters (report_data @? '$.checks.payments[*] ? (...)')
+CREATE INDEX idx_reports_report_data ON reports USING GIN (report_data jsonb_path_ops);
+
+CREATE INDEX idx_reports_overall_score ON reports(overall_score);
+CREATE INDEX idx_reports_scan_date ON reports(scan_date DESC);
@@ -0,0 +1,5 @@
+-- Migration 0003: restore the single-column created_at index
+
+CREATE INDEX IF NOT EXISTS idx_reports_created_at ON reports(created_at DESC);
+
+DROP INDEX IF EXISTS idx_reports_created_at_id;
@@ -0,0 +1,5 @@
+-- Migration 0003: composite index for keyset pagination of reports on (created_at, id)
+
+CREATE INDEX idx_reports_created_at_id ON reports(created_at DESC, id DESC);
+
+DROP INDEX IF EXISTS idx_reports_created_at;
@@ -0,0 +1,6 @@
+-- Migration 0004: drop the report analytics summary
+
+DROP TRIGGER IF EXISTS reports_daily_stats ON reports;
+DROP FUNCTION IF EXISTS report_daily_stats_trigger();
+DROP FUNCTION IF EXISTS report_daily_stats_apply(reports, INTEGER);
+DROP TABLE IF EXISTS report_daily_stats;
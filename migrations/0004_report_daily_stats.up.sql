@@ -0,0 +1,84 @@
+-- Migration 0004: daily report totals per workspace, for the analytics endpoint
+
+-- One row per workspace (user's personal reports, or an organization's reports per
+-- creating user) and scan day. Kept in step with reports by the trigger below.
+CREATE TABLE report_daily_stats (
+  user_id INTEGER NOT NULL,
+  organization_id INTEGER,
+  day DATE NOT NULL,
+  report_count INTEGER NOT NULL DEFAULT 0,
+  score_sum INTEGER NOT NULL DEFAULT 0,
+  compliant_count INTEGER NOT NULL DEFAULT 0,
+  warning_count INTEGER NOT NULL DEFAULT 0,
+  non_compliant_count INTEGER NOT NULL DEFAULT 0,
+  info_count INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE UNIQUE INDEX idx_report_daily_stats_scope_day
+  ON report_daily_stats(user_id, (COALESCE(organization_id, 0)), day);
+CREATE INDEX idx_report_daily_stats_organization_day
+  ON report_daily_stats(organization_id, day) WHERE organization_id IS NOT NULL;
+
+-- Add (sign = 1) or remove (sign = -1) one report from its day's totals
+CREATE FUNCTION report_daily_stats_apply(r reports, sign INTEGER) RETURNS void AS $$
+BEGIN
+  IF r.user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO report_daily_stats AS stats
+    (user_id, organization_id, day, report_count, score_sum,
+     compliant_count, warning_count, non_compliant_count, info_count)
+  VALUES (
+    r.user_id, r.organization_id, r.scan_date::date, sign, sign * r.overall_score,
+    sign * (r.overall_status = 'Compliant')::int,
+    sign * (r.overall_status = 'Warning')::int,
+    sign * (r.overall_status = 'Non-Compliant')::int,
+    sign * (r.overall_status = 'Info')::int
+  )
+  ON CONFLICT (user_id, (COALESCE(organization_id, 0)), day) DO UPDATE SET
+    report_count = stats.report_count + EXCLUDED.report_count,
+    score_sum = stats.score_sum + EXCLUDED.score_sum,
+    compliant_count = stats.compliant_count + EXCLUDED.compliant_count,
+    warning_count = stats.warning_count + EXCLUDED.warning_count,
+    non_compliant_count = stats.non_compliant_count + EXCLUDED.non_compliant_count,
+    info_count = stats.info_count + EXCLUDED.info_count;
+
+  DELETE FROM report_daily_stats
+  WHERE user_id = r.user_id
+    AND COALESCE(organization_id, 0) = COALESCE(r.organization_id, 0)
+    AND day = r.scan_date::date
+    AND report_count <= 0;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE FUNCTION report_daily_stats_trigger() RETURNS trigger AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM report_daily_stats_apply(OLD, -1);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM report_daily_stats_apply(NEW, 1);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Also fires when deleting an organization moves its reports to personal workspaces
+CREATE TRIGGER reports_daily_stats
+  AFTER INSERT OR DELETE OR UPDATE OF user_id, organization_id, scan_date, overall_score, overall_status
+  ON reports
+  FOR EACH ROW EXECUTE FUNCTION report_daily_stats_trigger();
+
+-- Existing reports
+INSERT INTO report_daily_stats
+  (user_id, organization_id, day, report_count, score_sum,
+   compliant_count, warning_count, non_compliant_count, info_count)
+SELECT user_id, organization_id, scan_date::date, COUNT(*), SUM(overall_score),
+  COUNT(*) FILTER (WHERE overall_status = 'Compliant'),
+  COUNT(*) FILTER (WHERE overall_status = 'Warning'),
+  COUNT(*) FILTER (WHERE overall_status = 'Non-Compliant'),
+  COUNT(*) FILTER (WHERE overall_status = 'Info')
+FROM reports
+WHERE user_id IS NOT NULL
+GROUP BY user_id, organization_id, scan_date::date;
@@ -0,0 +1,26 @@
+-- Migration 0005: return organization reports to their creators' personal sites
+
+INSERT INTO sites (user_id, url, normalized_url, created_at)
+SELECT DISTINCT ON (r.user_id, s.normalized_url) r.user_id, s.url, s.normalized_url, r.created_at
+FROM reports r
+JOIN sites s ON s.id = r.site_id
+WHERE s.organization_id IS NOT NULL AND r.user_id IS NOT NULL
+ORDER BY r.user_id, s.normalized_url, r.created_at
+ON CONFLICT (user_id, normalized_url) WHERE organization_id IS NULL DO NOTHING;
+
+UPDATE reports r
+SET site_id = personal.id
+FROM sites s, sites personal
+WHERE r.site_id = s.id
+  AND s.organization_id IS NOT NULL
+  AND personal.organization_id IS NULL
+  AND personal.user_id = r.user_id
+  AND personal.normalized_url = s.normalized_url;
+
+DELETE FROM sites WHERE organization_id IS NOT NULL;
+
+DROP INDEX IF EXISTS idx_sites_organization_url;
+DROP INDEX IF EXISTS idx_sites_personal_url;
+ALTER TABLE sites ADD CONSTRAINT sites_user_id_normalized_url_key UNIQUE (user_id, normalized_url);
+
+ALTER TABLE sites DROP COLUMN IF EXISTS organization_id;
@@ -0,0 +1,31 @@
+-- Migration 0005: scope sites to a workspace (a user's personal sites, or an organization's)
+
+ALTER TABLE sites ADD COLUMN organization_id INTEGER REFERENCES organizations(id) ON DELETE CASCADE;
+
+-- Personal sites are unique per user, organization sites per organization
+ALTER TABLE sites DROP CONSTRAINT IF EXISTS sites_user_id_normalized_url_key;
+CREATE UNIQUE INDEX idx_sites_personal_url ON sites(user_id, normalized_url) WHERE organization_id IS NULL;
+CREATE UNIQUE INDEX idx_sites_organization_url ON sites(organization_id, normalized_url)
+  WHERE organization_id IS NOT NULL;
+
+-- Organization reports were attached to their creator's personal site; give them organization sites
+INSERT INTO sites (user_id, organization_id, url, normalized_url, created_at)
+SELECT DISTINCT ON (r.organization_id, s.normalized_url) r.user_id, r.organization_id, s.url, s.normalized_url, r.created_at
+FROM reports r
+JOIN sites s ON s.id = r.site_id
+WHERE r.organization_id IS NOT NULL
+ORDER BY r.organization_id, s.normalized_url, r.created_at;
+
+UPDATE reports r
+SET site_id = org_site.id
+FROM sites s, sites org_site
+WHERE r.site_id = s.id
+  AND r.organization_id IS NOT NULL
+  AND org_site.organization_id = r.organization_id
+  AND org_site.normalized_url = s.normalized_url;
+
+-- Personal sites that only held organization reports
+DELETE FROM sites s
+WHERE s.organization_id IS NULL
+  AND NOT EXISTS (SELECT 1 FROM reports r WHERE r.site_id = s.id)
+  AND NOT EXISTS (SELECT 1 FROM scan_schedules ss WHERE ss.site_id = s.id);
@@ -0,0 +1,5 @@
+-- Migration 0006: drop the workspace of scheduled scans
+
+DROP INDEX IF EXISTS idx_scan_schedules_organization_id;
+
+ALTER TABLE scan_schedules DROP COLUMN IF EXISTS organization_id;
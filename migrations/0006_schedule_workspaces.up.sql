@@ -0,0 +1,19 @@
+-- Migration 0006: scheduled scans run in the workspace of their site
+
+ALTER TABLE scan_schedules ADD COLUMN organization_id INTEGER REFERENCES organizations(id) ON DELETE CASCADE;
+
+UPDATE scan_schedules ss
+SET organization_id = s.organization_id
+FROM sites s
+WHERE s.id = ss.site_id AND s.organization_id IS NOT NULL;
+
+CREATE INDEX idx_scan_schedules_organization_id ON scan_schedules(organization_id)
+  WHERE organization_id IS NOT NULL;
+
+-- Queued scans carry the workspace too
+UPDATE jobs j
+SET payload = j.payload || jsonb_build_object('organizationId', ss.organization_id)
+FROM scan_schedules ss
+WHERE j.type = 'scan'
+  AND j.status IN ('pending', 'running')
+  AND ss.id = (j.payload->>'scheduleId')::int;
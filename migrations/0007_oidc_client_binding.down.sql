@@ -0,0 +1,3 @@
+-- Migration 0007: drop the client binding of OIDC login states
+
+ALTER TABLE oidc_login_states DROP COLUMN IF EXISTS client_nonce_hash;
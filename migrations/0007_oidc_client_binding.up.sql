@@ -0,0 +1,6 @@
+-- Migration 0007: bind OIDC login states to the client that started the login
+
+-- Pending logins started before this can't be completed
+DELETE FROM oidc_login_states;
+
+ALTER TABLE oidc_login_states ADD COLUMN client_nonce_hash VARCHAR(64) NOT NULL;
@@ -0,0 +1,3 @@
+-- Migration 0008: drop email request throttling
+
+DROP TABLE IF EXISTS email_requests;
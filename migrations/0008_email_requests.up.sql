@@ -0,0 +1,13 @@
+-- Migration 0008: verification and password reset requests, for throttling
+
+-- Recorded whether or not an account exists, so limits don't reveal accounts
+CREATE TABLE email_requests (
+  id SERIAL PRIMARY KEY,
+  email VARCHAR(255) NOT NULL,
+  ip_address VARCHAR(64) NOT NULL,
+  purpose VARCHAR(20) NOT NULL CHECK (purpose IN ('verify_email', 'reset_password')),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_email_requests_email ON email_requests(email, purpose, created_at);
+CREATE INDEX idx_email_requests_ip_address ON email_requests(ip_address, created_at);
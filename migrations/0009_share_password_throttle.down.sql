@@ -0,0 +1,4 @@
+-- Migration 0009: drop share link password throttling
+
+ALTER TABLE report_shares DROP COLUMN IF EXISTS password_locked_until;
+ALTER TABLE report_shares DROP COLUMN IF EXISTS password_attempts;
@@ -0,0 +1,5 @@
+-- Migration 0009: throttle wrong passwords on share links
+
+-- Attempts since the last successful view or lockout; reaching the limit locks the link
+ALTER TABLE report_shares ADD COLUMN password_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE report_shares ADD COLUMN password_locked_until TIMESTAMP;
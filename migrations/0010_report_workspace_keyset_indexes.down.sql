@@ -0,0 +1,7 @@
+-- Migration 0010: restore the single-column user and organization indexes
+
+CREATE INDEX IF NOT EXISTS idx_reports_user_id ON reports(user_id);
+CREATE INDEX IF NOT EXISTS idx_reports_organization_id ON reports(organization_id);
+
+DROP INDEX IF EXISTS idx_reports_organization_id_created_at_id;
+DROP INDEX IF EXISTS idx_reports_user_id_created_at_id;
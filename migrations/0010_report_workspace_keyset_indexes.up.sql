@@ -0,0 +1,10 @@
+-- Migration 0010: keyset pagination indexes for listing a workspace's reports
+
+-- Personal workspaces filter on user_id, organizations on organization_id; both page by (created_at, id)
+CREATE INDEX idx_reports_user_id_created_at_id ON reports(user_id, created_at DESC, id DESC);
+CREATE INDEX idx_reports_organization_id_created_at_id ON reports(organization_id, created_at DESC, id DESC)
+  WHERE organization_id IS NOT NULL;
+
+-- Covered by the leading columns of the indexes above
+DROP INDEX IF EXISTS idx_reports_user_id;
+DROP INDEX IF EXISTS idx_reports_organization_id;
@@ -1,4 +1,5 @@
 import dotenv from 'dotenv';
+import type { OidcProviderConfig } from '../types/index.js';
 
 // Load environment variables
 dotenv.config();
@@ -28,18 +29,207 @@ function parseDatabaseUrl() {
   };
 }
 
+// Parse "key=value,key=value" weight lists, e.g. SCORING_CATEGORY_WEIGHTS=security=2,payments=1.5
+function parseWeights(value: string | undefined, defaults: Record<string, number>): Record<string, number> {
+  const weights = { ...defaults };
+  if (!value) {
+    return weights;
+  }
+
+  for (const pair of value.split(',')) {
+    const [key, weight] = pair.split('=').map((part) => part.trim());
+    const parsed = parseFloat(weight);
+    if (key && !isNaN(parsed)) {
+      weights[key] = parsed;
+    }
+  }
+
+  return weights;
+}
+
+// OpenID Connect providers are enabled by setting their client id and secret
+function parseOidcProviders(): OidcProviderConfig[] {
+  const providers: OidcProviderConfig[] = [];
+
+  if (process.env.OIDC_GOOGLE_CLIENT_ID) {
+    providers.push({
+      name: 'google',
+      issuer: process.env.OIDC_GOOGLE_ISSUER || 'https://accounts.google.com',
+      clientId: process.env.OIDC_GOOGLE_CLIENT_ID,
+      clientSecret: process.env.OIDC_GOOGLE_CLIENT_SECRET || '',
+    });
+  }
+
+  if (process.env.OIDC_MICROSOFT_CLIENT_ID) {
+    const tenant = process.env.OIDC_MICROSOFT_TENANT || 'common';
+    providers.push({
+      name: 'microsoft',
+      issuer: process.env.OIDC_MICROSOFT_ISSUER || `https://login.microsoftonline.com/${tenant}/v2.0`,
+      clientId: process.env.OIDC_MICROSOFT_CLIENT_ID,
+      clientSecret: process.env.OIDC_MICROSOFT_CLIENT_SECRET || '',
+    });
+  }
+
+  return providers;
+}
+
+const MAIL_TRANSPORTS = ['smtp', 'file', 'memory'] as const;
+
+type MailTransport = (typeof MAIL_TRANSPORTS)[number];
+
+// Unknown transports are a configuration error rather than a silent fallback
+function parseMailTransport(value: string | undefined): MailTransport {
+  const transport = value || 'file';
+  if (!(MAIL_TRANSPORTS as readonly string[]).includes(transport)) {
+    throw new Error(`MAIL_TRANSPORT must be one of ${MAIL_TRANSPORTS.join(', ')} (got "${transport}")`);
+  }
+
+  return transport as MailTransport;
+}
+
+// Frontend base URL used in emailed links and the OIDC redirect
+const appUrl = process.env.APP_URL || process.env.CORS_ORIGIN?.split(',')[0].trim() || 'http://localhost:5173';
+
+export const DEFAULT_ACCESS_SECRET = 'change-me-in-production-access';
+
 export const config = {
+  env: process.env.NODE_ENV || 'development',
   server: {
     port: parseInt(process.env.PORT || '3001', 10),
     host: process.env.HOST || '0.0.0.0',
+    // Use X-Forwarded-For for the client IP (sessions, login throttling) behind a reverse proxy
+    trustProxy: process.env.TRUST_PROXY === 'true',
   },
   database: parseDatabaseUrl(),
   cors: {
     origin: process.env.CORS_ORIGIN || 'http://localhost:5173',
   },
   jwt: {
-    accessSecret: process.env.JWT_ACCESS_SECRET || 'change-me-in-production-access',
+    // Encrypts stored signing keys and signs MFA challenge tokens
+    accessSecret: process.env.JWT_ACCESS_SECRET || DEFAULT_ACCESS_SECRET,
     accessExpiry: process.env.JWT_ACCESS_EXPIRY || '15m', // 15 minutes
     refreshExpiryDays: parseInt(process.env.JWT_REFRESH_EXPIRY_DAYS || '7', 10), // 7 days
+    // Access tokens are signed with rotating asymmetric keys, published at /.well-known/jwks.json
+    algorithm: (process.env.JWT_ALGORITHM === 'EdDSA' ? 'EdDSA' : 'RS256') as 'RS256' | 'EdDSA',
+    keyRotationDays: parseInt(process.env.JWT_KEY_ROTATION_DAYS || '30', 10),
+    // How long a replaced key keeps verifying tokens (must exceed the access token lifetime)
+    keyRetireAfterHours: parseInt(process.env.JWT_KEY_RETIRE_AFTER_HOURS || '24', 10),
+  },
+  auth: {
+    // Block users who haven't verified their email address from creating reports
+    requireVerifiedEmail: process.env.AUTH_REQUIRE_VERIFIED_EMAIL === 'true',
+    emailVerificationExpiryHours: parseInt(process.env.EMAIL_VERIFICATION_EXPIRY_HOURS || '24', 10),
+    passwordResetExpiryMinutes: parseInt(process.env.PASSWORD_RESET_EXPIRY_MINUTES || '60', 10),
+    // Verification and reset emails allowed per email address (and per IP) within the window
+    emailRequestWindowMinutes: parseInt(process.env.EMAIL_REQUEST_WINDOW_MINUTES || '60', 10),
+    maxEmailRequests: parseInt(process.env.EMAIL_REQUEST_MAX_PER_EMAIL || '3', 10),
+    maxEmailRequestsPerIp: parseInt(process.env.EMAIL_REQUEST_MAX_PER_IP || '20', 10),
+    // Failed logins within the window lock the account (or IP) for lockoutMinutes
+    loginWindowMinutes: parseInt(process.env.LOGIN_WINDOW_MINUTES || '15', 10),
+    maxFailedLogins: parseInt(process.env.LOGIN_MAX_FAILED_ATTEMPTS || '5', 10),
+    maxFailedLoginsPerIp: parseInt(process.env.LOGIN_MAX_FAILED_ATTEMPTS_PER_IP || '20', 10),
+    lockoutMinutes: parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15', 10),
+    // Delay before answering a failed login, doubled per recent failure
+    loginDelayBaseMs: parseInt(process.env.LOGIN_DELAY_BASE_MS || '250', 10),
+    loginMaxDelayMs: parseInt(process.env.LOGIN_MAX_DELAY_MS || '5000', 10),
+    // Two-factor authentication (TOTP)
+    mfaIssuer: process.env.MFA_ISSUER || 'Charity Compliance Checker',
+    mfaChallengeExpiry: process.env.MFA_CHALLENGE_EXPIRY || '5m',
+    mfaRecoveryCodeCount: parseInt(process.env.MFA_RECOVERY_CODE_COUNT || '10', 10),
+  },
+  mail: {
+    // 'smtp' sends real mail, 'file' writes messages to MAIL_FILE_DIR, 'memory' keeps them in process
+    transport: parseMailTransport(process.env.MAIL_TRANSPORT),
+    from: process.env.MAIL_FROM || 'Charity Compliance Checker <no-reply@localhost>',
+    // Frontend base URL used in verification and reset links
+    appUrl,
+    fileDirectory: process.env.MAIL_FILE_DIR || 'mail-outbox',
+    smtp: {
+      host: process.env.SMTP_HOST || 'localhost',
+      port: parseInt(process.env.SMTP_PORT || '587', 10),
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER || '',
+      password: process.env.SMTP_PASSWORD || '',
+      allowInsecureAuth: process.env.SMTP_ALLOW_INSECURE_AUTH === 'true',
+      timeoutMs: parseInt(process.env.SMTP_TIMEOUT_MS || '10000', 10),
+    },
+  },
+  oidc: {
+    providers: parseOidcProviders(),
+    // Frontend page the provider returns to; it posts the code and state to /api/auth/oidc/callback
+    redirectUri: process.env.OIDC_REDIRECT_URI || `${appUrl}/auth/oidc/callback`,
+    stateExpiryMinutes: parseInt(process.env.OIDC_STATE_EXPIRY_MINUTES || '10', 10),
+    // Create accounts for verified emails without one (otherwise only existing users can sign in)
+    allowSignup: process.env.OIDC_ALLOW_SIGNUP !== 'false',
+    timeoutMs: parseInt(process.env.OIDC_TIMEOUT_MS || '10000', 10),
+  },
+  branding: {
+    // Name and accent colour on exported reports
+    name: process.env.BRAND_NAME || 'Charity Compliance Checker',
+    color: /^#[0-9a-f]{6}$/i.test(process.env.BRAND_COLOR || '') ? process.env.BRAND_COLOR! : '#1f4e79',
+  },
+  organizations: {
+    invitationExpiryDays: parseInt(process.env.INVITATION_EXPIRY_DAYS || '7', 10),
+  },
+  shares: {
+    // Wrong passwords on one link before it is locked for passwordLockoutMinutes
+    maxPasswordAttempts: parseInt(process.env.SHARE_PASSWORD_MAX_ATTEMPTS || '5', 10),
+    passwordLockoutMinutes: parseInt(process.env.SHARE_PASSWORD_LOCKOUT_MINUTES || '15', 10),
+  },
+  scanner: {
+    timeoutMs: parseInt(process.env.SCANNER_TIMEOUT_MS || '10000', 10), // 10 seconds per page
+    maxPages: parseInt(process.env.SCANNER_MAX_PAGES || '8', 10),
+    maxPageBytes: parseInt(process.env.SCANNER_MAX_PAGE_BYTES || '2000000', 10), // 2 MB
+    maxRedirects: parseInt(process.env.SCANNER_MAX_REDIRECTS || '5', 10),
+    userAgent: process.env.SCANNER_USER_AGENT || 'CharityComplianceChecker/1.0',
+  },
+  jobs: {
+    enabled: process.env.JOBS_ENABLED !== 'false',
+    pollIntervalMs: parseInt(process.env.JOBS_POLL_INTERVAL_MS || '30000', 10), // 30 seconds
+    maxAttempts: parseInt(process.env.JOBS_MAX_ATTEMPTS || '3', 10),
+    backoffBaseMs: parseInt(process.env.JOBS_BACKOFF_BASE_MS || '60000', 10), // 1 minute, doubled per attempt
+    staleAfterMs: parseInt(process.env.JOBS_STALE_AFTER_MS || '600000', 10), // 10 minutes
+    maintenanceIntervalMs: parseInt(process.env.JOBS_MAINTENANCE_INTERVAL_MS || '3600000', 10), // 1 hour
+  },
+  scoring: {
+    categoryWeights: parseWeights(process.env.SCORING_CATEGORY_WEIGHTS, {
+      websitePolicies: 1,
+      security: 1,
+      memberData: 1,
+      marketing: 1,
+      payments: 1,
+    }),
+    statusWeights: parseWeights(process.env.SCORING_STATUS_WEIGHTS, {
+      Compliant: 1,
+      Warning: 0.5,
+      'Non-Compliant': 0,
+    }),
+    compliantThreshold: parseInt(process.env.SCORING_COMPLIANT_THRESHOLD || '80', 10),
+    warningThreshold: parseInt(process.env.SCORING_WARNING_THRESHOLD || '50', 10),
+    // 'reject' refuses reports whose submitted score/status differ, 'flag' stores them marked
+    mismatchPolicy: (process.env.SCORING_MISMATCH_POLICY === 'reject' ? 'reject' : 'flag') as 'reject' | 'flag',
+    scoreTolerance: parseInt(process.env.SCORING_SCORE_TOLERANCE || '0', 10),
+  },
+  analytics: {
+    // Answer score trends and status counts from report_daily_stats instead of scanning reports
+    useSummaryTable: process.env.ANALYTICS_USE_SUMMARY_TABLE !== 'false',
   },
 };
+
+/**
+ * Refuse to run in production with insecure defaults
+ */
+export function assertProductionConfig(): void {
+  if (config.env !== 'production') {
+    return;
+  }
+
+  if (config.jwt.accessSecret === DEFAULT_ACCESS_SECRET) {
+    throw new Error('JWT_ACCESS_SECRET must be set in production');
+  }
+
+  // The file and memory transports never deliver verification or password reset emails
+  if (config.mail.transport !== 'smtp') {
+    throw new Error(`MAIL_TRANSPORT must be smtp in production (got "${config.mail.transport}")`);
+  }
+}
@@ -1,40 +1,103 @@
-import jwt, { SignOptions } from 'jsonwebtoken';
+import { createSigner, createVerifier } from 'fast-jwt';
 import { config } from './env.js';
 import crypto from 'crypto';
+import { signWithCurrentKey, verifyWithKnownKey } from '../utils/signingKeys.js';
+import type { VerifiedClaims } from '../utils/signingKeys.js';
+import { ROLE_PERMISSIONS } from './roles.js';
+import type { ApiKeyScope, Role } from '../types/index.js';
 
 export interface JWTPayload {
   userId: number;
   email: string;
+  // Current organization workspace (null = personal workspace)
+  orgId?: number | null;
+  // Role in the current workspace ('owner' in the personal workspace)
+  role?: Role;
+  // Set when the request was authenticated with an API key instead of a token
+  apiKeyId?: number;
+  scopes?: ApiKeyScope[];
+}
+
+function isId(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(ROLE_PERMISSIONS, value);
 }
 
 /**
- * Generate access token (short-lived)
+ * Generate access token (short-lived), signed with the current asymmetric key
  */
 export function generateAccessToken(payload: JWTPayload): string {
-  const secret: string = config.jwt.accessSecret;
-  const options: SignOptions = {
-    expiresIn: config.jwt.accessExpiry as any,
-  };
-  return jwt.sign(payload, secret, options);
+  return signWithCurrentKey({ ...payload });
 }
 
 /**
- * Generate refresh token (long-lived)
+ * Verify access token against the published signing keys
  */
-export function generateRefreshToken(): string {
-  return crypto.randomBytes(64).toString('hex');
+export function verifyAccessToken(token: string): JWTPayload | null {
+  let claims: VerifiedClaims;
+  try {
+    claims = verifyWithKnownKey(token);
+  } catch (error) {
+    return null;
+  }
+
+  const { userId, email, orgId, role } = claims;
+
+  // A validly signed token with unexpected claims is still rejected
+  if (
+    !isId(userId) ||
+    typeof email !== 'string' ||
+    (orgId !== undefined && orgId !== null && !isId(orgId)) ||
+    (role !== undefined && !isRole(role))
+  ) {
+    return null;
+  }
+
+  return { userId, email, orgId, role };
 }
 
+// MFA challenge tokens use their own key so they can never pass as access tokens
+const mfaSecret = crypto.createHmac('sha256', config.jwt.accessSecret).update('mfa-challenge').digest('hex');
+
+const signMfaToken = createSigner({
+  key: mfaSecret,
+  algorithm: 'HS256',
+  expiresIn: config.auth.mfaChallengeExpiry,
+});
+
+const verifyMfaChallenge = createVerifier({ key: mfaSecret, algorithms: ['HS256'] });
+
 /**
- * Verify access token
+ * Generate MFA challenge token (issued after the password check, exchanged with a 2FA code)
  */
-export function verifyAccessToken(token: string): JWTPayload | null {
+export function generateMfaToken(userId: number): string {
+  return signMfaToken({ userId });
+}
+
+/**
+ * Verify MFA challenge token, returning the user ID
+ */
+export function verifyMfaToken(token: string): number | null {
+  let payload: unknown;
   try {
-    const payload = jwt.verify(token, config.jwt.accessSecret) as JWTPayload;
-    return payload;
+    payload = verifyMfaChallenge(token);
   } catch (error) {
     return null;
   }
+
+  // A validly signed token with unexpected claims is still rejected
+  const userId = typeof payload === 'object' && payload !== null ? (payload as { userId?: unknown }).userId : undefined;
+  return isId(userId) ? userId : null;
+}
+
+/**
+ * Generate refresh token (long-lived)
+ */
+export function generateRefreshToken(): string {
+  return crypto.randomBytes(64).toString('hex');
 }
 
 /**
@@ -0,0 +1,66 @@
+import type { ApiKeyScope, Role } from '../types/index.js';
+
+export type Permission =
+  | 'reports:read'
+  | 'reports:create'
+  | 'reports:delete'
+  | 'reports:share'
+  | 'scans:run'
+  | 'members:read'
+  | 'members:manage'
+  | 'organization:manage'
+  | 'users:manage';
+
+const VIEWER: Permission[] = ['reports:read', 'members:read'];
+const EDITOR: Permission[] = [...VIEWER, 'reports:create', 'scans:run'];
+// Share links publish reports outside the workspace
+const ADMIN: Permission[] = [...EDITOR, 'reports:delete', 'reports:share', 'members:manage'];
+const OWNER: Permission[] = [...ADMIN, 'organization:manage'];
+
+/**
+ * Permissions granted to each role.
+ * Organization roles never include system permissions such as 'users:manage';
+ * those belong to the superadmin only.
+ */
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  viewer: VIEWER,
+  editor: EDITOR,
+  admin: ADMIN,
+  owner: OWNER,
+  superadmin: [...OWNER, 'users:manage'],
+};
+
+// Higher rank can manage lower rank
+const ROLE_RANK: Record<Role, number> = {
+  viewer: 1,
+  editor: 2,
+  admin: 3,
+  owner: 4,
+  superadmin: 5,
+};
+
+export function hasPermission(role: Role, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Whether a user with `actor` role may assign or change a member with `target` role
+ * (owners can manage anyone, admins only roles below admin)
+ */
+export function canManageRole(actor: Role, target: Role): boolean {
+  return ROLE_RANK[actor] >= ROLE_RANK.owner || ROLE_RANK[actor] > ROLE_RANK[target];
+}
+
+/**
+ * Permissions each API key scope unlocks. Anything not listed here
+ * (members, organizations, users) is never available to API keys.
+ */
+const SCOPE_PERMISSIONS: Record<ApiKeyScope, readonly Permission[]> = {
+  'reports:read': ['reports:read'],
+  'reports:write': ['reports:create', 'reports:delete'],
+  'scans:run': ['scans:run'],
+};
+
+export function scopesAllow(scopes: readonly ApiKeyScope[], permission: Permission): boolean {
+  return scopes.some((scope) => SCOPE_PERMISSIONS[scope].includes(permission));
+}
@@ -15,6 +15,39 @@ export const pool = new Pool({
   connectionTimeoutMillis: 2000, // Return an error after 2 seconds if connection cannot be established
 });
 
+/**
+ * Anything queries can be run on: the pool, or a client checked out for a transaction
+ */
+export type Executor = Pick<pg.PoolClient, 'query'>;
+
+/**
+ * Run fn inside a transaction on a dedicated client. Pass the client to repository
+ * functions to include them; the transaction commits when fn resolves and rolls
+ * back if it throws.
+ *
+ * The original error is always rethrown. If the rollback fails too, the client is
+ * discarded instead of going back to the pool.
+ */
+export async function withTransaction<T>(fn: (client: pg.PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+  let rollbackError: Error | undefined;
+  try {
+    await client.query('BEGIN');
+    const result = await fn(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    try {
+      await client.query('ROLLBACK');
+    } catch (err) {
+      rollbackError = err instanceof Error ? err : new Error(String(err));
+    }
+    throw error;
+  } finally {
+    client.release(rollbackError);
+  }
+}
+
 // Test database connection
 export async function testConnection(): Promise<void> {
   try {
@@ -8,5 +8,5 @@
 -- Create database (run this separately if needed)
 -- CREATE DATABASE charity_compliance;
 
--- Run schema
-\i schema.sql
+-- Tables are created by the migrations in migrations/:
+--   npm run migrate up
@@ -0,0 +1,281 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type pg from 'pg';
+
+/**
+ * Versioned SQL migrations.
+ *
+ * Migrations are pairs of files in migrations/ named NNNN_description.up.sql and
+ * NNNN_description.down.sql. Applied versions are recorded in schema_migrations, and
+ * a Postgres advisory lock stops two deploys migrating the same database at once.
+ */
+
+export interface Migration {
+  version: number;
+  name: string;
+  upPath: string;
+  downPath: string | null;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: Date | null;
+  // The up file changed after it was applied
+  modified: boolean;
+  // Recorded as applied but the file no longer exists
+  missing: boolean;
+}
+
+export class MigrationError extends Error {}
+
+// Relative to this file, so it resolves from both src/db and dist/db
+export const MIGRATIONS_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../migrations');
+
+const FILE_PATTERN = /^(\d{4})_([a-z0-9_]+)\.(up|down)\.sql$/;
+
+// Statements that can't run inside a transaction (e.g. CREATE INDEX CONCURRENTLY) opt out with this line
+const NO_TRANSACTION_MARKER = /^--\s*migrate:no-transaction\s*$/m;
+
+interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+export function loadMigrations(dir: string = MIGRATIONS_DIR): Migration[] {
+  const migrations = new Map<number, Migration>();
+
+  for (const file of fs.readdirSync(dir).sort()) {
+    const match = FILE_PATTERN.exec(file);
+    if (!match) {
+      continue;
+    }
+
+    const version = parseInt(match[1], 10);
+    const existing = migrations.get(version);
+    if (existing && existing.name !== match[2]) {
+      throw new MigrationError(`Duplicate migration version ${match[1]}: ${existing.name} and ${match[2]}`);
+    }
+
+    const migration = existing ?? { version, name: match[2], upPath: '', downPath: null };
+    if (match[3] === 'up') {
+      migration.upPath = path.join(dir, file);
+    } else {
+      migration.downPath = path.join(dir, file);
+    }
+    migrations.set(version, migration);
+  }
+
+  for (const migration of migrations.values()) {
+    if (!migration.upPath) {
+      throw new MigrationError(`Migration ${formatVersion(migration.version)}_${migration.name} has no up file`);
+    }
+  }
+
+  return [...migrations.values()].sort((a, b) => a.version - b.version);
+}
+
+export function formatVersion(version: number): string {
+  return String(version).padStart(4, '0');
+}
+
+function checksum(sql: string): string {
+  return crypto.createHash('sha256').update(sql).digest('hex');
+}
+
+async function ensureMigrationsTable(client: pg.Client): Promise<void> {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      checksum VARCHAR(64) NOT NULL,
+      applied_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+}
+
+async function getAppliedMigrations(client: pg.Client): Promise<AppliedMigration[]> {
+  const result = await client.query<AppliedMigration>(
+    'SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version'
+  );
+  return result.rows;
+}
+
+/**
+ * Hold the migration lock for the duration of fn. Session-level, so it also covers
+ * migrations that run outside a transaction; other runners wait until it is released.
+ */
+async function withMigrationLock<T>(client: pg.Client, fn: () => Promise<T>): Promise<T> {
+  await client.query("SELECT pg_advisory_lock(hashtext('schema_migrations'))");
+  try {
+    await ensureMigrationsTable(client);
+    return await fn();
+  } finally {
+    await client.query("SELECT pg_advisory_unlock(hashtext('schema_migrations'))");
+  }
+}
+
+/**
+ * Run one migration file and record (or remove) its schema_migrations row
+ */
+async function runMigration(
+  client: pg.Client,
+  migration: Migration,
+  direction: 'up' | 'down'
+): Promise<void> {
+  const file = direction === 'up' ? migration.upPath : migration.downPath!;
+  const sql = fs.readFileSync(file, 'utf8');
+  const useTransaction = !NO_TRANSACTION_MARKER.test(sql);
+
+  const record = async () => {
+    if (direction === 'up') {
+      await client.query(
+        'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+        [migration.version, migration.name, checksum(sql)]
+      );
+    } else {
+      await client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+    }
+  };
+
+  if (!useTransaction) {
+    await client.query(sql);
+    await record();
+    return;
+  }
+
+  try {
+    await client.query('BEGIN');
+    await client.query(sql);
+    await record();
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  }
+}
+
+/**
+ * Apply pending migrations in version order, up to and including `target` if given.
+ * Returns the migrations that were applied.
+ */
+export async function migrateUp(
+  client: pg.Client,
+  options: { target?: number; dir?: string } = {}
+): Promise<Migration[]> {
+  const migrations = loadMigrations(options.dir);
+
+  return withMigrationLock(client, async () => {
+    const applied = new Set((await getAppliedMigrations(client)).map((row) => row.version));
+    const pending = migrations.filter(
+      (migration) =>
+        !applied.has(migration.version) && (options.target === undefined || migration.version <= options.target)
+    );
+
+    for (const migration of pending) {
+      try {
+        await runMigration(client, migration, 'up');
+      } catch (error) {
+        throw new MigrationError(
+          `Migration ${formatVersion(migration.version)}_${migration.name} failed: ${(error as Error).message}`
+        );
+      }
+    }
+
+    return pending;
+  });
+}
+
+/**
+ * Revert the most recently applied migrations, newest first.
+ * Returns the migrations that were reverted.
+ */
+export async function migrateDown(
+  client: pg.Client,
+  options: { steps?: number; dir?: string } = {}
+): Promise<Migration[]> {
+  const { steps = 1 } = options;
+  const migrations = new Map(loadMigrations(options.dir).map((migration) => [migration.version, migration]));
+
+  return withMigrationLock(client, async () => {
+    const toRevert = (await getAppliedMigrations(client)).reverse().slice(0, steps);
+
+    // Check every file exists before reverting anything
+    const reverting = toRevert.map((row) => {
+      const migration = migrations.get(row.version);
+      if (!migration?.downPath) {
+        throw new MigrationError(`Migration ${formatVersion(row.version)}_${row.name} has no down file`);
+      }
+      return migration;
+    });
+
+    for (const migration of reverting) {
+      try {
+        await runMigration(client, migration, 'down');
+      } catch (error) {
+        throw new MigrationError(
+          `Reverting ${formatVersion(migration.version)}_${migration.name} failed: ${(error as Error).message}`
+        );
+      }
+    }
+
+    return reverting;
+  });
+}
+
+/**
+ * Applied and pending migrations, including applied versions whose files are gone
+ */
+export async function getMigrationStatus(client: pg.Client, dir?: string): Promise<MigrationStatus[]> {
+  const migrations = loadMigrations(dir);
+
+  return withMigrationLock(client, async () => {
+    const applied = new Map((await getAppliedMigrations(client)).map((row) => [row.version, row]));
+
+    const statuses: MigrationStatus[] = migrations.map((migration) => {
+      const row = applied.get(migration.version);
+      return {
+        version: migration.version,
+        name: migration.name,
+        appliedAt: row?.applied_at ?? null,
+        modified: row ? row.checksum !== checksum(fs.readFileSync(migration.upPath, 'utf8')) : false,
+        missing: false,
+      };
+    });
+
+    for (const row of applied.values()) {
+      if (!migrations.some((migration) => migration.version === row.version)) {
+        statuses.push({ version: row.version, name: row.name, appliedAt: row.applied_at, modified: false, missing: true });
+      }
+    }
+
+    return statuses.sort((a, b) => a.version - b.version);
+  });
+}
+
+/**
+ * Create empty up/down files for the next version. Returns the paths written.
+ */
+export function createMigration(name: string, dir: string = MIGRATIONS_DIR): { upPath: string; downPath: string } {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  if (!slug) {
+    throw new MigrationError('Migration name must contain letters or digits');
+  }
+
+  const migrations = loadMigrations(dir);
+  const version = formatVersion((migrations.at(-1)?.version ?? 0) + 1);
+  const upPath = path.join(dir, `${version}_${slug}.up.sql`);
+  const downPath = path.join(dir, `${version}_${slug}.down.sql`);
+
+  fs.writeFileSync(upPath, `-- Migration ${version}: ${name}\n\n`, { flag: 'wx' });
+  fs.writeFileSync(downPath, `-- Migration ${version}: revert ${name}\n\n`, { flag: 'wx' });
+
+  return { upPath, downPath };
+}
@@ -1,235 +1,2175 @@
-import { pool } from './connection.js';
-import type { ComplianceReport, Report, ReportSummary, User, RefreshToken } from '../types/index.js';
+import crypto from 'crypto';
+import { pool, withTransaction } from './connection.js';
+import type { Executor } from './connection.js';
+import { config } from '../config/env.js';
+import { normalizeUrl } from '../utils/url.js';
+import { encodeCursor } from '../utils/cursor.js';
+import type {
+  AnalyticsBucket,
+  AnalyticsScope,
+  ComplianceReport,
+  GetReportsResponse,
+  Report,
+  ReportCursor,
+  ReportFilters,
+  ReportSortField,
+  ReportSummary,
+  SortOrder,
+  User,
+  RefreshToken,
+  Site,
+  SiteSummary,
+  SiteHistoryPoint,
+  ComplianceStatus,
+  ScanSchedule,
+  ScheduleFrequency,
+  Job,
+  ScanJobPayload,
+  JobPayloads,
+  JobType,
+  SessionMetadata,
+  SessionSummary,
+  EmailToken,
+  EmailTokenPurpose,
+  OidcLoginState,
+  LoginFailureStats,
+  EmailRequestStats,
+  SecurityEvent,
+  SigningKey,
+  ApiKey,
+  ApiKeyScope,
+  ApiKeySummary,
+  CheckCategory,
+  FailingCheck,
+  ScoreRegression,
+  ScoreTrendPoint,
+  StatusDistribution,
+  ReportShare,
+  ShareSummary,
+  SecurityEventType,
+  SecurityEventSummary,
+  Organization,
+  Membership,
+  MembershipRole,
+  Invitation,
+  OrganizationSummary,
+  MemberSummary,
+} from '../types/index.js';
 
 /**
- * Repository for database operations (No ORM - pure SQL)
+ * Repository for database operations (No ORM - pure SQL).
+ *
+ * Functions take an optional executor as their last argument: the pool by default,
+ * or the client passed to a withTransaction() callback to make them part of that transaction.
  */
 
+/**
+ * Run a multi-statement operation atomically: inside the caller's transaction when
+ * given one, otherwise in a transaction of its own
+ */
+function inTransaction<T>(db: Executor, fn: (client: Executor) => Promise<T>): Promise<T> {
+  return db === pool ? withTransaction(fn) : fn(db);
+}
+
 // Auth & User operations
 export async function createUser(
   email: string,
   passwordHash: string,
-  fullName?: string
+  fullName?: string,
+  db: Executor = pool
 ): Promise<User> {
-  const client = await pool.connect();
-  try {
-    const result = await client.query<User>(
-      `INSERT INTO users (email, password_hash, full_name)
-       VALUES ($1, $2, $3)
-       RETURNING *`,
-      [email, passwordHash, fullName || null]
-    );
+  const result = await db.query<User>(
+    `INSERT INTO users (email, password_hash, full_name)
+     VALUES ($1, $2, $3)
+     RETURNING *`,
+    [email, passwordHash, fullName || null]
+  );
 
-    return result.rows[0];
-  } finally {
-    client.release();
-  }
+  return result.rows[0];
 }
 
-export async function findUserByEmail(email: string): Promise<User | null> {
-  const client = await pool.connect();
-  try {
-    const result = await client.query<User>(
-      'SELECT * FROM users WHERE email = $1',
-      [email]
+export async function findUserByEmail(email: string, db: Executor = pool): Promise<User | null> {
+  const result = await db.query<User>(
+    'SELECT * FROM users WHERE email = $1',
+    [email]
+  );
+
+  return result.rows.length > 0 ? result.rows[0] : null;
+}
+
+export async function findUserById(userId: number, db: Executor = pool): Promise<User | null> {
+  const result = await db.query<User>(
+    'SELECT * FROM users WHERE id = $1',
+    [userId]
+  );
+
+  return result.rows.length > 0 ? result.rows[0] : null;
+}
+
+// Two-factor authentication operations
+
+/**
+ * Store a new secret for enrolment; it has no effect until enableTotp is called
+ */
+export async function setPendingTotpSecret(
+  userId: number,
+  secret: string,
+  db: Executor = pool
+): Promise<void> {
+  await db.query(
+    `UPDATE users SET totp_secret = $2, totp_last_step = NULL, updated_at = CURRENT_TIMESTAMP
+     WHERE id = $1 AND NOT totp_enabled`,
+    [userId, secret]
+  );
+}
+
+/**
+ * Turn on 2FA and replace any recovery codes
+ */
+export async function enableTotp(
+  userId: number,
+  recoveryCodeHashes: string[],
+  db: Executor = pool
+): Promise<void> {
+  return inTransaction(db, async (client) => {
+    await client.query(
+      `UPDATE users SET totp_enabled = TRUE, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
+      [userId]
     );
 
-    return result.rows.length > 0 ? result.rows[0] : null;
-  } finally {
-    client.release();
-  }
+    await insertRecoveryCodes(client, userId, recoveryCodeHashes);
+  });
 }
 
-export async function findUserById(userId: number): Promise<User | null> {
-  const client = await pool.connect();
-  try {
-    const result = await client.query<User>(
-      'SELECT * FROM users WHERE id = $1',
+export async function disableTotp(userId: number, db: Executor = pool): Promise<void> {
+  return inTransaction(db, async (client) => {
+    await client.query(
+      `UPDATE users
+       SET totp_enabled = FALSE, totp_secret = NULL, totp_last_step = NULL, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1`,
       [userId]
     );
 
-    return result.rows.length > 0 ? result.rows[0] : null;
-  } finally {
-    client.release();
-  }
+    await client.query('DELETE FROM mfa_recovery_codes WHERE user_id = $1', [userId]);
+  });
+}
+
+/**
+ * Accept a TOTP time step only if it is newer than the last one used (prevents code replay)
+ */
+export async function recordTotpStep(userId: number, step: number, db: Executor = pool): Promise<boolean> {
+  const result = await db.query(
+    `UPDATE users SET totp_last_step = $2
+     WHERE id = $1 AND (totp_last_step IS NULL OR totp_last_step < $2)`,
+    [userId, step]
+  );
+
+  return result.rowCount !== null && result.rowCount > 0;
+}
+
+async function insertRecoveryCodes(
+  client: Executor,
+  userId: number,
+  codeHashes: string[]
+): Promise<void> {
+  await client.query('DELETE FROM mfa_recovery_codes WHERE user_id = $1', [userId]);
+
+  await client.query(
+    `INSERT INTO mfa_recovery_codes (user_id, code_hash)
+     SELECT $1, unnest($2::varchar[])`,
+    [userId, codeHashes]
+  );
+}
+
+export async function replaceRecoveryCodes(
+  userId: number,
+  codeHashes: string[],
+  db: Executor = pool
+): Promise<void> {
+  return inTransaction(db, async (client) => {
+    await insertRecoveryCodes(client, userId, codeHashes);
+  });
+}
+
+/**
+ * Mark a recovery code used; false if it doesn't exist or was already used
+ */
+export async function useRecoveryCode(
+  userId: number,
+  codeHash: string,
+  db: Executor = pool
+): Promise<boolean> {
+  const result = await db.query(
+    `UPDATE mfa_recovery_codes SET used_at = NOW()
+     WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL`,
+    [userId, codeHash]
+  );
+
+  return result.rowCount !== null && result.rowCount > 0;
+}
+
+export async function countRecoveryCodes(userId: number, db: Executor = pool): Promise<number> {
+  const result = await db.query<{ count: string }>(
+    'SELECT COUNT(*) as count FROM mfa_recovery_codes WHERE user_id = $1 AND used_at IS NULL',
+    [userId]
+  );
+
+  return parseInt(result.rows[0].count, 10);
+}
+
+// Access token signing keys
+
+/**
+ * Keys that haven't retired yet (including ones waiting to activate), newest first
+ */
+export async function getSigningKeys(db: Executor = pool): Promise<SigningKey[]> {
+  const result = await db.query<SigningKey>(
+    `SELECT * FROM jwt_signing_keys
+     WHERE retires_at IS NULL OR retires_at > NOW()
+     ORDER BY activates_at DESC`
+  );
+
+  return result.rows;
+}
+
+/**
+ * Add a signing key unless another one was added within `rotateAfterDays`
+ * (instances race to rotate; the advisory lock lets one win).
+ * Earlier keys retire `retireAfterHours` after the new key activates.
+ */
+export async function rotateSigningKey(
+  key: Omit<SigningKey, 'retires_at' | 'created_at'>,
+  rotateAfterDays: number,
+  retireAfterHours: number,
+  db: Executor = pool
+): Promise<boolean> {
+  return inTransaction(db, async (client) => {
+    await client.query("SELECT pg_advisory_xact_lock(hashtext('jwt_signing_keys'))");
+
+    const recent = await client.query(
+      `SELECT 1 FROM jwt_signing_keys
+       WHERE (retires_at IS NULL OR retires_at > NOW())
+         AND created_at > NOW() - make_interval(days => $1)`,
+      [rotateAfterDays]
+    );
+
+    if (recent.rows.length > 0) {
+      return false;
+    }
+
+    await client.query(
+      `UPDATE jwt_signing_keys
+       SET retires_at = $1::timestamp + make_interval(hours => $2)
+       WHERE retires_at IS NULL`,
+      [key.activates_at, retireAfterHours]
+    );
+
+    await client.query(
+      `INSERT INTO jwt_signing_keys (kid, algorithm, public_key, private_key_encrypted, activates_at)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [key.kid, key.algorithm, key.public_key, key.private_key_encrypted, key.activates_at]
+    );
+
+    return true;
+  });
 }
 
-// Refresh token operations
+// Refresh token operations (tokens are looked up by SHA-256 hash)
 export async function createRefreshToken(
   userId: number,
-  token: string,
-  expiresAt: Date
+  tokenHash: string,
+  expiresAt: Date,
+  metadata: SessionMetadata = { userAgent: null, ipAddress: null },
+  familyId: string = crypto.randomUUID(),
+  db: Executor = pool
 ): Promise<RefreshToken> {
-  const client = await pool.connect();
-  try {
+  const result = await db.query<RefreshToken>(
+    `INSERT INTO refresh_tokens (user_id, token_hash, family_id, expires_at, user_agent, ip_address)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING *`,
+    [userId, tokenHash, familyId, expiresAt, metadata.userAgent, metadata.ipAddress]
+  );
+
+  return result.rows[0];
+}
+
+/**
+ * Find an unexpired refresh token, including revoked ones (needed for reuse detection)
+ */
+export async function findRefreshToken(tokenHash: string, db: Executor = pool): Promise<RefreshToken | null> {
+  const result = await db.query<RefreshToken>(
+    'SELECT * FROM refresh_tokens WHERE token_hash = $1 AND expires_at > NOW()',
+    [tokenHash]
+  );
+
+  return result.rows.length > 0 ? result.rows[0] : null;
+}
+
+/**
+ * Revoke a token and issue its successor in the same family.
+ * Returns null if the token was already revoked (a concurrent or replayed refresh).
+ */
+export async function rotateRefreshToken(
+  current: RefreshToken,
+  newTokenHash: string,
+  expiresAt: Date,
+  ipAddress: string | null,
+  db: Executor = pool
+): Promise<RefreshToken | null> {
+  return inTransaction(db, async (client) => {
+    const revoked = await client.query(
+      `UPDATE refresh_tokens SET revoked_at = NOW()
+       WHERE id = $1 AND revoked_at IS NULL`,
+      [current.id]
+    );
+
+    if (revoked.rowCount === 0) {
+      return null;
+    }
+
     const result = await client.query<RefreshToken>(
-      `INSERT INTO refresh_tokens (user_id, token, expires_at)
-       VALUES ($1, $2, $3)
+      `INSERT INTO refresh_tokens
+        (user_id, token_hash, family_id, expires_at, user_agent, ip_address, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
        RETURNING *`,
-      [userId, token, expiresAt]
+      [
+        current.user_id,
+        newTokenHash,
+        current.family_id,
+        expiresAt,
+        current.user_agent,
+        ipAddress ?? current.ip_address,
+        // Keep the session's original sign-in time
+        current.created_at,
+      ]
     );
 
     return result.rows[0];
-  } finally {
-    client.release();
-  }
+  });
 }
 
-export async function findRefreshToken(token: string): Promise<RefreshToken | null> {
-  const client = await pool.connect();
-  try {
-    const result = await client.query<RefreshToken>(
-      'SELECT * FROM refresh_tokens WHERE token = $1 AND expires_at > NOW()',
-      [token]
-    );
+/**
+ * Revoke every token in a family (used when a revoked token is replayed)
+ */
+export async function revokeRefreshTokenFamily(familyId: string, db: Executor = pool): Promise<void> {
+  await db.query(
+    `UPDATE refresh_tokens SET revoked_at = NOW()
+     WHERE family_id = $1 AND revoked_at IS NULL`,
+    [familyId]
+  );
+}
 
-    return result.rows.length > 0 ? result.rows[0] : null;
-  } finally {
-    client.release();
-  }
+export async function getUserSessions(userId: number, db: Executor = pool): Promise<SessionSummary[]> {
+  // The active token of each family represents the session
+  const result = await db.query<RefreshToken>(
+    `SELECT id, user_agent, ip_address, created_at, last_used_at, expires_at
+     FROM refresh_tokens
+     WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > NOW()
+     ORDER BY last_used_at DESC`,
+    [userId]
+  );
+
+  return result.rows.map((row) => ({
+    id: row.id,
+    device: row.user_agent,
+    ipAddress: row.ip_address,
+    createdAt: row.created_at.toISOString(),
+    lastUsedAt: row.last_used_at.toISOString(),
+    expiresAt: row.expires_at.toISOString(),
+  }));
 }
 
-export async function deleteRefreshToken(token: string): Promise<boolean> {
-  const client = await pool.connect();
-  try {
-    const result = await client.query(
-      'DELETE FROM refresh_tokens WHERE token = $1',
-      [token]
-    );
+/**
+ * Delete a session (the token's whole family), only if it belongs to the user
+ */
+export async function deleteUserSession(
+  tokenId: number,
+  userId: number,
+  db: Executor = pool
+): Promise<boolean> {
+  const result = await db.query(
+    `DELETE FROM refresh_tokens
+     WHERE user_id = $2
+       AND family_id = (SELECT family_id FROM refresh_tokens WHERE id = $1 AND user_id = $2)`,
+    [tokenId, userId]
+  );
 
-    return result.rowCount !== null && result.rowCount > 0;
-  } finally {
-    client.release();
-  }
+  return result.rowCount !== null && result.rowCount > 0;
+}
+
+/**
+ * Delete the session the token belongs to (its whole family)
+ */
+export async function deleteRefreshToken(tokenHash: string, db: Executor = pool): Promise<boolean> {
+  const result = await db.query(
+    `DELETE FROM refresh_tokens
+     WHERE family_id = (SELECT family_id FROM refresh_tokens WHERE token_hash = $1)`,
+    [tokenHash]
+  );
+
+  return result.rowCount !== null && result.rowCount > 0;
+}
+
+export async function deleteUserRefreshTokens(userId: number, db: Executor = pool): Promise<void> {
+  await db.query(
+    'DELETE FROM refresh_tokens WHERE user_id = $1',
+    [userId]
+  );
+}
+
+/**
+ * Delete expired tokens (revoked ones are kept until expiry for reuse detection)
+ */
+export async function purgeExpiredRefreshTokens(db: Executor = pool): Promise<number> {
+  const result = await db.query(
+    'DELETE FROM refresh_tokens WHERE expires_at <= NOW()'
+  );
+
+  return result.rowCount ?? 0;
 }
 
-export async function deleteUserRefreshTokens(userId: number): Promise<void> {
-  const client = await pool.connect();
-  try {
+// Email token operations (verification and password reset; tokens are looked up by SHA-256 hash)
+
+/**
+ * Issue a token, invalidating any earlier unused token for the same purpose
+ */
+export async function createEmailToken(
+  userId: number,
+  purpose: EmailTokenPurpose,
+  tokenHash: string,
+  expiresAt: Date,
+  db: Executor = pool
+): Promise<EmailToken> {
+  return inTransaction(db, async (client) => {
     await client.query(
-      'DELETE FROM refresh_tokens WHERE user_id = $1',
-      [userId]
+      'DELETE FROM email_tokens WHERE user_id = $1 AND purpose = $2 AND used_at IS NULL',
+      [userId, purpose]
     );
-  } finally {
-    client.release();
-  }
+
+    const result = await client.query<EmailToken>(
+      `INSERT INTO email_tokens (user_id, purpose, token_hash, expires_at)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [userId, purpose, tokenHash, expiresAt]
+    );
+
+    return result.rows[0];
+  });
 }
 
-// Report operations
-export async function createReport(
-  userId: number,
-  report: ComplianceReport
-): Promise<Report> {
-  const client = await pool.connect();
-  try {
-    const result = await client.query<Report>(
-      `INSERT INTO reports
-        (user_id, scanned_url, scan_date, overall_status, overall_score, report_data)
-       VALUES ($1, $2, $3, $4, $5, $6)
+/**
+ * Mark the user's email verified if the token is valid (single use)
+ */
+export async function verifyEmail(tokenHash: string, db: Executor = pool): Promise<User | null> {
+  const result = await db.query<User>(
+    `WITH token AS (
+       UPDATE email_tokens SET used_at = NOW()
+       WHERE token_hash = $1 AND purpose = 'verify_email'
+         AND used_at IS NULL AND expires_at > NOW()
+       RETURNING user_id
+     )
+     UPDATE users SET is_verified = TRUE, updated_at = CURRENT_TIMESTAMP
+     WHERE id = (SELECT user_id FROM token)
+     RETURNING *`,
+    [tokenHash]
+  );
+
+  return result.rows.length > 0 ? result.rows[0] : null;
+}
+
+/**
+ * Set a new password if the reset token is valid (single use), sign the user out everywhere
+ * and lift any login lockout on the email. Receiving the reset email also proves ownership
+ * of the address.
+ */
+export async function resetPassword(
+  tokenHash: string,
+  passwordHash: string,
+  db: Executor = pool
+): Promise<User | null> {
+  return inTransaction(db, async (client) => {
+    const token = await client.query<EmailToken>(
+      `UPDATE email_tokens SET used_at = NOW()
+       WHERE token_hash = $1 AND purpose = 'reset_password'
+         AND used_at IS NULL AND expires_at > NOW()
        RETURNING *`,
-      [
-        userId,
-        report.scannedUrl,
-        report.scanDate,
-        report.overallStatus,
-        report.overallScore,
-        JSON.stringify(report),
-      ]
+      [tokenHash]
+    );
+
+    if (token.rows.length === 0) {
+      return null;
+    }
+
+    const userId = token.rows[0].user_id;
+
+    const result = await client.query<User>(
+      `UPDATE users SET password_hash = $2, is_verified = TRUE, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1
+       RETURNING *`,
+      [userId, passwordHash]
     );
 
+    await client.query('DELETE FROM refresh_tokens WHERE user_id = $1', [userId]);
+    await clearLoginFailures(result.rows[0].email, client);
+
     return result.rows[0];
-  } finally {
-    client.release();
-  }
+  });
 }
 
-export async function getReportsByUser(
+export async function purgeExpiredEmailTokens(db: Executor = pool): Promise<number> {
+  const result = await db.query(
+    'DELETE FROM email_tokens WHERE expires_at <= NOW()'
+  );
+
+  return result.rowCount ?? 0;
+}
+
+// OpenID Connect operations (login states are looked up by SHA-256 hash)
+export async function createOidcLoginState(
+  stateHash: string,
+  provider: string,
+  nonce: string,
+  codeVerifier: string,
+  clientNonceHash: string,
+  expiresAt: Date,
+  db: Executor = pool
+): Promise<void> {
+  await db.query(
+    `INSERT INTO oidc_login_states (state_hash, provider, nonce, code_verifier, client_nonce_hash, expires_at)
+     VALUES ($1, $2, $3, $4, $5, $6)`,
+    [stateHash, provider, nonce, codeVerifier, clientNonceHash, expiresAt]
+  );
+}
+
+/**
+ * Take a pending login state (single use); null if unknown, expired or started by another client.
+ * A state presented with the wrong client nonce is still used up.
+ */
+export async function consumeOidcLoginState(
+  stateHash: string,
+  clientNonceHash: string,
+  db: Executor = pool
+): Promise<OidcLoginState | null> {
+  const result = await db.query<OidcLoginState>(
+    `DELETE FROM oidc_login_states
+     WHERE state_hash = $1
+     RETURNING *`,
+    [stateHash]
+  );
+
+  const state = result.rows[0];
+  return state && state.expires_at > new Date() && state.client_nonce_hash === clientNonceHash ? state : null;
+}
+
+export async function purgeExpiredOidcLoginStates(db: Executor = pool): Promise<number> {
+  const result = await db.query(
+    'DELETE FROM oidc_login_states WHERE expires_at <= NOW()'
+  );
+
+  return result.rowCount ?? 0;
+}
+
+/**
+ * Find the user linked to a provider account, recording the login
+ */
+export async function findUserByIdentity(
+  provider: string,
+  subject: string,
+  db: Executor = pool
+): Promise<User | null> {
+  const result = await db.query<User>(
+    `WITH identity AS (
+       UPDATE user_identities SET last_login_at = NOW()
+       WHERE provider = $1 AND subject = $2
+       RETURNING user_id
+     )
+     SELECT u.* FROM users u
+     JOIN identity i ON i.user_id = u.id`,
+    [provider, subject]
+  );
+
+  return result.rows.length > 0 ? result.rows[0] : null;
+}
+
+/**
+ * Link a provider account whose verified email matches the user's, which also verifies the
+ * user's email. An unverified account may have been registered by someone else with that
+ * address, so with replacementPasswordHash its password, 2FA, sessions and API keys are reset.
+ */
+export async function linkIdentity(
   userId: number,
-  limit: number = 50,
-  offset: number = 0
-): Promise<{ reports: ReportSummary[]; total: number }> {
-  const client = await pool.connect();
-  try {
-    // Get total count
-    const countResult = await client.query<{ count: string }>(
-      'SELECT COUNT(*) as count FROM reports WHERE user_id = $1',
+  provider: string,
+  subject: string,
+  email: string,
+  replacementPasswordHash: string | null,
+  db: Executor = pool
+): Promise<User> {
+  return inTransaction(db, async (client) => {
+    await client.query(
+      `INSERT INTO user_identities (user_id, provider, subject, email)
+       VALUES ($1, $2, $3, $4)`,
+      [userId, provider, subject, email]
+    );
+
+    if (replacementPasswordHash) {
+      await client.query(
+        `UPDATE users
+         SET password_hash = $2, totp_secret = NULL, totp_enabled = FALSE, totp_last_step = NULL
+         WHERE id = $1`,
+        [userId, replacementPasswordHash]
+      );
+      await client.query('DELETE FROM mfa_recovery_codes WHERE user_id = $1', [userId]);
+      await client.query('DELETE FROM refresh_tokens WHERE user_id = $1', [userId]);
+      await client.query('DELETE FROM api_keys WHERE user_id = $1', [userId]);
+    }
+
+    const result = await client.query<User>(
+      `UPDATE users SET is_verified = TRUE, updated_at = CURRENT_TIMESTAMP
+       WHERE id = $1
+       RETURNING *`,
       [userId]
     );
-    const total = parseInt(countResult.rows[0].count, 10);
 
-    // Get reports
-    const result = await client.query<Report>(
-      `SELECT id, scanned_url, scan_date, overall_status, overall_score, created_at
-       FROM reports
-       WHERE user_id = $1
-       ORDER BY created_at DESC
-       LIMIT $2 OFFSET $3`,
-      [userId, limit, offset]
+    return result.rows[0];
+  });
+}
+
+/**
+ * Create a verified user signed up through a provider, with the identity linked
+ */
+export async function createUserWithIdentity(
+  email: string,
+  passwordHash: string,
+  fullName: string | null,
+  provider: string,
+  subject: string,
+  db: Executor = pool
+): Promise<User> {
+  return inTransaction(db, async (client) => {
+    const result = await client.query<User>(
+      `INSERT INTO users (email, password_hash, full_name, is_verified)
+       VALUES ($1, $2, $3, TRUE)
+       RETURNING *`,
+      [email, passwordHash, fullName]
     );
 
-    const reports: ReportSummary[] = result.rows.map((row) => ({
-      id: row.id,
-      scannedUrl: row.scanned_url,
-      scanDate: row.scan_date.toISOString(),
-      overallStatus: row.overall_status,
-      overallScore: row.overall_score,
-      createdAt: row.created_at.toISOString(),
-    }));
+    await client.query(
+      `INSERT INTO user_identities (user_id, provider, subject, email)
+       VALUES ($1, $2, $3, $4)`,
+      [result.rows[0].id, provider, subject, email]
+    );
 
-    return { reports, total };
-  } finally {
-    client.release();
-  }
+    return result.rows[0];
+  });
 }
 
-export async function getReportById(reportId: number): Promise<Report | null> {
-  const client = await pool.connect();
-  try {
-    const result = await client.query<Report>(
-      'SELECT * FROM reports WHERE id = $1',
-      [reportId]
-    );
+// Login attempt operations (brute-force protection)
+export async function recordLoginAttempt(
+  email: string,
+  ipAddress: string,
+  succeeded: boolean,
+  userId: number | null = null,
+  db: Executor = pool
+): Promise<void> {
+  await db.query(
+    `INSERT INTO login_attempts (email, ip_address, user_id, succeeded)
+     VALUES ($1, $2, $3, $4)`,
+    [email, ipAddress, userId, succeeded]
+  );
+}
 
-    return result.rows.length > 0 ? result.rows[0] : null;
-  } finally {
-    client.release();
-  }
+/**
+ * Failed logins for an email within the window, counting only those after its last successful login
+ */
+export async function getEmailLoginFailures(
+  email: string,
+  windowMinutes: number,
+  db: Executor = pool
+): Promise<LoginFailureStats> {
+  const result = await db.query<{ count: string; last_failure_at: Date | null }>(
+    `SELECT COUNT(*) AS count, MAX(created_at) AS last_failure_at
+     FROM login_attempts
+     WHERE email = $1
+       AND NOT succeeded
+       AND created_at > NOW() - make_interval(mins => $2)
+       AND created_at > COALESCE(
+         (SELECT MAX(created_at) FROM login_attempts WHERE email = $1 AND succeeded),
+         '-infinity'
+       )`,
+    [email, windowMinutes]
+  );
+
+  return {
+    count: parseInt(result.rows[0].count, 10),
+    lastFailureAt: result.rows[0].last_failure_at,
+  };
 }
 
-export async function deleteReport(reportId: number, userId: number): Promise<boolean> {
-  const client = await pool.connect();
-  try {
-    const result = await client.query(
-      'DELETE FROM reports WHERE id = $1 AND user_id = $2',
-      [reportId, userId]
-    );
+/**
+ * Failed logins from an IP address within the window, across all emails
+ */
+export async function getIpLoginFailures(
+  ipAddress: string,
+  windowMinutes: number,
+  db: Executor = pool
+): Promise<LoginFailureStats> {
+  const result = await db.query<{ count: string; last_failure_at: Date | null }>(
+    `SELECT COUNT(*) AS count, MAX(created_at) AS last_failure_at
+     FROM login_attempts
+     WHERE ip_address = $1
+       AND NOT succeeded
+       AND created_at > NOW() - make_interval(mins => $2)`,
+    [ipAddress, windowMinutes]
+  );
 
-    return result.rowCount !== null && result.rowCount > 0;
-  } finally {
-    client.release();
-  }
+  return {
+    count: parseInt(result.rows[0].count, 10),
+    lastFailureAt: result.rows[0].last_failure_at,
+  };
 }
 
-export async function getRecentReports(limit: number = 10): Promise<ReportSummary[]> {
-  const client = await pool.connect();
-  try {
-    const result = await client.query<Report>(
-      `SELECT id, scanned_url, scan_date, overall_status, overall_score, created_at
-       FROM reports
-       ORDER BY created_at DESC
-       LIMIT $1`,
-      [limit]
-    );
-
-    return result.rows.map((row) => ({
-      id: row.id,
-      scannedUrl: row.scanned_url,
-      scanDate: row.scan_date.toISOString(),
-      overallStatus: row.overall_status,
-      overallScore: row.overall_score,
-      createdAt: row.created_at.toISOString(),
-    }));
-  } finally {
-    client.release();
-  }
+/**
+ * Forget an email's failed logins (admin unlock)
+ */
+export async function clearLoginFailures(email: string, db: Executor = pool): Promise<number> {
+  const result = await db.query(
+    'DELETE FROM login_attempts WHERE email = $1 AND NOT succeeded',
+    [email]
+  );
+
+  return result.rowCount ?? 0;
+}
+
+export async function purgeLoginAttempts(olderThanMinutes: number, db: Executor = pool): Promise<number> {
+  const result = await db.query(
+    'DELETE FROM login_attempts WHERE created_at <= NOW() - make_interval(mins => $1)',
+    [olderThanMinutes]
+  );
+
+  return result.rowCount ?? 0;
+}
+
+// Email request operations (verification and password reset emails, for throttling)
+export async function recordEmailRequest(
+  email: string,
+  ipAddress: string,
+  purpose: EmailTokenPurpose,
+  db: Executor = pool
+): Promise<void> {
+  await db.query(
+    'INSERT INTO email_requests (email, ip_address, purpose) VALUES ($1, $2, $3)',
+    [email, ipAddress, purpose]
+  );
+}
+
+/**
+ * Requests for an email and purpose, and from an IP (any purpose), within the window
+ */
+export async function getEmailRequestStats(
+  email: string,
+  ipAddress: string,
+  purpose: EmailTokenPurpose,
+  windowMinutes: number,
+  db: Executor = pool
+): Promise<{ email: EmailRequestStats; ip: EmailRequestStats }> {
+  const result = await db.query<{
+    email_count: string;
+    email_oldest_at: Date | null;
+    ip_count: string;
+    ip_oldest_at: Date | null;
+  }>(
+    `SELECT
+       COUNT(*) FILTER (WHERE email = $1 AND purpose = $3) AS email_count,
+       MIN(created_at) FILTER (WHERE email = $1 AND purpose = $3) AS email_oldest_at,
+       COUNT(*) FILTER (WHERE ip_address = $2) AS ip_count,
+       MIN(created_at) FILTER (WHERE ip_address = $2) AS ip_oldest_at
+     FROM email_requests
+     WHERE (email = $1 OR ip_address = $2)
+       AND created_at > NOW() - make_interval(mins => $4)`,
+    [email, ipAddress, purpose, windowMinutes]
+  );
+
+  const row = result.rows[0];
+  return {
+    email: { count: parseInt(row.email_count, 10), oldestAt: row.email_oldest_at },
+    ip: { count: parseInt(row.ip_count, 10), oldestAt: row.ip_oldest_at },
+  };
+}
+
+export async function purgeEmailRequests(olderThanMinutes: number, db: Executor = pool): Promise<number> {
+  const result = await db.query(
+    'DELETE FROM email_requests WHERE created_at <= NOW() - make_interval(mins => $1)',
+    [olderThanMinutes]
+  );
+
+  return result.rowCount ?? 0;
+}
+
+// Security audit log
+export async function createSecurityEvent(event: {
+  type: SecurityEventType;
+  userId?: number | null;
+  email?: string | null;
+  ipAddress?: string | null;
+  details?: Record<string, unknown>;
+}, db: Executor = pool): Promise<void> {
+  await db.query(
+    `INSERT INTO security_events (type, user_id, email, ip_address, details)
+     VALUES ($1, $2, $3, $4, $5)`,
+    [
+      event.type,
+      event.userId ?? null,
+      event.email ?? null,
+      event.ipAddress ?? null,
+      JSON.stringify(event.details ?? {}),
+    ]
+  );
+}
+
+export async function getSecurityEvents(
+  limit: number = 50,
+  offset: number = 0,
+  userId: number | null = null,
+  db: Executor = pool
+): Promise<{ events: SecurityEventSummary[]; total: number }> {
+  const where = '$1::integer IS NULL OR user_id = $1';
+
+  // Get total count
+  const countResult = await db.query<{ count: string }>(
+    `SELECT COUNT(*) as count FROM security_events WHERE ${where}`,
+    [userId]
+  );
+  const total = parseInt(countResult.rows[0].count, 10);
+
+  const result = await db.query<SecurityEvent>(
+    `SELECT * FROM security_events
+     WHERE ${where}
+     ORDER BY created_at DESC, id DESC
+     LIMIT $2 OFFSET $3`,
+    [userId, limit, offset]
+  );
+
+  const events: SecurityEventSummary[] = result.rows.map((row) => ({
+    id: row.id,
+    type: row.type,
+    userId: row.user_id,
+    email: row.email,
+    ipAddress: row.ip_address,
+    details: row.details,
+    createdAt: row.created_at.toISOString(),
+  }));
+
+  return { events, total };
+}
+
+// API key operations (keys are looked up by prefix; only a SHA-256 hash of the secret is stored)
+function toApiKeySummary(row: ApiKey): ApiKeySummary {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.prefix,
+    organizationId: row.organization_id,
+    scopes: row.scopes,
+    expiresAt: row.expires_at ? row.expires_at.toISOString() : null,
+    lastUsedAt: row.last_used_at ? row.last_used_at.toISOString() : null,
+    createdAt: row.created_at.toISOString(),
+  };
+}
+
+export async function createApiKey(
+  userId: number,
+  organizationId: number | null,
+  name: string,
+  prefix: string,
+  secretHash: string,
+  scopes: ApiKeyScope[],
+  expiresAt: Date | null,
+  db: Executor = pool
+): Promise<ApiKeySummary> {
+  const result = await db.query<ApiKey>(
+    `INSERT INTO api_keys (user_id, organization_id, name, prefix, secret_hash, scopes, expires_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     RETURNING *`,
+    [userId, organizationId, name, prefix, secretHash, scopes, expiresAt]
+  );
+
+  return toApiKeySummary(result.rows[0]);
+}
+
+/**
+ * Find an unexpired key by prefix, with its owner's email
+ */
+export async function findApiKeyByPrefix(
+  prefix: string,
+  db: Executor = pool
+): Promise<(ApiKey & { email: string }) | null> {
+  const result = await db.query<ApiKey & { email: string }>(
+    `SELECT k.*, u.email
+     FROM api_keys k
+     JOIN users u ON u.id = k.user_id
+     WHERE k.prefix = $1 AND (k.expires_at IS NULL OR k.expires_at > NOW())`,
+    [prefix]
+  );
+
+  return result.rows.length > 0 ? result.rows[0] : null;
+}
+
+/**
+ * Record key usage (at most once a minute per key, to avoid a write on every request)
+ */
+export async function touchApiKey(keyId: number, db: Executor = pool): Promise<void> {
+  await db.query(
+    `UPDATE api_keys SET last_used_at = NOW()
+     WHERE id = $1 AND (last_used_at IS NULL OR last_used_at < NOW() - INTERVAL '1 minute')`,
+    [keyId]
+  );
+}
+
+export async function getApiKeysByUser(userId: number, db: Executor = pool): Promise<ApiKeySummary[]> {
+  const result = await db.query<ApiKey>(
+    'SELECT * FROM api_keys WHERE user_id = $1 ORDER BY created_at DESC',
+    [userId]
+  );
+
+  return result.rows.map(toApiKeySummary);
+}
+
+/**
+ * Delete a key, only if it belongs to the user
+ */
+export async function deleteApiKey(keyId: number, userId: number, db: Executor = pool): Promise<boolean> {
+  const result = await db.query(
+    'DELETE FROM api_keys WHERE id = $1 AND user_id = $2',
+    [keyId, userId]
+  );
+
+  return result.rowCount !== null && result.rowCount > 0;
+}
+
+// Report operations
+export async function createReport(
+  userId: number,
+  report: ComplianceReport,
+  options: { scoreMismatch?: boolean; organizationId?: number | null } = {},
+  db: Executor = pool
+): Promise<Report> {
+  return inTransaction(db, async (client) => {
+    // Attach the report to its site in the same workspace, creating the site on first scan
+    const organizationId = options.organizationId ?? null;
+    const siteResult = await client.query<Site>(
+      organizationId !== null
+        ? `INSERT INTO sites (user_id, organization_id, url, normalized_url)
+           VALUES ($1, $4, $2, $3)
+           ON CONFLICT (organization_id, normalized_url) WHERE organization_id IS NOT NULL
+           DO UPDATE SET updated_at = CURRENT_TIMESTAMP
+           RETURNING *`
+        : `INSERT INTO sites (user_id, url, normalized_url)
+           VALUES ($1, $2, $3)
+           ON CONFLICT (user_id, normalized_url) WHERE organization_id IS NULL
+           DO UPDATE SET updated_at = CURRENT_TIMESTAMP
+           RETURNING *`,
+      organizationId !== null
+        ? [userId, report.scannedUrl, normalizeUrl(report.scannedUrl), organizationId]
+        : [userId, report.scannedUrl, normalizeUrl(report.scannedUrl)]
+    );
+
+    const result = await client.query<Report>(
+      `INSERT INTO reports
+        (user_id, organization_id, site_id, scanned_url, scan_date, overall_status, overall_score,
+         report_data, score_mismatch)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       RETURNING *`,
+      [
+        userId,
+        organizationId,
+        siteResult.rows[0].id,
+        report.scannedUrl,
+        report.scanDate,
+        report.overallStatus,
+        report.overallScore,
+        JSON.stringify(report),
+        options.scoreMismatch ?? false,
+      ]
+    );
+
+    return result.rows[0];
+  });
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+/**
+ * SQL conditions for report filters. Values are appended to `params` and referenced
+ * by placeholder, so the conditions can follow other parameters of the query.
+ * `workspace` is the query's workspace condition, which also applies to sites.
+ */
+function reportFilterConditions(filters: ReportFilters, params: unknown[], workspace: string): string[] {
+  const conditions: string[] = [];
+  const param = (value: unknown): string => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  if (filters.status && filters.status.length > 0) {
+    conditions.push(`overall_status = ANY(${param(filters.status)})`);
+  }
+  if (filters.minScore !== undefined) {
+    conditions.push(`overall_score >= ${param(filters.minScore)}`);
+  }
+  if (filters.maxScore !== undefined) {
+    conditions.push(`overall_score <= ${param(filters.maxScore)}`);
+  }
+
+  // scan_date holds UTC without a zone
+  if (filters.from) {
+    conditions.push(`scan_date >= (${param(new Date(filters.from))}::timestamptz AT TIME ZONE 'UTC')`);
+  }
+  if (filters.to) {
+    conditions.push(`scan_date <= (${param(new Date(filters.to))}::timestamptz AT TIME ZONE 'UTC')`);
+  }
+
+  if (filters.url) {
+    conditions.push(`scanned_url ILIKE '%' || ${param(escapeLike(filters.url))} || '%'`);
+  }
+
+  // The domain itself or any subdomain, matched on the site's normalized host
+  if (filters.domain) {
+    const host = filters.domain.toLowerCase().replace(/^www\./, '');
+    const domain = param(host);
+    const pattern = param(escapeLike(host));
+    conditions.push(
+      `site_id IN (
+         SELECT id FROM sites
+         WHERE ${workspace}
+           AND (split_part(normalized_url, '/', 1) = ${domain}
+             OR split_part(normalized_url, '/', 1) LIKE '%.' || ${pattern})
+       )`
+    );
+  }
+
+  if (filters.q) {
+    conditions.push(`search_vector @@ websearch_to_tsquery('english', ${param(filters.q)})`);
+  }
+
+  // A check matching all given properties, e.g. $.checks.payments[*] ? (@.status == "Non-Compliant").
+  // Category and status come from fixed lists; strings are quoted as JSON, which jsonpath shares.
+  if (filters.checkCategory || filters.checkStatus || filters.checkId) {
+    const predicates: string[] = [];
+    if (filters.checkStatus) {
+      predicates.push(`@.status == ${JSON.stringify(filters.checkStatus)}`);
+    }
+    if (filters.checkId) {
+      predicates.push(`@.id == ${JSON.stringify(filters.checkId)}`);
+    }
+
+    let path = `$.checks.${filters.checkCategory ?? '*'}[*]`;
+    if (predicates.length > 0) {
+      path += ` ? (${predicates.join(' && ')})`;
+    }
+    conditions.push(`report_data @? ${param(path)}::jsonpath`);
+  }
+
+  return conditions;
+}
+
+const REPORT_SORT_COLUMNS: Record<Exclude<ReportSortField, 'relevance'>, string> = {
+  created_at: 'created_at',
+  scan_date: 'scan_date',
+  score: 'overall_score',
+};
+
+interface ReportSummaryRow extends Report {
+  // created_at as text, for cursors
+  created_at_key: string;
+  total?: string;
+}
+
+const REPORT_SUMMARY_COLUMNS = `id, scanned_url, scan_date, overall_status, overall_score, created_at,
+  created_at::text AS created_at_key`;
+
+function toReportSummary(row: Report): ReportSummary {
+  return {
+    id: row.id,
+    scannedUrl: row.scanned_url,
+    scanDate: row.scan_date.toISOString(),
+    overallStatus: row.overall_status,
+    overallScore: row.overall_score,
+    createdAt: row.created_at.toISOString(),
+  };
+}
+
+/**
+ * Keyset condition for rows after `cursor` in (created_at, id) order; served by
+ * idx_reports_created_at_id
+ */
+function cursorCondition(cursor: ReportCursor, direction: 'ASC' | 'DESC', params: unknown[]): string {
+  params.push(cursor.createdAt, cursor.id);
+  const operator = direction === 'DESC' ? '<' : '>';
+  return `(created_at, id) ${operator} ($${params.length - 1}::timestamp, $${params.length})`;
+}
+
+/**
+ * Trim the extra row fetched to detect a further page, returning the cursor for it
+ */
+function pageWithCursor(
+  rows: ReportSummaryRow[],
+  limit: number
+): { rows: ReportSummaryRow[]; nextCursor: string | null } {
+  if (rows.length <= limit) {
+    return { rows, nextCursor: null };
+  }
+
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  return { rows: page, nextCursor: encodeCursor({ createdAt: last.created_at_key, id: last.id }) };
+}
+
+/**
+ * List reports in a workspace: the organization's reports when organizationId is set,
+ * otherwise the user's personal (non-organization) reports.
+ * Sorting by relevance ranks full-text matches and needs `filters.q`.
+ *
+ * Pages continue from `cursor` when given (keyset pagination, created_at order only),
+ * otherwise from `offset`. The total is only counted for offset pages.
+ */
+export async function getReportsByUser(
+  userId: number,
+  limit: number = 50,
+  offset: number = 0,
+  organizationId: number | null = null,
+  options: {
+    filters?: ReportFilters;
+    sort?: ReportSortField;
+    order?: SortOrder;
+    cursor?: ReportCursor;
+  } = {},
+  db: Executor = pool
+): Promise<GetReportsResponse> {
+  const { filters = {}, sort = 'created_at', order = 'desc', cursor } = options;
+  const direction = order === 'asc' ? 'ASC' : 'DESC';
+
+  const params: unknown[] = [organizationId ?? userId];
+  const workspace =
+    organizationId !== null ? 'organization_id = $1' : 'user_id = $1 AND organization_id IS NULL';
+  const where = [workspace, ...reportFilterConditions(filters, params, workspace)].join(' AND ');
+
+  const pageParams = [...params];
+  let orderBy: string;
+  if (sort === 'relevance' && filters.q) {
+    pageParams.push(filters.q);
+    orderBy = `ts_rank(search_vector, websearch_to_tsquery('english', $${pageParams.length}))`;
+  } else {
+    orderBy = REPORT_SORT_COLUMNS[sort === 'relevance' ? 'created_at' : sort];
+  }
+
+  const pageWhere = cursor ? `${where} AND ${cursorCondition(cursor, direction, pageParams)}` : where;
+  pageParams.push(limit + 1, cursor ? 0 : offset);
+
+  // Offset pages count and page in one statement, so the total matches the rows returned
+  const result = await db.query<ReportSummaryRow>(
+    `SELECT ${REPORT_SUMMARY_COLUMNS}${cursor ? '' : ', COUNT(*) OVER () AS total'}
+     FROM reports
+     WHERE ${pageWhere}
+     ORDER BY ${orderBy} ${direction}, id ${direction}
+     LIMIT $${pageParams.length - 1} OFFSET $${pageParams.length}`,
+    pageParams
+  );
+
+  // Cursors follow (created_at, id), so other orders can only be paged by offset
+  const page =
+    sort === 'created_at'
+      ? pageWithCursor(result.rows, limit)
+      : { rows: result.rows.slice(0, limit), nextCursor: null };
+  const reports = page.rows.map(toReportSummary);
+
+  if (cursor) {
+    return { reports, nextCursor: page.nextCursor };
+  }
+
+  let total = result.rows.length > 0 ? parseInt(result.rows[0].total!, 10) : 0;
+
+  // A page past the end has no rows to carry the count
+  if (result.rows.length === 0 && offset > 0) {
+    const countResult = await db.query<{ count: string }>(
+      `SELECT COUNT(*) as count FROM reports WHERE ${where}`,
+      params
+    );
+    total = parseInt(countResult.rows[0].count, 10);
+  }
+
+  return { reports, total, nextCursor: page.nextCursor };
+}
+
+/**
+ * Every report in the workspace, newest first, read in batches so large histories
+ * aren't loaded at once.
+ *
+ * From the pool, each batch is a separate read on a connection released in between, so
+ * reports deleted meanwhile may be missing (batches continue below the last id, so none
+ * repeat). Pass a client in a REPEATABLE READ transaction to read one snapshot instead.
+ */
+export async function* streamReportsByUser(
+  userId: number,
+  organizationId: number | null = null,
+  batchSize: number = 200,
+  db: Executor = pool
+): AsyncGenerator<Report> {
+  const [where, scopeId] =
+    organizationId !== null
+      ? ['organization_id = $1', organizationId]
+      : ['user_id = $1 AND organization_id IS NULL', userId];
+
+  let lastId: number | null = null;
+
+  while (true) {
+    // Release the connection between batches; the consumer may be slow
+    const client = db === pool ? await pool.connect() : null;
+    let rows: Report[];
+    try {
+      const result = await (client ?? db).query<Report>(
+        `SELECT * FROM reports
+         WHERE ${where} AND ($2::integer IS NULL OR id < $2)
+         ORDER BY id DESC
+         LIMIT $3`,
+        [scopeId, lastId, batchSize]
+      );
+      rows = result.rows;
+    } finally {
+      client?.release();
+    }
+
+    yield* rows;
+
+    if (rows.length < batchSize) {
+      return;
+    }
+    lastId = rows[rows.length - 1].id;
+  }
+}
+
+export async function getReportById(reportId: number, db: Executor = pool): Promise<Report | null> {
+  const result = await db.query<Report>(
+    'SELECT * FROM reports WHERE id = $1',
+    [reportId]
+  );
+
+  return result.rows.length > 0 ? result.rows[0] : null;
+}
+
+// Access to the report must be checked by the caller
+export async function deleteReport(reportId: number, db: Executor = pool): Promise<boolean> {
+  const result = await db.query(
+    'DELETE FROM reports WHERE id = $1',
+    [reportId]
+  );
+
+  return result.rowCount !== null && result.rowCount > 0;
+}
+
+/**
+ * Newest reports across all users, continuing from `cursor` when given
+ */
+export async function getRecentReports(
+  limit: number = 10,
+  cursor: ReportCursor | null = null,
+  db: Executor = pool
+): Promise<{ reports: ReportSummary[]; nextCursor: string | null }> {
+  const params: unknown[] = [];
+  const where = cursor ? `WHERE ${cursorCondition(cursor, 'DESC', params)}` : '';
+  params.push(limit + 1);
+
+  const result = await db.query<ReportSummaryRow>(
+    `SELECT ${REPORT_SUMMARY_COLUMNS}
+     FROM reports
+     ${where}
+     ORDER BY created_at DESC, id DESC
+     LIMIT $${params.length}`,
+    params
+  );
+
+  const page = pageWithCursor(result.rows, limit);
+  return { reports: page.rows.map(toReportSummary), nextCursor: page.nextCursor };
+}
+
+// Report share operations (links are looked up by SHA-256 hash of the token)
+function toShareSummary(row: ReportShare): ShareSummary {
+  return {
+    id: row.id,
+    reportId: row.report_id,
+    hasPassword: row.password_hash !== null,
+    redactedCategories: row.redacted_categories,
+    expiresAt: row.expires_at ? row.expires_at.toISOString() : null,
+    revokedAt: row.revoked_at ? row.revoked_at.toISOString() : null,
+    lastAccessedAt: row.last_accessed_at ? row.last_accessed_at.toISOString() : null,
+    accessCount: row.access_count,
+    createdAt: row.created_at.toISOString(),
+  };
+}
+
+export async function createReportShare(
+  reportId: number,
+  createdBy: number,
+  tokenHash: string,
+  passwordHash: string | null,
+  redactedCategories: CheckCategory[],
+  expiresAt: Date | null,
+  db: Executor = pool
+): Promise<ShareSummary> {
+  const result = await db.query<ReportShare>(
+    `INSERT INTO report_shares (report_id, created_by, token_hash, password_hash, redacted_categories, expires_at)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING *`,
+    [reportId, createdBy, tokenHash, passwordHash, redactedCategories, expiresAt]
+  );
+
+  return toShareSummary(result.rows[0]);
+}
+
+export async function getReportShares(reportId: number, db: Executor = pool): Promise<ShareSummary[]> {
+  const result = await db.query<ReportShare>(
+    'SELECT * FROM report_shares WHERE report_id = $1 ORDER BY created_at DESC',
+    [reportId]
+  );
+
+  return result.rows.map(toShareSummary);
+}
+
+/**
+ * Revoke a link, only if it belongs to the report and is still active
+ */
+export async function revokeReportShare(
+  shareId: number,
+  reportId: number,
+  db: Executor = pool
+): Promise<boolean> {
+  const result = await db.query(
+    `UPDATE report_shares SET revoked_at = NOW()
+     WHERE id = $1 AND report_id = $2 AND revoked_at IS NULL`,
+    [shareId, reportId]
+  );
+
+  return result.rowCount !== null && result.rowCount > 0;
+}
+
+/**
+ * Find a link that hasn't been revoked or expired
+ */
+export async function findActiveReportShare(
+  tokenHash: string,
+  db: Executor = pool
+): Promise<ReportShare | null> {
+  const result = await db.query<ReportShare>(
+    `SELECT * FROM report_shares
+     WHERE token_hash = $1 AND revoked_at IS NULL
+       AND (expires_at IS NULL OR expires_at > NOW())`,
+    [tokenHash]
+  );
+
+  return result.rows.length > 0 ? result.rows[0] : null;
+}
+
+export async function recordReportShareAccess(shareId: number, db: Executor = pool): Promise<void> {
+  await db.query(
+    `UPDATE report_shares
+     SET access_count = access_count + 1, last_accessed_at = NOW(),
+         password_attempts = 0, password_locked_until = NULL
+     WHERE id = $1`,
+    [shareId]
+  );
+}
+
+/**
+ * Count a password check against a link before it is made, so concurrent guesses can't
+ * outrun the limit. The attempt that reaches maxAttempts locks the link for lockoutMinutes.
+ * Returns null if the check may go ahead, or when the lockout ends.
+ */
+export async function claimSharePasswordAttempt(
+  shareId: number,
+  maxAttempts: number,
+  lockoutMinutes: number,
+  db: Executor = pool
+): Promise<Date | null> {
+  const claimed = await db.query(
+    `UPDATE report_shares SET
+       password_attempts = CASE WHEN password_attempts + 1 >= $2 THEN 0 ELSE password_attempts + 1 END,
+       password_locked_until = CASE
+         WHEN password_attempts + 1 >= $2 THEN NOW() + make_interval(mins => $3)
+         ELSE password_locked_until
+       END
+     WHERE id = $1 AND (password_locked_until IS NULL OR password_locked_until <= NOW())`,
+    [shareId, maxAttempts, lockoutMinutes]
+  );
+
+  if (claimed.rowCount !== null && claimed.rowCount > 0) {
+    return null;
+  }
+
+  const result = await db.query<{ password_locked_until: Date }>(
+    'SELECT password_locked_until FROM report_shares WHERE id = $1',
+    [shareId]
+  );
+
+  return result.rows[0]?.password_locked_until ?? new Date();
+}
+
+// Site operations
+interface SiteSummaryRow extends Site {
+  report_count: string;
+  latest_score: number | null;
+  latest_status: ComplianceStatus | null;
+  last_scanned_at: Date | null;
+}
+
+// A site's reports, limited to the site's workspace
+const SITE_REPORTS_CONDITION = `r.site_id = s.id
+    AND r.organization_id IS NOT DISTINCT FROM s.organization_id
+    AND (s.organization_id IS NOT NULL OR r.user_id = s.user_id)`;
+
+const SITE_SUMMARY_SELECT = `
+  SELECT s.*,
+    (SELECT COUNT(*) FROM reports r WHERE ${SITE_REPORTS_CONDITION}) AS report_count,
+    latest.overall_score AS latest_score,
+    latest.overall_status AS latest_status,
+    latest.scan_date AS last_scanned_at
+  FROM sites s
+  LEFT JOIN LATERAL (
+    SELECT overall_score, overall_status, scan_date
+    FROM reports r
+    WHERE ${SITE_REPORTS_CONDITION}
+    ORDER BY r.scan_date DESC
+    LIMIT 1
+  ) latest ON TRUE`;
+
+function toSiteSummary(row: SiteSummaryRow): SiteSummary {
+  return {
+    id: row.id,
+    url: row.url,
+    normalizedUrl: row.normalized_url,
+    reportCount: parseInt(row.report_count, 10),
+    latestScore: row.latest_score,
+    latestStatus: row.latest_status,
+    lastScannedAt: row.last_scanned_at ? row.last_scanned_at.toISOString() : null,
+    createdAt: row.created_at.toISOString(),
+  };
+}
+
+/**
+ * Sites in a workspace: the user's personal sites, or the organization's
+ */
+export async function getSitesByUser(
+  userId: number,
+  organizationId: number | null = null,
+  db: Executor = pool
+): Promise<SiteSummary[]> {
+  const result = await db.query<SiteSummaryRow>(
+    `${SITE_SUMMARY_SELECT}
+     WHERE ${organizationId !== null ? 's.organization_id = $1' : 's.user_id = $1 AND s.organization_id IS NULL'}
+     ORDER BY last_scanned_at DESC NULLS LAST, s.id DESC`,
+    [organizationId ?? userId]
+  );
+
+  return result.rows.map(toSiteSummary);
+}
+
+export async function getSiteById(
+  siteId: number,
+  db: Executor = pool
+): Promise<{ site: Site; summary: SiteSummary } | null> {
+  const result = await db.query<SiteSummaryRow>(
+    `${SITE_SUMMARY_SELECT}
+     WHERE s.id = $1`,
+    [siteId]
+  );
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  const row = result.rows[0];
+  return { site: row, summary: toSiteSummary(row) };
+}
+
+/**
+ * Score history of a site, limited to reports in the site's workspace
+ */
+export async function getSiteHistory(siteId: number, db: Executor = pool): Promise<SiteHistoryPoint[]> {
+  const result = await db.query<Report>(
+    `SELECT r.id, r.scan_date, r.overall_score, r.overall_status
+     FROM sites s
+     JOIN reports r ON ${SITE_REPORTS_CONDITION}
+     WHERE s.id = $1
+     ORDER BY r.scan_date ASC, r.id ASC`,
+    [siteId]
+  );
+
+  return result.rows.map((row) => ({
+    reportId: row.id,
+    scanDate: row.scan_date.toISOString(),
+    overallScore: row.overall_score,
+    overallStatus: row.overall_status,
+  }));
+}
+
+// Analytics operations (over the reports of a workspace)
+
+// Plain dates (YYYY-MM-DD) include the whole UTC day, so they can be answered from report_daily_stats
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function useDailyStats(scope: AnalyticsScope): boolean {
+  return (
+    config.analytics.useSummaryTable &&
+    [scope.from, scope.to].every((bound) => bound === undefined || DATE_ONLY_PATTERN.test(bound))
+  );
+}
+
+// Workspace and scan date conditions; `day` is the expression for the scan's UTC date
+function analyticsConditions(scope: AnalyticsScope, params: unknown[], day: string): string[] {
+  params.push(scope.organizationId ?? scope.userId);
+  const conditions = [
+    scope.organizationId !== null ? 'organization_id = $1' : 'user_id = $1 AND organization_id IS NULL',
+  ];
+
+  // scan_date holds UTC without a zone
+  for (const [bound, operator] of [[scope.from, '>='], [scope.to, '<=']] as const) {
+    if (!bound) {
+      continue;
+    }
+    if (DATE_ONLY_PATTERN.test(bound)) {
+      params.push(bound);
+      conditions.push(`${day} ${operator} $${params.length}::date`);
+    } else {
+      params.push(new Date(bound));
+      conditions.push(`scan_date ${operator} ($${params.length}::timestamptz AT TIME ZONE 'UTC')`);
+    }
+  }
+
+  return conditions;
+}
+
+export async function getScoreTrend(
+  scope: AnalyticsScope,
+  bucket: AnalyticsBucket,
+  db: Executor = pool
+): Promise<ScoreTrendPoint[]> {
+  const params: unknown[] = [];
+  let sql: string;
+
+  if (useDailyStats(scope)) {
+    const where = analyticsConditions(scope, params, 'day').join(' AND ');
+    params.push(bucket);
+    sql = `SELECT to_char(date_trunc($${params.length}::text, day::timestamp), 'YYYY-MM-DD') AS bucket,
+              SUM(score_sum)::float / SUM(report_count) AS average_score,
+              SUM(report_count)::int AS report_count
+           FROM report_daily_stats
+           WHERE ${where}
+           GROUP BY 1
+           ORDER BY 1`;
+  } else {
+    const where = analyticsConditions(scope, params, 'scan_date::date').join(' AND ');
+    params.push(bucket);
+    sql = `SELECT to_char(date_trunc($${params.length}::text, scan_date), 'YYYY-MM-DD') AS bucket,
+              AVG(overall_score)::float AS average_score,
+              COUNT(*)::int AS report_count
+           FROM reports
+           WHERE ${where}
+           GROUP BY 1
+           ORDER BY 1`;
+  }
+
+  const result = await db.query<{ bucket: string; average_score: number; report_count: number }>(sql, params);
+
+  return result.rows.map((row) => ({
+    bucket: row.bucket,
+    averageScore: Math.round(row.average_score * 10) / 10,
+    reportCount: row.report_count,
+  }));
+}
+
+export async function getStatusDistribution(
+  scope: AnalyticsScope,
+  db: Executor = pool
+): Promise<StatusDistribution> {
+  const params: unknown[] = [];
+  let sql: string;
+
+  if (useDailyStats(scope)) {
+    const where = analyticsConditions(scope, params, 'day').join(' AND ');
+    sql = `SELECT COALESCE(SUM(compliant_count), 0)::int AS compliant,
+              COALESCE(SUM(warning_count), 0)::int AS warning,
+              COALESCE(SUM(non_compliant_count), 0)::int AS non_compliant,
+              COALESCE(SUM(info_count), 0)::int AS info
+           FROM report_daily_stats
+           WHERE ${where}`;
+  } else {
+    const where = analyticsConditions(scope, params, 'scan_date::date').join(' AND ');
+    sql = `SELECT COUNT(*) FILTER (WHERE overall_status = 'Compliant')::int AS compliant,
+              COUNT(*) FILTER (WHERE overall_status = 'Warning')::int AS warning,
+              COUNT(*) FILTER (WHERE overall_status = 'Non-Compliant')::int AS non_compliant,
+              COUNT(*) FILTER (WHERE overall_status = 'Info')::int AS info
+           FROM reports
+           WHERE ${where}`;
+  }
+
+  const result = await db.query<{ compliant: number; warning: number; non_compliant: number; info: number }>(
+    sql,
+    params
+  );
+  const row = result.rows[0];
+
+  return {
+    Compliant: row.compliant,
+    Warning: row.warning,
+    'Non-Compliant': row.non_compliant,
+    Info: row.info,
+  };
+}
+
+// Checks that were Non-Compliant in the most reports, top `limit` per category
+export async function getFailingChecks(
+  scope: AnalyticsScope,
+  limit: number,
+  db: Executor = pool
+): Promise<FailingCheck[]> {
+  const params: unknown[] = [];
+  const where = analyticsConditions(scope, params, 'scan_date::date').join(' AND ');
+  params.push(limit);
+
+  const result = await db.query<{ category: CheckCategory; check_id: string; title: string; failures: number }>(
+    `WITH failures AS (
+       SELECT c.category, item->>'id' AS check_id,
+         (array_agg(item->>'title' ORDER BY scan_date DESC))[1] AS title,
+         COUNT(DISTINCT id)::int AS failures
+       FROM reports
+       CROSS JOIN LATERAL jsonb_each(report_data->'checks') AS c(category, checks)
+       CROSS JOIN LATERAL jsonb_array_elements(c.checks) AS item
+       WHERE ${where} AND item->>'status' = 'Non-Compliant'
+       GROUP BY c.category, item->>'id'
+     ), ranked AS (
+       SELECT *, ROW_NUMBER() OVER (PARTITION BY category ORDER BY failures DESC, check_id) AS rank
+       FROM failures
+     )
+     SELECT category, check_id, title, failures
+     FROM ranked
+     WHERE rank <= $${params.length}
+     ORDER BY category, rank`,
+    params
+  );
+
+  return result.rows.map((row) => ({
+    category: row.category,
+    checkId: row.check_id,
+    title: row.title,
+    failures: row.failures,
+  }));
+}
+
+// Sites whose latest scan scored lower than the scan before it, largest drop first
+export async function getScoreRegressions(
+  scope: AnalyticsScope,
+  limit: number,
+  db: Executor = pool
+): Promise<ScoreRegression[]> {
+  const params: unknown[] = [];
+  const where = analyticsConditions(scope, params, 'scan_date::date').join(' AND ');
+  params.push(limit);
+
+  const result = await db.query<{
+    site_id: number;
+    url: string;
+    id: number;
+    previous_id: number;
+    overall_score: number;
+    previous_score: number;
+    scan_date: Date;
+    previous_scan_date: Date;
+  }>(
+    `WITH scans AS (
+       SELECT id, site_id, scan_date, overall_score,
+         LAG(id) OVER site_scans AS previous_id,
+         LAG(overall_score) OVER site_scans AS previous_score,
+         LAG(scan_date) OVER site_scans AS previous_scan_date,
+         ROW_NUMBER() OVER (PARTITION BY site_id ORDER BY scan_date DESC, id DESC) AS recency
+       FROM reports
+       WHERE ${where} AND site_id IS NOT NULL
+       WINDOW site_scans AS (PARTITION BY site_id ORDER BY scan_date, id)
+     )
+     SELECT scans.*, sites.url
+     FROM scans
+     JOIN sites ON sites.id = scans.site_id
+     WHERE scans.recency = 1 AND scans.overall_score < scans.previous_score
+     ORDER BY scans.previous_score - scans.overall_score DESC, scans.site_id
+     LIMIT $${params.length}`,
+    params
+  );
+
+  return result.rows.map((row) => ({
+    siteId: row.site_id,
+    url: row.url,
+    reportId: row.id,
+    previousReportId: row.previous_id,
+    score: row.overall_score,
+    previousScore: row.previous_score,
+    scanDate: row.scan_date.toISOString(),
+    previousScanDate: row.previous_scan_date.toISOString(),
+  }));
+}
+
+// Scan schedule operations
+export async function createSchedule(
+  userId: number,
+  organizationId: number | null,
+  siteId: number,
+  frequency: ScheduleFrequency,
+  nextRunAt: Date,
+  db: Executor = pool
+): Promise<ScanSchedule> {
+  const result = await db.query<ScanSchedule>(
+    `INSERT INTO scan_schedules (user_id, organization_id, site_id, frequency, next_run_at)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING *`,
+    [userId, organizationId, siteId, frequency, nextRunAt]
+  );
+
+  return result.rows[0];
+}
+
+/**
+ * Schedules in a workspace: the user's personal schedules, or the organization's
+ */
+export async function getSchedulesByUser(
+  userId: number,
+  organizationId: number | null = null,
+  db: Executor = pool
+): Promise<ScanSchedule[]> {
+  const result = await db.query<ScanSchedule>(
+    `SELECT * FROM scan_schedules
+     WHERE ${organizationId !== null ? 'organization_id = $1' : 'user_id = $1 AND organization_id IS NULL'}
+     ORDER BY next_run_at ASC`,
+    [organizationId ?? userId]
+  );
+
+  return result.rows;
+}
+
+export async function getScheduleById(scheduleId: number, db: Executor = pool): Promise<ScanSchedule | null> {
+  const result = await db.query<ScanSchedule>(
+    'SELECT * FROM scan_schedules WHERE id = $1',
+    [scheduleId]
+  );
+
+  return result.rows.length > 0 ? result.rows[0] : null;
+}
+
+/**
+ * Update a schedule. Scheduled scans run as the user who last changed the schedule.
+ */
+export async function updateSchedule(
+  scheduleId: number,
+  userId: number,
+  changes: { frequency?: ScheduleFrequency; enabled?: boolean },
+  db: Executor = pool
+): Promise<ScanSchedule | null> {
+  const result = await db.query<ScanSchedule>(
+    `UPDATE scan_schedules
+     SET user_id = $2,
+         frequency = COALESCE($3, frequency),
+         enabled = COALESCE($4, enabled),
+         updated_at = CURRENT_TIMESTAMP
+     WHERE id = $1
+     RETURNING *`,
+    [scheduleId, userId, changes.frequency ?? null, changes.enabled ?? null]
+  );
+
+  return result.rows.length > 0 ? result.rows[0] : null;
+}
+
+export async function disableSchedule(scheduleId: number, db: Executor = pool): Promise<void> {
+  await db.query(
+    'UPDATE scan_schedules SET enabled = FALSE, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
+    [scheduleId]
+  );
+}
+
+export async function deleteSchedule(scheduleId: number, db: Executor = pool): Promise<boolean> {
+  const result = await db.query('DELETE FROM scan_schedules WHERE id = $1', [scheduleId]);
+
+  return result.rowCount !== null && result.rowCount > 0;
+}
+
+/**
+ * Record a scheduled scan's report. Returns false if the schedule has since been deleted or disabled.
+ */
+export async function markScheduleRun(
+  scheduleId: number,
+  reportId: number,
+  db: Executor = pool
+): Promise<boolean> {
+  const result = await db.query(
+    `UPDATE scan_schedules
+     SET last_run_at = CURRENT_TIMESTAMP, last_report_id = $2, updated_at = CURRENT_TIMESTAMP
+     WHERE id = $1 AND enabled`,
+    [scheduleId, reportId]
+  );
+
+  return result.rowCount !== null && result.rowCount > 0;
+}
+
+// Job queue operations
+export async function enqueueJob<K extends JobType>(
+  type: K,
+  payload: JobPayloads[K],
+  maxAttempts: number,
+  runAt: Date = new Date(),
+  db: Executor = pool
+): Promise<Job<JobPayloads[K]>> {
+  const result = await db.query<Job<JobPayloads[K]>>(
+    `INSERT INTO jobs (type, payload, max_attempts, run_at)
+     VALUES ($1, $2, $3, $4)
+     RETURNING *`,
+    [type, JSON.stringify(payload), maxAttempts, runAt]
+  );
+
+  return result.rows[0];
+}
+
+/**
+ * Enqueue a scan job for every due schedule and advance its next_run_at.
+ * Schedules are locked with SKIP LOCKED so concurrent workers don't double-enqueue.
+ */
+export async function enqueueDueSchedules(maxAttempts: number, db: Executor = pool): Promise<number> {
+  return inTransaction(db, async (client) => {
+    const due = await client.query<ScanSchedule & { url: string }>(
+      `SELECT ss.*, s.url
+       FROM scan_schedules ss
+       JOIN sites s ON s.id = ss.site_id
+       WHERE ss.enabled AND ss.next_run_at <= NOW()
+       ORDER BY ss.next_run_at
+       FOR UPDATE OF ss SKIP LOCKED`
+    );
+
+    for (const schedule of due.rows) {
+      const payload: ScanJobPayload = {
+        userId: schedule.user_id,
+        organizationId: schedule.organization_id,
+        siteId: schedule.site_id,
+        scheduleId: schedule.id,
+        url: schedule.url,
+      };
+
+      await client.query(
+        `INSERT INTO jobs (type, payload, max_attempts) VALUES ('scan', $1, $2)`,
+        [JSON.stringify(payload), maxAttempts]
+      );
+
+      // Advance from the previous due time, skipping any runs missed while the worker was down
+      await client.query(
+        `UPDATE scan_schedules
+         SET next_run_at = GREATEST(
+               next_run_at + CASE frequency WHEN 'weekly' THEN INTERVAL '7 days' ELSE INTERVAL '1 month' END,
+               NOW()
+             ),
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [schedule.id]
+      );
+    }
+
+    return due.rows.length;
+  });
+}
+
+/**
+ * Claim the next pending job, marking it running
+ */
+export async function claimNextJob(db: Executor = pool): Promise<Job | null> {
+  const result = await db.query<Job>(
+    `UPDATE jobs
+     SET status = 'running', attempts = attempts + 1, locked_at = NOW(), updated_at = NOW()
+     WHERE id = (
+       SELECT id FROM jobs
+       WHERE status = 'pending' AND run_at <= NOW()
+       ORDER BY run_at, id
+       FOR UPDATE SKIP LOCKED
+       LIMIT 1
+     )
+     RETURNING *`
+  );
+
+  return result.rows.length > 0 ? result.rows[0] : null;
+}
+
+export async function completeJob(jobId: number, db: Executor = pool): Promise<void> {
+  await db.query(
+    `UPDATE jobs
+     SET status = 'completed', locked_at = NULL, last_error = NULL, updated_at = NOW()
+     WHERE id = $1`,
+    [jobId]
+  );
+}
+
+/**
+ * Record a failed attempt. Pass retryAt to reschedule, or null to fail permanently.
+ */
+export async function failJob(
+  jobId: number,
+  error: string,
+  retryAt: Date | null,
+  db: Executor = pool
+): Promise<void> {
+  await db.query(
+    `UPDATE jobs
+     SET status = CASE WHEN $3::timestamp IS NULL THEN 'failed' ELSE 'pending' END,
+         run_at = COALESCE($3::timestamp, run_at),
+         locked_at = NULL,
+         last_error = $2,
+         updated_at = NOW()
+     WHERE id = $1`,
+    [jobId, error, retryAt]
+  );
+}
+
+/**
+ * Return jobs stuck in 'running' (e.g. after a crash) to the queue
+ */
+export async function releaseStaleJobs(staleAfterMs: number, db: Executor = pool): Promise<number> {
+  const result = await db.query(
+    `UPDATE jobs
+     SET status = CASE WHEN attempts >= max_attempts THEN 'failed' ELSE 'pending' END,
+         locked_at = NULL,
+         last_error = COALESCE(last_error, 'Job timed out'),
+         updated_at = NOW()
+     WHERE status = 'running' AND locked_at < NOW() - make_interval(secs => $1::float / 1000)`,
+    [staleAfterMs]
+  );
+
+  return result.rowCount ?? 0;
+}
+
+// Organization operations
+export async function createOrganization(
+  name: string,
+  ownerId: number,
+  db: Executor = pool
+): Promise<Organization> {
+  return inTransaction(db, async (client) => {
+    const result = await client.query<Organization>(
+      `INSERT INTO organizations (name, created_by)
+       VALUES ($1, $2)
+       RETURNING *`,
+      [name, ownerId]
+    );
+    const organization = result.rows[0];
+
+    await client.query(
+      `INSERT INTO memberships (organization_id, user_id, role)
+       VALUES ($1, $2, 'owner')`,
+      [organization.id, ownerId]
+    );
+
+    return organization;
+  });
+}
+
+export async function getOrganizationsByUser(
+  userId: number,
+  db: Executor = pool
+): Promise<OrganizationSummary[]> {
+  const result = await db.query<
+    Organization & { role: MembershipRole; member_count: string }
+  >(
+    `SELECT o.*, m.role,
+       (SELECT COUNT(*) FROM memberships mc WHERE mc.organization_id = o.id) AS member_count
+     FROM organizations o
+     JOIN memberships m ON m.organization_id = o.id
+     WHERE m.user_id = $1
+     ORDER BY o.name ASC`,
+    [userId]
+  );
+
+  return result.rows.map((row) => ({
+    id: row.id,
+    name: row.name,
+    role: row.role,
+    memberCount: parseInt(row.member_count, 10),
+    createdAt: row.created_at.toISOString(),
+  }));
+}
+
+export async function getMembership(
+  organizationId: number,
+  userId: number,
+  db: Executor = pool
+): Promise<Membership | null> {
+  const result = await db.query<Membership>(
+    'SELECT * FROM memberships WHERE organization_id = $1 AND user_id = $2',
+    [organizationId, userId]
+  );
+
+  return result.rows.length > 0 ? result.rows[0] : null;
+}
+
+export async function getOrganizationMembers(
+  organizationId: number,
+  db: Executor = pool
+): Promise<MemberSummary[]> {
+  const result = await db.query<Membership & { email: string; full_name: string | null }>(
+    `SELECT m.*, u.email, u.full_name
+     FROM memberships m
+     JOIN users u ON u.id = m.user_id
+     WHERE m.organization_id = $1
+     ORDER BY m.created_at ASC`,
+    [organizationId]
+  );
+
+  return result.rows.map((row) => ({
+    userId: row.user_id,
+    email: row.email,
+    fullName: row.full_name,
+    role: row.role,
+    joinedAt: row.created_at.toISOString(),
+  }));
+}
+
+export async function updateMembershipRole(
+  organizationId: number,
+  userId: number,
+  role: MembershipRole,
+  db: Executor = pool
+): Promise<boolean> {
+  const result = await db.query(
+    'UPDATE memberships SET role = $3 WHERE organization_id = $1 AND user_id = $2',
+    [organizationId, userId, role]
+  );
+
+  return result.rowCount !== null && result.rowCount > 0;
+}
+
+export async function removeMembership(
+  organizationId: number,
+  userId: number,
+  db: Executor = pool
+): Promise<boolean> {
+  return inTransaction(db, async (client) => {
+    const result = await client.query(
+      'DELETE FROM memberships WHERE organization_id = $1 AND user_id = $2',
+      [organizationId, userId]
+    );
+
+    // Drop the user back to their personal workspace
+    await client.query(
+      `UPDATE users SET current_organization_id = NULL
+       WHERE id = $1 AND current_organization_id = $2`,
+      [userId, organizationId]
+    );
+
+    return result.rowCount !== null && result.rowCount > 0;
+  });
+}
+
+export async function setCurrentOrganization(
+  userId: number,
+  organizationId: number | null,
+  db: Executor = pool
+): Promise<void> {
+  await db.query(
+    `UPDATE users SET current_organization_id = $2, updated_at = CURRENT_TIMESTAMP
+     WHERE id = $1`,
+    [userId, organizationId]
+  );
+}
+
+// Invitation operations
+export async function createInvitation(
+  organizationId: number,
+  email: string,
+  role: MembershipRole,
+  tokenHash: string,
+  invitedBy: number,
+  expiresAt: Date,
+  db: Executor = pool
+): Promise<Invitation> {
+  const result = await db.query<Invitation>(
+    `INSERT INTO invitations (organization_id, email, role, token_hash, invited_by, expires_at)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING *`,
+    [organizationId, email, role, tokenHash, invitedBy, expiresAt]
+  );
+
+  return result.rows[0];
+}
+
+export async function getPendingInvitations(
+  organizationId: number,
+  db: Executor = pool
+): Promise<Invitation[]> {
+  const result = await db.query<Invitation>(
+    `SELECT * FROM invitations
+     WHERE organization_id = $1 AND accepted_at IS NULL AND expires_at > NOW()
+     ORDER BY created_at DESC`,
+    [organizationId]
+  );
+
+  return result.rows;
+}
+
+export async function findPendingInvitation(
+  tokenHash: string,
+  db: Executor = pool
+): Promise<Invitation | null> {
+  const result = await db.query<Invitation>(
+    `SELECT * FROM invitations
+     WHERE token_hash = $1 AND accepted_at IS NULL AND expires_at > NOW()`,
+    [tokenHash]
+  );
+
+  return result.rows.length > 0 ? result.rows[0] : null;
+}
+
+export async function deleteInvitation(
+  invitationId: number,
+  organizationId: number,
+  db: Executor = pool
+): Promise<boolean> {
+  const result = await db.query(
+    'DELETE FROM invitations WHERE id = $1 AND organization_id = $2 AND accepted_at IS NULL',
+    [invitationId, organizationId]
+  );
+
+  return result.rowCount !== null && result.rowCount > 0;
+}
+
+/**
+ * Accept an invitation and add the membership. Returns null if the invitation was
+ * accepted (or expired) in the meantime, so each invitation is used once.
+ */
+export async function acceptInvitation(
+  invitation: Invitation,
+  userId: number,
+  db: Executor = pool
+): Promise<Membership | null> {
+  return inTransaction(db, async (client) => {
+    const accepted = await client.query(
+      `UPDATE invitations SET accepted_at = NOW()
+       WHERE id = $1 AND accepted_at IS NULL AND expires_at > NOW()`,
+      [invitation.id]
+    );
+
+    if (accepted.rowCount === 0) {
+      return null;
+    }
+
+    // Existing members keep their current role
+    const result = await client.query<Membership>(
+      `INSERT INTO memberships (organization_id, user_id, role)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (organization_id, user_id) DO UPDATE SET role = memberships.role
+       RETURNING *`,
+      [invitation.organization_id, userId, invitation.role]
+    );
+
+    return result.rows[0];
+  });
 }
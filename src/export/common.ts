@@ -0,0 +1,43 @@
+import type { CheckCategory, ComplianceStatus, Report } from '../types/index.js';
+
+export const CATEGORY_LABELS: Record<CheckCategory, string> = {
+  websitePolicies: 'Website Policies',
+  security: 'Security',
+  memberData: 'Member Data',
+  marketing: 'Marketing',
+  payments: 'Payments',
+};
+
+export const STATUS_COLORS: Record<ComplianceStatus, string> = {
+  Compliant: '#2e7d32',
+  Warning: '#ed6c02',
+  'Non-Compliant': '#c62828',
+  Info: '#0277bd',
+};
+
+export const SUMMARY_SECTIONS = [
+  { key: 'goodPoints', label: 'Good points' },
+  { key: 'warnings', label: 'Warnings' },
+  { key: 'threats', label: 'Threats' },
+] as const;
+
+export function formatDate(value: string | Date): string {
+  const date = new Date(value);
+  return isNaN(date.getTime())
+    ? String(value)
+    : date.toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' });
+}
+
+/**
+ * Download filename, e.g. compliance-report-example.org-42.pdf
+ */
+export function exportFilename(report: Report, extension: string): string {
+  let host = 'site';
+  try {
+    host = new URL(report.scanned_url).hostname;
+  } catch {
+    // Keep the placeholder
+  }
+
+  return `compliance-report-${host.replace(/[^a-z0-9.-]/gi, '')}-${report.id}.${extension}`;
+}
@@ -0,0 +1,111 @@
+import { config } from '../config/env.js';
+import { CATEGORY_LABELS, STATUS_COLORS, SUMMARY_SECTIONS, formatDate } from './common.js';
+import type { CheckCategory, ComplianceCheck, ComplianceStatus, Report } from '../types/index.js';
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function statusBadge(status: ComplianceStatus): string {
+  return `<span class="badge" style="background:${STATUS_COLORS[status]}">${escapeHtml(status)}</span>`;
+}
+
+function renderCheck(check: ComplianceCheck): string {
+  return `
+      <div class="check">
+        <div class="check-header">
+          <h3>${escapeHtml(check.title)}</h3>
+          ${statusBadge(check.status)}
+        </div>
+        <p>${escapeHtml(check.summary)}</p>
+        ${check.recommendation ? `<p class="recommendation"><strong>Recommendation:</strong> ${escapeHtml(check.recommendation)}</p>` : ''}
+      </div>`;
+}
+
+/**
+ * Standalone, printable HTML document for a stored report
+ */
+export function renderReportHtml(report: Report): string {
+  const data = report.report_data;
+  const brand = config.branding;
+
+  const summary = SUMMARY_SECTIONS.map(({ key, label }) => {
+    const items = data.summary[key];
+    return `
+      <div class="summary-section ${key}">
+        <h3>${label}</h3>
+        ${items.length > 0 ? `<ul>${items.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</ul>` : '<p class="empty">None</p>'}
+      </div>`;
+  }).join('');
+
+  const categories = (Object.keys(CATEGORY_LABELS) as CheckCategory[])
+    .map((category) => {
+      const checks = data.checks[category] ?? [];
+      return `
+    <section class="category">
+      <h2>${CATEGORY_LABELS[category]}</h2>
+      ${checks.length > 0 ? checks.map(renderCheck).join('') : '<p class="empty">No checks in this category.</p>'}
+    </section>`;
+    })
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Compliance report: ${escapeHtml(data.scannedUrl)}</title>
+  <style>
+    body { font-family: Helvetica, Arial, sans-serif; color: #222; margin: 0; line-height: 1.45; }
+    header { background: ${brand.color}; color: #fff; padding: 24px 40px; }
+    header .brand { font-size: 22px; font-weight: bold; }
+    main { padding: 24px 40px; max-width: 900px; }
+    h1 { font-size: 22px; margin: 0 0 4px; word-break: break-all; }
+    h2 { color: ${brand.color}; border-bottom: 2px solid ${brand.color}; padding-bottom: 4px; margin-top: 32px; }
+    h3 { font-size: 15px; margin: 0; }
+    .meta { color: #666; margin: 0; }
+    .score { display: flex; align-items: center; gap: 16px; margin: 24px 0; }
+    .score .value { font-size: 40px; font-weight: bold; }
+    .badge { color: #fff; border-radius: 4px; padding: 2px 8px; font-size: 13px; white-space: nowrap; }
+    .summary { display: grid; grid-template-columns: repeat(3, 1fr); gap: 16px; }
+    .summary-section { border-top: 4px solid #999; padding-top: 8px; }
+    .summary-section.goodPoints { border-color: ${STATUS_COLORS.Compliant}; }
+    .summary-section.warnings { border-color: ${STATUS_COLORS.Warning}; }
+    .summary-section.threats { border-color: ${STATUS_COLORS['Non-Compliant']}; }
+    .summary-section ul { padding-left: 18px; }
+    .check { border: 1px solid #ddd; border-radius: 6px; padding: 12px 16px; margin: 12px 0; page-break-inside: avoid; }
+    .check-header { display: flex; justify-content: space-between; align-items: baseline; gap: 12px; }
+    .recommendation { background: #f5f7fa; padding: 8px; border-radius: 4px; }
+    .empty { color: #888; }
+    footer { color: #888; font-size: 12px; padding: 16px 40px; }
+    @media print { header { -webkit-print-color-adjust: exact; print-color-adjust: exact; } }
+  </style>
+</head>
+<body>
+  <header>
+    <div class="brand">${escapeHtml(brand.name)}</div>
+    <div>Compliance report</div>
+  </header>
+  <main>
+    <h1>${escapeHtml(data.scannedUrl)}</h1>
+    <p class="meta">Scanned ${escapeHtml(formatDate(data.scanDate))}</p>
+
+    <div class="score">
+      <span class="value">${data.overallScore}/100</span>
+      ${statusBadge(data.overallStatus)}
+    </div>
+
+    <h2>Summary</h2>
+    <div class="summary">${summary}
+    </div>
+${categories}
+  </main>
+  <footer>Generated by ${escapeHtml(brand.name)} on ${escapeHtml(formatDate(new Date()))}</footer>
+</body>
+</html>
+`;
+}
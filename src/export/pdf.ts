@@ -0,0 +1,253 @@
+import zlib from 'zlib';
+
+/**
+ * Minimal PDF writer: text in the standard Helvetica fonts and filled rectangles,
+ * enough for report documents without a headless browser or native dependencies.
+ */
+
+export type PdfFont = 'regular' | 'bold';
+
+// RGB components between 0 and 1
+export type PdfColor = [number, number, number];
+
+export interface PdfPage {
+  operations: string[];
+}
+
+// A4 in points
+export const PAGE_WIDTH = 595;
+export const PAGE_HEIGHT = 842;
+
+const FONT_NAMES: Record<PdfFont, string> = {
+  regular: 'Helvetica',
+  bold: 'Helvetica-Bold',
+};
+
+const FONT_RESOURCES: Record<PdfFont, string> = {
+  regular: 'F1',
+  bold: 'F2',
+};
+
+// Glyph widths (1/1000 em) for characters 32-126, from the Adobe font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// WinAnsiEncoding bytes for the characters outside Latin-1 that reports commonly contain
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+const EXTRA_WIDTHS: Record<number, number> = {
+  0x85: 1000, 0x91: 222, 0x92: 222, 0x93: 333, 0x94: 333, 0x95: 350, 0x96: 556, 0x97: 1000,
+};
+
+/**
+ * Map text to WinAnsiEncoding bytes (what the standard fonts use); unsupported characters become '?'
+ */
+function encodeText(text: string): number[] {
+  const bytes: number[] = [];
+
+  for (const char of text.replace(/[\t\r\n]+/g, ' ')) {
+    const code = char.codePointAt(0)!;
+    if ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) {
+      bytes.push(code);
+    } else {
+      bytes.push(WIN_ANSI_EXTRAS[char] ?? 0x3f);
+    }
+  }
+
+  return bytes;
+}
+
+/**
+ * Width of a line of text in points
+ */
+export function measureText(text: string, font: PdfFont, size: number): number {
+  const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+
+  let units = 0;
+  for (const byte of encodeText(text)) {
+    units += byte <= 126 ? widths[byte - 32] : EXTRA_WIDTHS[byte] ?? 556;
+  }
+
+  return (units * size) / 1000;
+}
+
+/**
+ * Break text into lines no wider than maxWidth, splitting overlong words
+ */
+export function wrapText(text: string, font: PdfFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (measureText(candidate, font, size) <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+
+    if (line) {
+      lines.push(line);
+    }
+
+    // Long URLs and the like are broken wherever they overflow
+    line = '';
+    for (const char of word) {
+      if (line && measureText(line + char, font, size) > maxWidth) {
+        lines.push(line);
+        line = '';
+      }
+      line += char;
+    }
+  }
+
+  if (line) {
+    lines.push(line);
+  }
+
+  return lines.length > 0 ? lines : [''];
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+function formatColor(color: PdfColor): string {
+  return color.map(formatNumber).join(' ');
+}
+
+function toPdfString(text: string): string {
+  return encodeText(text)
+    .map((byte) => {
+      const char = String.fromCharCode(byte);
+      return char === '(' || char === ')' || char === '\\' ? `\\${char}` : char;
+    })
+    .join('');
+}
+
+/**
+ * Parse "#rrggbb" into a PDF colour
+ */
+export function hexColor(hex: string): PdfColor {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+  if (!match) {
+    return [0, 0, 0];
+  }
+
+  return [parseInt(match[1], 16) / 255, parseInt(match[2], 16) / 255, parseInt(match[3], 16) / 255];
+}
+
+export function createPage(): PdfPage {
+  return { operations: [] };
+}
+
+/**
+ * Draw a line of text with its baseline at y (measured from the bottom of the page)
+ */
+export function drawText(
+  page: PdfPage,
+  text: string,
+  x: number,
+  y: number,
+  options: { font?: PdfFont; size?: number; color?: PdfColor } = {}
+): void {
+  const { font = 'regular', size = 10, color = [0, 0, 0] } = options;
+
+  page.operations.push(
+    `BT /${FONT_RESOURCES[font]} ${formatNumber(size)} Tf ${formatColor(color)} rg ` +
+      `${formatNumber(x)} ${formatNumber(y)} Td (${toPdfString(text)}) Tj ET`
+  );
+}
+
+export function fillRect(page: PdfPage, x: number, y: number, width: number, height: number, color: PdfColor): void {
+  page.operations.push(
+    `${formatColor(color)} rg ${formatNumber(x)} ${formatNumber(y)} ${formatNumber(width)} ${formatNumber(height)} re f`
+  );
+}
+
+/**
+ * Serialize pages into a PDF file
+ */
+export function buildPdf(pages: PdfPage[], info: { title: string; author: string }): Buffer {
+  const objects: Buffer[] = [];
+  const addObject = (body: string | Buffer): number => {
+    objects.push(Buffer.isBuffer(body) ? body : Buffer.from(body, 'latin1'));
+    return objects.length;
+  };
+
+  // Fixed object numbers: 1 catalog, 2 page tree, 3-4 fonts, 5 info
+  const pageIds = pages.map((_, index) => 6 + index * 2);
+  addObject('<< /Type /Catalog /Pages 2 0 R >>');
+  addObject(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  for (const font of ['regular', 'bold'] as const) {
+    addObject(`<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_NAMES[font]} /Encoding /WinAnsiEncoding >>`);
+  }
+  addObject(
+    `<< /Title (${toPdfString(info.title)}) /Author (${toPdfString(info.author)}) ` +
+      `/Producer (${toPdfString(info.author)}) >>`
+  );
+
+  for (const page of pages) {
+    const pageId = objects.length + 1;
+    addObject(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`
+    );
+
+    const content = zlib.deflateSync(Buffer.from(page.operations.join('\n'), 'latin1'));
+    addObject(
+      Buffer.concat([
+        Buffer.from(`<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+        content,
+        Buffer.from('\nendstream', 'latin1'),
+      ])
+    );
+  }
+
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  const offsets: number[] = [];
+  let length = chunks[0].length;
+
+  objects.forEach((body, index) => {
+    const chunk = Buffer.concat([
+      Buffer.from(`${index + 1} 0 obj\n`, 'latin1'),
+      body,
+      Buffer.from('\nendobj\n', 'latin1'),
+    ]);
+    offsets.push(length);
+    chunks.push(chunk);
+    length += chunk.length;
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>`,
+    'startxref',
+    String(length),
+    '%%EOF',
+  ].join('\n');
+  chunks.push(Buffer.from(`${xref}\n`, 'latin1'));
+
+  return Buffer.concat(chunks);
+}
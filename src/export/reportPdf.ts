@@ -0,0 +1,176 @@
+import { config } from '../config/env.js';
+import { CATEGORY_LABELS, STATUS_COLORS, SUMMARY_SECTIONS, formatDate } from './common.js';
+import {
+  PAGE_HEIGHT,
+  PAGE_WIDTH,
+  buildPdf,
+  createPage,
+  drawText,
+  fillRect,
+  hexColor,
+  measureText,
+  wrapText,
+} from './pdf.js';
+import type { PdfColor, PdfFont, PdfPage } from './pdf.js';
+import type { CheckCategory, ComplianceCheck, ComplianceStatus, Report } from '../types/index.js';
+
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const FOOTER_HEIGHT = 30;
+const WHITE: PdfColor = [1, 1, 1];
+const TEXT: PdfColor = [0.13, 0.13, 0.13];
+const MUTED: PdfColor = [0.45, 0.45, 0.45];
+
+// Pages plus the baseline of the next line on the current page
+interface Layout {
+  pages: PdfPage[];
+  page: PdfPage;
+  y: number;
+}
+
+function addPage(layout: Layout): void {
+  layout.page = createPage();
+  layout.pages.push(layout.page);
+  layout.y = PAGE_HEIGHT - MARGIN;
+}
+
+// Start a new page unless `height` points still fit above the footer
+function ensureSpace(layout: Layout, height: number): void {
+  if (layout.y - height < MARGIN + FOOTER_HEIGHT) {
+    addPage(layout);
+  }
+}
+
+function writeParagraph(
+  layout: Layout,
+  text: string,
+  options: { font?: PdfFont; size?: number; color?: PdfColor; indent?: number; prefix?: string } = {}
+): void {
+  const { font = 'regular', size = 10, color = TEXT, indent = 0, prefix } = options;
+  const lineHeight = size * 1.4;
+  const prefixWidth = prefix ? measureText(`${prefix} `, font, size) : 0;
+
+  wrapText(text, font, size, CONTENT_WIDTH - indent - prefixWidth).forEach((line, index) => {
+    ensureSpace(layout, lineHeight);
+    layout.y -= lineHeight;
+    if (prefix && index === 0) {
+      drawText(layout.page, prefix, MARGIN + indent, layout.y, { font, size, color });
+    }
+    drawText(layout.page, line, MARGIN + indent + prefixWidth, layout.y, { font, size, color });
+  });
+}
+
+function drawBadge(page: PdfPage, status: ComplianceStatus, right: number, baseline: number, size: number): void {
+  const width = measureText(status, 'bold', size) + 10;
+  fillRect(page, right - width, baseline - size * 0.35, width, size * 1.4, hexColor(STATUS_COLORS[status]));
+  drawText(page, status, right - width + 5, baseline, { font: 'bold', size, color: WHITE });
+}
+
+function writeHeading(layout: Layout, text: string): void {
+  const brandColor = hexColor(config.branding.color);
+
+  // Keep headings with at least a few lines of what follows
+  ensureSpace(layout, 80);
+  layout.y -= 28;
+  drawText(layout.page, text, MARGIN, layout.y, { font: 'bold', size: 15, color: brandColor });
+  fillRect(layout.page, MARGIN, layout.y - 6, CONTENT_WIDTH, 1.5, brandColor);
+  layout.y -= 10;
+}
+
+function writeCheck(layout: Layout, check: ComplianceCheck): void {
+  const badgeWidth = measureText(check.status, 'bold', 9) + 20;
+  const titleLines = wrapText(check.title, 'bold', 11, CONTENT_WIDTH - badgeWidth);
+
+  ensureSpace(layout, titleLines.length * 15 + 40);
+  layout.y -= 12;
+
+  titleLines.forEach((line, index) => {
+    layout.y -= 15;
+    drawText(layout.page, line, MARGIN, layout.y, { font: 'bold', size: 11, color: TEXT });
+    if (index === 0) {
+      drawBadge(layout.page, check.status, MARGIN + CONTENT_WIDTH, layout.y, 9);
+    }
+  });
+
+  writeParagraph(layout, check.summary);
+  if (check.recommendation) {
+    writeParagraph(layout, check.recommendation, { color: MUTED, prefix: 'Recommendation:' });
+  }
+}
+
+/**
+ * Printable PDF document for a stored report, generated in-process
+ */
+export function renderReportPdf(report: Report): Buffer {
+  const data = report.report_data;
+  const brand = config.branding;
+  const layout: Layout = { pages: [], page: createPage(), y: 0 };
+  addPage(layout);
+
+  // Brand band across the top of the first page
+  fillRect(layout.page, 0, PAGE_HEIGHT - 90, PAGE_WIDTH, 90, hexColor(brand.color));
+  drawText(layout.page, brand.name, MARGIN, PAGE_HEIGHT - 45, { font: 'bold', size: 20, color: WHITE });
+  drawText(layout.page, 'Compliance report', MARGIN, PAGE_HEIGHT - 68, { size: 12, color: WHITE });
+  layout.y = PAGE_HEIGHT - 100;
+
+  writeParagraph(layout, data.scannedUrl, { font: 'bold', size: 16 });
+  writeParagraph(layout, `Scanned ${formatDate(data.scanDate)}`, { color: MUTED });
+
+  // Overall score and status
+  ensureSpace(layout, 60);
+  layout.y -= 50;
+  const score = `${data.overallScore}/100`;
+  drawText(layout.page, score, MARGIN, layout.y, { font: 'bold', size: 36, color: TEXT });
+  const scoreWidth = measureText(score, 'bold', 36);
+  drawBadge(
+    layout.page,
+    data.overallStatus,
+    MARGIN + scoreWidth + 20 + measureText(data.overallStatus, 'bold', 12) + 10,
+    layout.y + 8,
+    12
+  );
+
+  writeHeading(layout, 'Summary');
+  for (const { key, label } of SUMMARY_SECTIONS) {
+    const items = data.summary[key];
+
+    ensureSpace(layout, 40);
+    layout.y -= 8;
+    writeParagraph(layout, label, { font: 'bold', size: 12 });
+
+    if (items.length === 0) {
+      writeParagraph(layout, 'None', { color: MUTED, indent: 10 });
+    }
+    for (const item of items) {
+      writeParagraph(layout, item, { indent: 10, prefix: '•' });
+    }
+  }
+
+  for (const category of Object.keys(CATEGORY_LABELS) as CheckCategory[]) {
+    const checks = data.checks[category] ?? [];
+
+    writeHeading(layout, CATEGORY_LABELS[category]);
+    if (checks.length === 0) {
+      writeParagraph(layout, 'No checks in this category.', { color: MUTED });
+    }
+    for (const check of checks) {
+      writeCheck(layout, check);
+    }
+  }
+
+  // Footers need the final page count
+  const generated = `Generated by ${brand.name} on ${formatDate(new Date())}`;
+  layout.pages.forEach((page, index) => {
+    const pageLabel = `Page ${index + 1} of ${layout.pages.length}`;
+    drawText(page, generated, MARGIN, MARGIN - 20, { size: 8, color: MUTED });
+    drawText(page, pageLabel, PAGE_WIDTH - MARGIN - measureText(pageLabel, 'regular', 8), MARGIN - 20, {
+      size: 8,
+      color: MUTED,
+    });
+  });
+
+  return buildPdf(layout.pages, {
+    title: `Compliance report: ${data.scannedUrl}`,
+    author: brand.name,
+  });
+}
@@ -0,0 +1,226 @@
+import { CATEGORY_LABELS } from './common.js';
+import { createZipStream } from './zip.js';
+import type { CheckCategory, ComplianceStatus, ExportRowMode, Report } from '../types/index.js';
+
+export type CellValue = string | number | Date | null;
+
+export interface Sheet {
+  name: string;
+  columns: string[];
+  rows: AsyncIterable<CellValue[]>;
+}
+
+// Rows are written out in chunks of roughly this many characters
+const CHUNK_SIZE = 64 * 1024;
+
+const STATUSES: ComplianceStatus[] = ['Compliant', 'Warning', 'Non-Compliant', 'Info'];
+
+async function* reportRows(reports: AsyncIterable<Report>): AsyncGenerator<CellValue[]> {
+  for await (const report of reports) {
+    const counts = new Map<ComplianceStatus, number>(STATUSES.map((status) => [status, 0]));
+    for (const checks of Object.values(report.report_data.checks)) {
+      for (const check of checks) {
+        counts.set(check.status, (counts.get(check.status) ?? 0) + 1);
+      }
+    }
+
+    yield [
+      report.id,
+      report.scanned_url,
+      report.scan_date,
+      report.overall_status,
+      report.overall_score,
+      ...STATUSES.map((status) => counts.get(status) ?? 0),
+    ];
+  }
+}
+
+async function* checkRows(reports: AsyncIterable<Report>): AsyncGenerator<CellValue[]> {
+  for await (const report of reports) {
+    for (const category of Object.keys(CATEGORY_LABELS) as CheckCategory[]) {
+      for (const check of report.report_data.checks[category] ?? []) {
+        yield [
+          report.id,
+          report.scanned_url,
+          report.scan_date,
+          CATEGORY_LABELS[category],
+          check.id,
+          check.title,
+          check.status,
+          check.summary,
+          check.recommendation,
+        ];
+      }
+    }
+  }
+}
+
+/**
+ * Spreadsheet of reports: one row per report, or one row per check
+ */
+export function buildReportSheet(reports: AsyncIterable<Report>, mode: ExportRowMode): Sheet {
+  if (mode === 'checks') {
+    return {
+      name: 'Checks',
+      columns: ['Report ID', 'URL', 'Scan date', 'Category', 'Check ID', 'Title', 'Status', 'Summary', 'Recommendation'],
+      rows: checkRows(reports),
+    };
+  }
+
+  return {
+    name: 'Reports',
+    columns: ['Report ID', 'URL', 'Scan date', 'Status', 'Score', ...STATUSES],
+    rows: reportRows(reports),
+  };
+}
+
+/**
+ * Group small strings into chunks so the response isn't written a cell at a time
+ */
+async function* chunked(parts: AsyncIterable<string>): AsyncGenerator<string> {
+  let buffer = '';
+  for await (const part of parts) {
+    buffer += part;
+    if (buffer.length >= CHUNK_SIZE) {
+      yield buffer;
+      buffer = '';
+    }
+  }
+  if (buffer) {
+    yield buffer;
+  }
+}
+
+function csvCell(value: CellValue): string {
+  if (value === null) {
+    return '';
+  }
+  if (typeof value === 'number') {
+    return String(value);
+  }
+
+  let text = value instanceof Date ? value.toISOString() : value;
+
+  // Scanned sites control these strings; stop spreadsheet apps evaluating them as formulas
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+async function* csvLines(sheet: Sheet): AsyncGenerator<string> {
+  // BOM so Excel opens the file as UTF-8
+  yield '\ufeff' + sheet.columns.map(csvCell).join(',') + '\r\n';
+
+  for await (const row of sheet.rows) {
+    yield row.map(csvCell).join(',') + '\r\n';
+  }
+}
+
+export function createCsvStream(sheet: Sheet): AsyncGenerator<string> {
+  return chunked(csvLines(sheet));
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/[^\x09\x0a\x0d\x20-\ud7ff\ue000-\ufffd\u{10000}-\u{10ffff}]/gu, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Style indexes from STYLES_XML: 1 = bold header, 2 = date
+function xlsxCell(value: CellValue, style: number = 0): string {
+  const styleAttribute = style ? ` s="${style}"` : '';
+
+  if (value === null) {
+    return '<c/>';
+  }
+  if (typeof value === 'number') {
+    return `<c${styleAttribute}><v>${value}</v></c>`;
+  }
+  if (value instanceof Date) {
+    // Days since 1899-12-30, Excel's date epoch
+    return `<c s="2"><v>${value.getTime() / 86400000 + 25569}</v></c>`;
+  }
+
+  return `<c t="inlineStr"${styleAttribute}><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+async function* worksheetXml(sheet: Sheet): AsyncGenerator<string> {
+  yield '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    '<sheetData>';
+  yield `<row>${sheet.columns.map((column) => xlsxCell(column, 1)).join('')}</row>`;
+
+  for await (const row of sheet.rows) {
+    yield `<row>${row.map((value) => xlsxCell(value)).join('')}</row>`;
+  }
+
+  yield '</sheetData></worksheet>';
+}
+
+const CONTENT_TYPES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+  '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+  '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+  '</Types>';
+
+const ROOT_RELS_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+  '</Relationships>';
+
+const WORKBOOK_RELS_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+  '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+  '</Relationships>';
+
+// Cell formats: 0 default, 1 bold (header), 2 date and time (built-in format 22)
+const STYLES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="3">' +
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+  '<xf numFmtId="22" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '</cellXfs>' +
+  '</styleSheet>';
+
+function workbookXml(sheetName: string): string {
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+    'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    `<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets>` +
+    '</workbook>'
+  );
+}
+
+/**
+ * Single-sheet XLSX workbook, streamed as the rows are read
+ */
+export function createXlsxStream(sheet: Sheet): AsyncGenerator<Buffer> {
+  return createZipStream([
+    { name: '[Content_Types].xml', data: CONTENT_TYPES_XML },
+    { name: '_rels/.rels', data: ROOT_RELS_XML },
+    { name: 'xl/workbook.xml', data: workbookXml(sheet.name) },
+    { name: 'xl/_rels/workbook.xml.rels', data: WORKBOOK_RELS_XML },
+    { name: 'xl/styles.xml', data: STYLES_XML },
+    { name: 'xl/worksheets/sheet1.xml', data: chunked(worksheetXml(sheet)) },
+  ]);
+}
@@ -0,0 +1,161 @@
+import zlib from 'zlib';
+
+/**
+ * Streaming ZIP writer (deflate, sizes in data descriptors), used for XLSX files.
+ * Entries are compressed as their data arrives, so only the central directory is kept in memory.
+ */
+
+export interface ZipEntry {
+  name: string;
+  data: string | AsyncIterable<string>;
+}
+
+interface CentralDirectoryRecord {
+  name: Buffer;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+// General purpose flags: sizes follow the data (bit 3), UTF-8 names (bit 11)
+const FLAGS = 0x0808;
+const DEFLATE = 8;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer, previous: number = 0): number {
+  let crc = previous ^ 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+async function* toChunks(data: string | AsyncIterable<string>): AsyncGenerator<Buffer> {
+  if (typeof data === 'string') {
+    yield Buffer.from(data, 'utf8');
+    return;
+  }
+  for await (const chunk of data) {
+    yield Buffer.from(chunk, 'utf8');
+  }
+}
+
+/**
+ * Compress one chunk, flushing so the output can be sent before the next chunk arrives
+ */
+function deflateChunk(deflate: zlib.DeflateRaw, chunk: Buffer | null): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const output: Buffer[] = [];
+    const onData = (data: Buffer) => output.push(data);
+    const done = () => {
+      deflate.off('data', onData);
+      deflate.off('error', reject);
+      resolve(Buffer.concat(output));
+    };
+
+    deflate.on('data', onData);
+    deflate.once('error', reject);
+
+    if (chunk) {
+      deflate.write(chunk);
+      deflate.flush(zlib.constants.Z_SYNC_FLUSH, done);
+    } else {
+      deflate.end();
+      deflate.once('end', done);
+    }
+  });
+}
+
+export async function* createZipStream(entries: Iterable<ZipEntry>): AsyncGenerator<Buffer> {
+  const { time, date } = dosDateTime(new Date());
+  const records: CentralDirectoryRecord[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(FLAGS, 6);
+    header.writeUInt16LE(DEFLATE, 8);
+    header.writeUInt16LE(time, 10);
+    header.writeUInt16LE(date, 12);
+    // CRC and sizes (14-25) are left zero and written in the data descriptor
+    header.writeUInt16LE(name.length, 26);
+    yield Buffer.concat([header, name]);
+
+    const record: CentralDirectoryRecord = { name, crc: 0, compressedSize: 0, size: 0, offset };
+    offset += header.length + name.length;
+
+    const deflate = zlib.createDeflateRaw();
+    for await (const chunk of toChunks(entry.data)) {
+      record.crc = crc32(chunk, record.crc);
+      record.size += chunk.length;
+
+      const compressed = await deflateChunk(deflate, chunk);
+      record.compressedSize += compressed.length;
+      offset += compressed.length;
+      yield compressed;
+    }
+
+    const last = await deflateChunk(deflate, null);
+    record.compressedSize += last.length;
+    offset += last.length;
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(record.crc, 4);
+    descriptor.writeUInt32LE(record.compressedSize, 8);
+    descriptor.writeUInt32LE(record.size, 12);
+    offset += descriptor.length;
+    yield Buffer.concat([last, descriptor]);
+
+    records.push(record);
+  }
+
+  const centralDirectoryOffset = offset;
+  let centralDirectorySize = 0;
+
+  for (const record of records) {
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(20, 6);
+    header.writeUInt16LE(FLAGS, 8);
+    header.writeUInt16LE(DEFLATE, 10);
+    header.writeUInt16LE(time, 12);
+    header.writeUInt16LE(date, 14);
+    header.writeUInt32LE(record.crc, 16);
+    header.writeUInt32LE(record.compressedSize, 20);
+    header.writeUInt32LE(record.size, 24);
+    header.writeUInt16LE(record.name.length, 28);
+    header.writeUInt32LE(record.offset, 42);
+
+    centralDirectorySize += header.length + record.name.length;
+    yield Buffer.concat([header, record.name]);
+  }
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(records.length, 8);
+  end.writeUInt16LE(records.length, 10);
+  end.writeUInt32LE(centralDirectorySize, 12);
+  end.writeUInt32LE(centralDirectoryOffset, 16);
+  yield end;
+}
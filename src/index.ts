@@ -1,12 +1,26 @@
 import Fastify from 'fastify';
 import cors from '@fastify/cors';
-import { config } from './config/env.js';
+import { config, assertProductionConfig } from './config/env.js';
 import { testConnection, closePool } from './db/connection.js';
+import { errorHandler } from './middleware/errorHandler.js';
 import { authRoutes } from './routes/auth.js';
 import { reportRoutes } from './routes/reports.js';
+import { scanRoutes } from './routes/scans.js';
+import { ruleRoutes } from './routes/rules.js';
+import { siteRoutes } from './routes/sites.js';
+import { scheduleRoutes } from './routes/schedules.js';
+import { organizationRoutes } from './routes/organizations.js';
+import { adminRoutes } from './routes/admin.js';
+import { apiKeyRoutes } from './routes/apiKeys.js';
+import { jwksRoutes } from './routes/jwks.js';
+import { shareRoutes } from './routes/shares.js';
+import { analyticsRoutes } from './routes/analytics.js';
+import { startWorker, stopWorker } from './jobs/worker.js';
+import { startSigningKeys, stopSigningKeys } from './utils/signingKeys.js';
 
 // Create Fastify instance
 const fastify = Fastify({
+  trustProxy: config.server.trustProxy,
   logger: {
     level: 'info',
     transport: {
@@ -40,18 +54,47 @@ await fastify.register(cors, {
   credentials: true,
 });
 
+// Uniform error responses (including schema validation failures)
+fastify.setErrorHandler(errorHandler);
+
 // Health check route
-fastify.get('/health', async () => {
+fastify.get('/health', {
+  schema: {
+    response: {
+      200: {
+        type: 'object',
+        properties: {
+          status: { type: 'string' },
+          timestamp: { type: 'string' },
+        },
+      },
+    },
+  },
+}, async () => {
   return { status: 'ok', timestamp: new Date().toISOString() };
 });
 
+// Public signing keys (no /api prefix, per RFC 8615)
+await fastify.register(jwksRoutes);
+
 // Register API routes
 await fastify.register(authRoutes, { prefix: '/api' });
 await fastify.register(reportRoutes, { prefix: '/api' });
+await fastify.register(scanRoutes, { prefix: '/api' });
+await fastify.register(ruleRoutes, { prefix: '/api' });
+await fastify.register(siteRoutes, { prefix: '/api' });
+await fastify.register(scheduleRoutes, { prefix: '/api' });
+await fastify.register(organizationRoutes, { prefix: '/api' });
+await fastify.register(adminRoutes, { prefix: '/api' });
+await fastify.register(apiKeyRoutes, { prefix: '/api' });
+await fastify.register(shareRoutes, { prefix: '/api' });
+await fastify.register(analyticsRoutes, { prefix: '/api' });
 
 // Graceful shutdown
 const gracefulShutdown = async () => {
   fastify.log.info('Shutting down gracefully...');
+  await stopWorker();
+  stopSigningKeys();
   await fastify.close();
   await closePool();
   process.exit(0);
@@ -63,9 +106,14 @@ process.on('SIGINT', gracefulShutdown);
 // Start server
 const start = async () => {
   try {
+    assertProductionConfig();
+
     // Test database connection
     await testConnection();
 
+    // Load access token signing keys (generating the first one on a fresh database)
+    await startSigningKeys(fastify.log);
+
     // Start listening
     await fastify.listen({
       port: config.server.port,
@@ -75,6 +123,9 @@ const start = async () => {
     fastify.log.info(
       `Server running at http://${config.server.host}:${config.server.port}`
     );
+
+    // Start the background job worker (scheduled rescans)
+    startWorker(fastify.log);
   } catch (err) {
     fastify.log.error(err);
     process.exit(1);
@@ -0,0 +1,4 @@
+/**
+ * A job that can never succeed (e.g. its user lost access). Failed without retrying.
+ */
+export class PermanentJobError extends Error {}
@@ -0,0 +1,43 @@
+import type { FastifyBaseLogger } from 'fastify';
+import * as repository from '../db/repository.js';
+import { config } from '../config/env.js';
+
+let lastRunAt = 0;
+
+/**
+ * Periodic housekeeping, run from the worker tick at most once per maintenance interval
+ */
+export async function runMaintenance(log: FastifyBaseLogger): Promise<void> {
+  if (Date.now() - lastRunAt < config.jobs.maintenanceIntervalMs) {
+    return;
+  }
+  lastRunAt = Date.now();
+
+  const purgedTokens = await repository.purgeExpiredRefreshTokens();
+  if (purgedTokens > 0) {
+    log.info({ purgedTokens }, 'Purged expired refresh tokens');
+  }
+
+  const purgedEmailTokens = await repository.purgeExpiredEmailTokens();
+  if (purgedEmailTokens > 0) {
+    log.info({ purgedEmailTokens }, 'Purged expired email tokens');
+  }
+
+  const purgedLoginStates = await repository.purgeExpiredOidcLoginStates();
+  if (purgedLoginStates > 0) {
+    log.info({ purgedLoginStates }, 'Purged expired OIDC login states');
+  }
+
+  // Attempts older than the window no longer count towards a lockout
+  const purgedAttempts = await repository.purgeLoginAttempts(
+    config.auth.loginWindowMinutes + config.auth.lockoutMinutes
+  );
+  if (purgedAttempts > 0) {
+    log.info({ purgedAttempts }, 'Purged old login attempts');
+  }
+
+  const purgedEmailRequests = await repository.purgeEmailRequests(config.auth.emailRequestWindowMinutes);
+  if (purgedEmailRequests > 0) {
+    log.info({ purgedEmailRequests }, 'Purged old email requests');
+  }
+}
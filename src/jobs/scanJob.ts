@@ -0,0 +1,72 @@
+import * as repository from '../db/repository.js';
+import { withTransaction } from '../db/connection.js';
+import { config } from '../config/env.js';
+import { hasPermission } from '../config/roles.js';
+import { scanSite, parseScanUrl } from '../scanner/index.js';
+import { PermanentJobError } from './errors.js';
+import type { Job, ScanJobPayload } from '../types/index.js';
+
+/**
+ * Check the user may still scan in the job's workspace.
+ * Access can change between scheduling and running (verification required, membership removed).
+ */
+async function assertCanScan(userId: number, organizationId: number | null): Promise<void> {
+  const user = await repository.findUserById(userId);
+
+  if (!user) {
+    throw new PermanentJobError('User no longer exists');
+  }
+
+  if (config.auth.requireVerifiedEmail && !user.is_verified) {
+    throw new PermanentJobError('Email address not verified');
+  }
+
+  if (organizationId !== null && !user.is_superadmin) {
+    const membership = await repository.getMembership(organizationId, userId);
+    if (!membership || !hasPermission(membership.role, 'scans:run')) {
+      throw new PermanentJobError('User can no longer run scans in the organization');
+    }
+  }
+}
+
+/**
+ * Run a scheduled scan and save the report to the schedule's workspace
+ */
+export async function runScanJob(job: Job<ScanJobPayload>): Promise<void> {
+  const { userId, organizationId, scheduleId, url } = job.payload;
+
+  // Queued and retried scans stop once their schedule is deleted or disabled
+  if (scheduleId !== null) {
+    const schedule = await repository.getScheduleById(scheduleId);
+    if (!schedule || !schedule.enabled) {
+      throw new PermanentJobError('Schedule was deleted or disabled');
+    }
+  }
+
+  try {
+    await assertCanScan(userId, organizationId);
+  } catch (error) {
+    // Stop the schedule until someone with access updates it
+    if (error instanceof PermanentJobError && scheduleId !== null) {
+      await repository.disableSchedule(scheduleId);
+    }
+    throw error;
+  }
+
+  const scanUrl = parseScanUrl(url);
+  if (!scanUrl) {
+    throw new Error(`Invalid scan URL: ${url}`);
+  }
+
+  const report = await scanSite(scanUrl);
+
+  // The schedule only records the run if the report was saved
+  await withTransaction(async (client) => {
+    const savedReport = await repository.createReport(userId, report, { organizationId }, client);
+
+    // Checked again in case the schedule changed during the scan; throwing discards the report
+    if (scheduleId !== null && !(await repository.markScheduleRun(scheduleId, savedReport.id, client))) {
+      throw new PermanentJobError('Schedule was deleted or disabled');
+    }
+  });
+}
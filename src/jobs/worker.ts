@@ -0,0 +1,125 @@
+import type { FastifyBaseLogger } from 'fastify';
+import * as repository from '../db/repository.js';
+import { config } from '../config/env.js';
+import { runScanJob } from './scanJob.js';
+import { runMaintenance } from './maintenance.js';
+import { PermanentJobError } from './errors.js';
+import type { Job, JobPayloads, JobType } from '../types/index.js';
+
+type JobHandlers = {
+  [K in JobType]: (job: Job<JobPayloads[K]>) => Promise<void>;
+};
+
+const handlers: JobHandlers = {
+  scan: runScanJob,
+};
+
+function isJobType(type: string): type is JobType {
+  return Object.prototype.hasOwnProperty.call(handlers, type);
+}
+
+// Job payloads are stored as JSON; the type column says which payload it holds
+function dispatch<K extends JobType>(type: K, job: Job): Promise<void> {
+  return handlers[type](job as Job<JobPayloads[K]>);
+}
+
+let timer: NodeJS.Timeout | null = null;
+let currentTick: Promise<void> | null = null;
+let stopping = false;
+
+/**
+ * Exponential backoff: base, 2x base, 4x base, ...
+ */
+function getRetryDelay(attempts: number): number {
+  return config.jobs.backoffBaseMs * 2 ** Math.max(attempts - 1, 0);
+}
+
+async function runJob(job: Job, log: FastifyBaseLogger): Promise<void> {
+  try {
+    if (!isJobType(job.type)) {
+      throw new Error(`No handler for job type: ${job.type}`);
+    }
+
+    await dispatch(job.type, job);
+    await repository.completeJob(job.id);
+    log.info({ jobId: job.id, type: job.type }, 'Job completed');
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    // Unknown job types and permanent failures are not retried
+    const retryAt =
+      isJobType(job.type) && !(error instanceof PermanentJobError) && job.attempts < job.max_attempts
+        ? new Date(Date.now() + getRetryDelay(job.attempts))
+        : null;
+
+    await repository.failJob(job.id, message, retryAt);
+    log.warn(
+      { jobId: job.id, type: job.type, attempts: job.attempts, retryAt, err: message },
+      retryAt ? 'Job failed, will retry' : 'Job failed permanently'
+    );
+  }
+}
+
+async function tick(log: FastifyBaseLogger): Promise<void> {
+  try {
+    await repository.releaseStaleJobs(config.jobs.staleAfterMs);
+    await runMaintenance(log);
+
+    const enqueued = await repository.enqueueDueSchedules(config.jobs.maxAttempts);
+    if (enqueued > 0) {
+      log.info({ enqueued }, 'Enqueued scheduled scans');
+    }
+
+    // Drain the queue, checking for shutdown between jobs
+    let job: Job | null;
+    while (!stopping && (job = await repository.claimNextJob())) {
+      await runJob(job, log);
+    }
+  } catch (error) {
+    log.error(error, 'Job worker tick failed');
+  }
+}
+
+function scheduleNextTick(log: FastifyBaseLogger): void {
+  if (stopping) {
+    return;
+  }
+
+  timer = setTimeout(() => {
+    currentTick = tick(log).finally(() => {
+      currentTick = null;
+      scheduleNextTick(log);
+    });
+  }, config.jobs.pollIntervalMs);
+}
+
+/**
+ * Start the in-process job worker
+ */
+export function startWorker(log: FastifyBaseLogger): void {
+  if (!config.jobs.enabled || timer || currentTick) {
+    return;
+  }
+
+  stopping = false;
+  currentTick = tick(log).finally(() => {
+    currentTick = null;
+    scheduleNextTick(log);
+  });
+  log.info('Job worker started');
+}
+
+/**
+ * Stop polling and wait for the job in progress to finish
+ */
+export async function stopWorker(): Promise<void> {
+  stopping = true;
+
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+
+  if (currentTick) {
+    await currentTick;
+  }
+}
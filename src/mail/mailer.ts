@@ -0,0 +1,65 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from '../config/env.js';
+import { createSmtpMailer } from './smtp.js';
+
+/**
+ * A plain-text email
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Outgoing mail transport.
+ * Swap the SMTP implementation for a file or in-memory one in development and tests.
+ */
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Keep sent messages in memory (for tests)
+ */
+export function createMemoryMailer(): Mailer & { messages: MailMessage[] } {
+  const messages: MailMessage[] = [];
+
+  return {
+    messages,
+    async send(message: MailMessage): Promise<void> {
+      messages.push(message);
+    },
+  };
+}
+
+/**
+ * Write each message to a file in a directory (for local development)
+ */
+export function createFileMailer(directory: string): Mailer {
+  return {
+    async send(message: MailMessage): Promise<void> {
+      await fs.mkdir(directory, { recursive: true });
+
+      const fileName = `${Date.now()}-${message.to.replace(/[^a-z0-9@._-]/gi, '_')}.txt`;
+      const contents = `To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`;
+
+      await fs.writeFile(path.join(directory, fileName), contents, 'utf8');
+    },
+  };
+}
+
+/**
+ * Create the mailer selected by MAIL_TRANSPORT
+ */
+export function createMailer(): Mailer {
+  switch (config.mail.transport) {
+    case 'smtp':
+      return createSmtpMailer(config.mail.smtp, config.mail.from);
+    case 'memory':
+      return createMemoryMailer();
+    default:
+      return createFileMailer(config.mail.fileDirectory);
+  }
+}
@@ -0,0 +1,240 @@
+import crypto from 'crypto';
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+import type { Mailer, MailMessage } from './mailer.js';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // Implicit TLS (port 465); otherwise STARTTLS is used when the server offers it
+  secure: boolean;
+  user: string;
+  password: string;
+  // Send credentials over an unencrypted connection when the server offers no STARTTLS
+  allowInsecureAuth: boolean;
+  timeoutMs: number;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+export class SmtpError extends Error {}
+
+/**
+ * Minimal SMTP connection: sends commands and reads (possibly multi-line) replies
+ */
+function openConnection(options: SmtpOptions) {
+  let socket: net.Socket;
+  let buffer = '';
+  let pending: string[] = [];
+  let waiter: ((reply: SmtpReply) => void) | null = null;
+  let failure: ((error: Error) => void) | null = null;
+  // Set once the connection fails or closes; pending and later reads reject with it
+  let closedError: Error | null = null;
+  const queued: SmtpReply[] = [];
+
+  function onData(chunk: Buffer) {
+    buffer += chunk.toString('utf8');
+
+    let index: number;
+    while ((index = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+      pending.push(line.slice(4));
+
+      // "250-..." continues the reply, "250 ..." ends it
+      if (line.charAt(3) !== '-') {
+        const reply = { code: parseInt(line.slice(0, 3), 10), lines: pending };
+        pending = [];
+
+        if (waiter) {
+          const resolve = waiter;
+          waiter = null;
+          failure = null;
+          resolve(reply);
+        } else {
+          queued.push(reply);
+        }
+      }
+    }
+  }
+
+  function onError(error: Error) {
+    closedError ??= error;
+
+    if (failure) {
+      const reject = failure;
+      waiter = null;
+      failure = null;
+      reject(closedError);
+    }
+  }
+
+  function onClose() {
+    onError(new SmtpError('SMTP connection closed unexpectedly'));
+  }
+
+  function attach(next: net.Socket) {
+    socket = next;
+    socket.setTimeout(options.timeoutMs, () => {
+      socket.destroy(new SmtpError('SMTP connection timed out'));
+    });
+    socket.on('data', onData);
+    socket.on('error', onError);
+    socket.on('end', onClose);
+    socket.on('close', onClose);
+  }
+
+  function detach() {
+    socket.off('data', onData);
+    socket.off('error', onError);
+    socket.off('end', onClose);
+    socket.off('close', onClose);
+  }
+
+  function read(): Promise<SmtpReply> {
+    const reply = queued.shift();
+    if (reply) {
+      return Promise.resolve(reply);
+    }
+
+    if (closedError) {
+      return Promise.reject(closedError);
+    }
+
+    return new Promise((resolve, reject) => {
+      waiter = resolve;
+      failure = reject;
+    });
+  }
+
+  async function command(line: string | null, expected: number[]): Promise<SmtpReply> {
+    if (line !== null) {
+      socket.write(`${line}\r\n`);
+    }
+
+    const reply = await read();
+    if (!expected.includes(reply.code)) {
+      throw new SmtpError(`SMTP ${line?.split(' ')[0] ?? 'greeting'} failed: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+
+    return reply;
+  }
+
+  function connect(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onConnect = () => {
+        next.off('error', reject);
+        resolve();
+      };
+      const next = options.secure
+        ? tls.connect({ host: options.host, port: options.port, servername: options.host }, onConnect)
+        : net.connect({ host: options.host, port: options.port }, onConnect);
+
+      next.once('error', reject);
+      attach(next);
+    });
+  }
+
+  function upgrade(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      detach();
+
+      const next = tls.connect({ socket, servername: options.host }, () => {
+        next.off('error', reject);
+        resolve();
+      });
+
+      next.once('error', reject);
+      attach(next);
+    });
+  }
+
+  function write(data: string) {
+    socket.write(data);
+  }
+
+  function close() {
+    detach();
+    // Errors while closing don't matter once the message is sent (or has failed)
+    socket.on('error', () => undefined);
+    socket.end();
+  }
+
+  return { connect, upgrade, command, write, close };
+}
+
+function encodeHeader(value: string): string {
+  // RFC 2047 encoded-word for non-ASCII subjects
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function buildMessage(from: string, message: MailMessage): string {
+  const domain = from.split('@')[1]?.replace(/>$/, '') || os.hostname();
+  const body = Buffer.from(message.text, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body,
+  ].join('\r\n');
+}
+
+/**
+ * Send mail through an SMTP server (one connection per message)
+ */
+export function createSmtpMailer(options: SmtpOptions, from: string): Mailer {
+  const envelopeFrom = from.match(/<([^>]+)>/)?.[1] ?? from;
+
+  return {
+    async send(message: MailMessage): Promise<void> {
+      const connection = openConnection(options);
+
+      await connection.connect();
+      try {
+        await connection.command(null, [220]);
+        const ehlo = await connection.command(`EHLO ${os.hostname()}`, [250]);
+
+        let encrypted = options.secure;
+        if (!encrypted && ehlo.lines.some((line) => /^STARTTLS\b/i.test(line))) {
+          await connection.command('STARTTLS', [220]);
+          await connection.upgrade();
+          await connection.command(`EHLO ${os.hostname()}`, [250]);
+          encrypted = true;
+        }
+
+        // A missing STARTTLS may mean it was stripped in transit
+        if (options.user && !encrypted && !options.allowInsecureAuth) {
+          throw new SmtpError('SMTP server does not offer STARTTLS; refusing to send credentials unencrypted');
+        }
+
+        if (options.user) {
+          const credentials = Buffer.from(`\0${options.user}\0${options.password}`, 'utf8').toString('base64');
+          await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+        }
+
+        await connection.command(`MAIL FROM:<${envelopeFrom}>`, [250]);
+        await connection.command(`RCPT TO:<${message.to}>`, [250, 251]);
+        await connection.command('DATA', [354]);
+
+        // Dot-stuffing: lines starting with "." get an extra one
+        connection.write(`${buildMessage(from, message).replace(/^\./gm, '..')}\r\n`);
+        await connection.command('.', [250]);
+
+        await connection.command('QUIT', [221]);
+      } finally {
+        connection.close();
+      }
+    },
+  };
+}
@@ -0,0 +1,37 @@
+import { config } from '../config/env.js';
+import type { MailMessage } from './mailer.js';
+
+function buildLink(path: string, token: string): string {
+  return `${config.mail.appUrl.replace(/\/$/, '')}${path}?token=${encodeURIComponent(token)}`;
+}
+
+export function verificationEmail(to: string, token: string): MailMessage {
+  return {
+    to,
+    subject: 'Verify your email address',
+    text: [
+      'Welcome to Charity Compliance Checker.',
+      '',
+      'Please confirm your email address by opening the link below:',
+      buildLink('/verify-email', token),
+      '',
+      `This link expires in ${config.auth.emailVerificationExpiryHours} hours.`,
+    ].join('\n'),
+  };
+}
+
+export function passwordResetEmail(to: string, token: string): MailMessage {
+  return {
+    to,
+    subject: 'Reset your password',
+    text: [
+      'We received a request to reset your Charity Compliance Checker password.',
+      '',
+      'Choose a new password by opening the link below:',
+      buildLink('/reset-password', token),
+      '',
+      `This link expires in ${config.auth.passwordResetExpiryMinutes} minutes.`,
+      'If you did not request a reset, you can ignore this email.',
+    ].join('\n'),
+  };
+}
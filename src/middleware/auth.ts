@@ -1,22 +1,26 @@
 import type { FastifyRequest, FastifyReply } from 'fastify';
 import { verifyAccessToken } from '../config/jwt.js';
 import type { JWTPayload } from '../config/jwt.js';
+import type { Permission } from '../config/roles.js';
+import { resolveRole, isAllowed } from '../utils/access.js';
+import { parseApiKey, verifyApiKeySecret } from '../utils/apiKeys.js';
+import { config } from '../config/env.js';
+import * as repository from '../db/repository.js';
+import type { ApiKeyScope, Role } from '../types/index.js';
 
 // Extend FastifyRequest to include user
 declare module 'fastify' {
   interface FastifyRequest {
     user?: JWTPayload;
+    // Role in the current workspace, set by requirePermission
+    role?: Role;
   }
 }
 
 /**
- * Authentication middleware
- * Verifies JWT token and attaches user to request
+ * Verify the Bearer access token and attach its user to the request
  */
-export async function authenticateToken(
-  request: FastifyRequest,
-  reply: FastifyReply
-): Promise<void> {
+async function authenticateBearer(request: FastifyRequest, reply: FastifyReply): Promise<void> {
   const authHeader = request.headers.authorization;
 
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
@@ -40,6 +44,72 @@ export async function authenticateToken(
   request.user = payload;
 }
 
+/**
+ * Authentication middleware
+ * Accepts a Bearer access token or an X-API-Key header and attaches the user to the request.
+ * API key requests carry the key's scopes in request.user and only pass permission checks
+ * their scopes allow, so routes without a permission check should use authenticateUser.
+ */
+export async function authenticateToken(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> {
+  const apiKeyHeader = request.headers['x-api-key'];
+
+  if (typeof apiKeyHeader !== 'string' || request.headers.authorization) {
+    return authenticateBearer(request, reply);
+  }
+
+  const parsed = parseApiKey(apiKeyHeader);
+  const apiKey = parsed ? await repository.findApiKeyByPrefix(parsed.prefix) : null;
+
+  if (!parsed || !apiKey || !verifyApiKeySecret(parsed.secret, apiKey.secret_hash)) {
+    return reply.status(401).send({
+      error: 'Unauthorized',
+      message: 'Invalid or expired API key',
+    });
+  }
+
+  await repository.touchApiKey(apiKey.id);
+
+  // The key acts as its owner in the key's workspace; the role is resolved per request
+  request.user = {
+    userId: apiKey.user_id,
+    email: apiKey.email,
+    orgId: apiKey.organization_id,
+    apiKeyId: apiKey.id,
+    scopes: apiKey.scopes,
+  };
+}
+
+/**
+ * User authentication middleware (access tokens only, no API keys)
+ * For account management routes that API key scopes don't cover
+ */
+export async function authenticateUser(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> {
+  return authenticateBearer(request, reply);
+}
+
+/**
+ * API key scope middleware (use after authenticateToken)
+ * For routes without a role-based permission check; access tokens always pass
+ */
+export function requireScope(scope: ApiKeyScope) {
+  return async function (request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    const scopes = request.user?.scopes;
+
+    if (scopes && !scopes.includes(scope)) {
+      return reply.status(403).send({
+        error: 'Forbidden',
+        message: `API key is missing scope: ${scope}`,
+      });
+    }
+  };
+}
+
 /**
  * Optional authentication middleware
  * Verifies token if present but doesn't fail if missing
@@ -59,3 +129,66 @@ export async function optionalAuth(
     }
   }
 }
+
+/**
+ * Permission middleware (use after authenticateToken)
+ * Checks the user's role in their current workspace, e.g.
+ * { preHandler: [authenticateToken, requirePermission('reports:delete')] }
+ */
+export function requirePermission(permission: Permission) {
+  return async function (request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    if (!request.user) {
+      return reply.status(401).send({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+    }
+
+    const role = await resolveRole(request.user, request.user.orgId ?? null);
+
+    if (!role) {
+      return reply.status(403).send({
+        error: 'Forbidden',
+        message: 'Not a member of the current organization',
+      });
+    }
+
+    if (!isAllowed(request.user, role, permission)) {
+      return reply.status(403).send({
+        error: 'Forbidden',
+        message: `Missing permission: ${permission}`,
+      });
+    }
+
+    request.role = role;
+  };
+}
+
+/**
+ * Verified-email middleware (use after authenticateToken)
+ * Only enforced when AUTH_REQUIRE_VERIFIED_EMAIL is enabled
+ */
+export async function requireVerifiedEmail(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> {
+  if (!config.auth.requireVerifiedEmail) {
+    return;
+  }
+
+  if (!request.user) {
+    return reply.status(401).send({
+      error: 'Unauthorized',
+      message: 'Authentication required',
+    });
+  }
+
+  const user = await repository.findUserById(request.user.userId);
+
+  if (!user?.is_verified) {
+    return reply.status(403).send({
+      error: 'Forbidden',
+      message: 'Email address not verified',
+    });
+  }
+}
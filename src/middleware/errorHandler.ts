@@ -0,0 +1,56 @@
+import type { FastifyError, FastifyRequest, FastifyReply } from 'fastify';
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+/**
+ * Convert Ajv validation errors into field-level problems,
+ * e.g. { field: 'body.report.overallScore', message: 'must be <= 100' }
+ */
+function toFieldErrors(error: FastifyError): FieldError[] {
+  const context = error.validationContext ?? 'request';
+
+  return (error.validation ?? []).map((issue) => {
+    const path = issue.instancePath.split('/').filter(Boolean);
+    const missing = (issue.params as { missingProperty?: string }).missingProperty;
+    if (missing) {
+      path.push(missing);
+    }
+
+    return {
+      field: [context, ...path].join('.'),
+      message: issue.message ?? 'is invalid',
+    };
+  });
+}
+
+/**
+ * Global error handler
+ * Returns a uniform 400 shape for schema validation failures
+ */
+export async function errorHandler(
+  error: FastifyError,
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> {
+  if (error.validation) {
+    return reply.status(400).send({
+      error: 'Validation failed',
+      details: toFieldErrors(error),
+    });
+  }
+
+  const statusCode = error.statusCode && error.statusCode >= 400 ? error.statusCode : 500;
+  if (statusCode >= 500) {
+    request.log.error(error);
+    return reply.status(statusCode).send({
+      error: 'Internal server error',
+    });
+  }
+
+  return reply.status(statusCode).send({
+    error: error.message,
+  });
+}
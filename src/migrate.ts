@@ -0,0 +1,113 @@
+import pg from 'pg';
+import path from 'path';
+import { config } from './config/env.js';
+import {
+  MigrationError,
+  createMigration,
+  formatVersion,
+  getMigrationStatus,
+  migrateDown,
+  migrateUp,
+} from './db/migrator.js';
+
+/**
+ * Migration CLI:
+ *   migrate                apply pending migrations (same as `migrate up`)
+ *   migrate up [version]   apply pending migrations (optionally only up to a version)
+ *   migrate down [steps]   revert the last applied migration(s), default 1
+ *   migrate status         list applied and pending migrations
+ *   migrate create <name>  add empty up/down files for the next version
+ */
+
+const USAGE = 'Usage: migrate [up [version] | down [steps] | status | create <name>]';
+
+function parsePositiveInt(value: string | undefined, label: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new MigrationError(`${label} must be a positive integer`);
+  }
+  return parsed;
+}
+
+async function withClient<T>(fn: (client: pg.Client) => Promise<T>): Promise<T> {
+  const client = new pg.Client({
+    host: config.database.host,
+    port: config.database.port,
+    database: config.database.name,
+    user: config.database.user,
+    password: config.database.password,
+  });
+
+  await client.connect();
+  try {
+    return await fn(client);
+  } finally {
+    await client.end();
+  }
+}
+
+async function run(command: string, arg: string | undefined): Promise<void> {
+  switch (command) {
+    case 'up': {
+      const target = parsePositiveInt(arg, 'Version');
+      const applied = await withClient((client) => migrateUp(client, { target }));
+      if (applied.length === 0) {
+        console.log('Database is up to date');
+      }
+      for (const migration of applied) {
+        console.log(`✓ Applied ${formatVersion(migration.version)}_${migration.name}`);
+      }
+      return;
+    }
+
+    case 'down': {
+      const steps = parsePositiveInt(arg, 'Steps');
+      const reverted = await withClient((client) => migrateDown(client, { steps }));
+      if (reverted.length === 0) {
+        console.log('No migrations to revert');
+      }
+      for (const migration of reverted) {
+        console.log(`✓ Reverted ${formatVersion(migration.version)}_${migration.name}`);
+      }
+      return;
+    }
+
+    case 'status': {
+      const statuses = await withClient((client) => getMigrationStatus(client));
+      for (const status of statuses) {
+        const state = status.appliedAt ? `applied ${status.appliedAt.toISOString()}` : 'pending';
+        const warning = status.missing ? ' (file missing)' : status.modified ? ' (modified since applied)' : '';
+        console.log(`${formatVersion(status.version)}_${status.name}  ${state}${warning}`);
+      }
+      return;
+    }
+
+    case 'create': {
+      if (!arg) {
+        throw new MigrationError('Usage: migrate create <name>');
+      }
+      const { upPath, downPath } = createMigration(arg);
+      console.log(`Created ${path.relative(process.cwd(), upPath)}`);
+      console.log(`Created ${path.relative(process.cwd(), downPath)}`);
+      return;
+    }
+
+    default:
+      throw new MigrationError(USAGE);
+  }
+}
+
+// No command applies pending migrations, as `npm run migrate` always has
+const [command = 'up', arg] = process.argv.slice(2);
+
+run(command, arg).catch((error) => {
+  if (error instanceof MigrationError) {
+    console.error(`✗ ${error.message}`);
+  } else {
+    console.error('Migration error:', error);
+  }
+  process.exit(1);
+});
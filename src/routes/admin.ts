@@ -0,0 +1,68 @@
+import type { FastifyInstance } from 'fastify';
+import * as repository from '../db/repository.js';
+import { authenticateToken, requirePermission } from '../middleware/auth.js';
+import { unlockUserSchema, getSecurityEventsSchema } from '../schemas/admin.js';
+import type { GetSecurityEventsQuery, IdParams } from '../types/index.js';
+
+/**
+ * System administration routes (superadmin only)
+ */
+export async function adminRoutes(fastify: FastifyInstance) {
+  // Lift a login lockout on an account
+  fastify.post<{ Params: IdParams }>(
+    '/admin/users/:id/unlock',
+    { preHandler: [authenticateToken, requirePermission('users:manage')], schema: unlockUserSchema },
+    async (request, reply) => {
+      try {
+        const { id: userId } = request.params;
+
+        const user = await repository.findUserById(userId);
+        if (!user) {
+          return reply.status(404).send({
+            error: 'User not found',
+          });
+        }
+
+        const clearedAttempts = await repository.clearLoginFailures(user.email);
+
+        await repository.createSecurityEvent({
+          type: 'account_unlocked',
+          userId: user.id,
+          email: user.email,
+          ipAddress: request.ip,
+          details: { unlockedBy: request.user!.userId, clearedAttempts },
+        });
+
+        return reply.send({
+          success: true,
+          message: 'Account unlocked',
+        });
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to unlock account',
+        });
+      }
+    }
+  );
+
+  // Security audit log (lockouts and unlocks), newest first
+  fastify.get<{ Querystring: GetSecurityEventsQuery }>(
+    '/admin/security-events',
+    { preHandler: [authenticateToken, requirePermission('users:manage')], schema: getSecurityEventsSchema },
+    async (request, reply) => {
+      try {
+        const { limit, offset, userId = null } = request.query;
+
+        const result = await repository.getSecurityEvents(limit, offset, userId);
+
+        return reply.send(result);
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to fetch security events',
+        });
+      }
+    }
+  );
+}
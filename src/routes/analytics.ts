@@ -0,0 +1,45 @@
+import type { FastifyInstance } from 'fastify';
+import * as repository from '../db/repository.js';
+import { authenticateToken, requirePermission } from '../middleware/auth.js';
+import { getAnalyticsSchema } from '../schemas/analytics.js';
+import type { AnalyticsResponse, AnalyticsScope, GetAnalyticsQuery } from '../types/index.js';
+
+/**
+ * Analytics routes (protected with authentication)
+ */
+export async function analyticsRoutes(fastify: FastifyInstance) {
+  // Score trend, status counts, failing checks and regressions for the workspace's reports
+  fastify.get<{ Querystring: GetAnalyticsQuery }>(
+    '/analytics',
+    { preHandler: [authenticateToken, requirePermission('reports:read')], schema: getAnalyticsSchema },
+    async (request, reply) => {
+      try {
+        const { bucket, from, to, limit } = request.query;
+        const { userId, orgId = null } = request.user!;
+
+        if (from && to && new Date(from) > new Date(to)) {
+          return reply.status(400).send({
+            error: 'from must not be after to',
+          });
+        }
+
+        const scope: AnalyticsScope = { userId, organizationId: orgId, from, to };
+        const [scoreTrend, statusDistribution, failingChecks, regressions] = await Promise.all([
+          repository.getScoreTrend(scope, bucket),
+          repository.getStatusDistribution(scope),
+          repository.getFailingChecks(scope, limit),
+          repository.getScoreRegressions(scope, limit),
+        ]);
+
+        const response: AnalyticsResponse = { scoreTrend, statusDistribution, failingChecks, regressions };
+
+        return reply.send(response);
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to fetch analytics',
+        });
+      }
+    }
+  );
+}
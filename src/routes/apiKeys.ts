@@ -0,0 +1,116 @@
+import type { FastifyInstance } from 'fastify';
+import * as repository from '../db/repository.js';
+import { authenticateUser } from '../middleware/auth.js';
+import { resolveRole } from '../utils/access.js';
+import { generateApiKey } from '../utils/apiKeys.js';
+import { createApiKeySchema, getApiKeysSchema, deleteApiKeySchema } from '../schemas/apiKeys.js';
+import type {
+  CreateApiKeyRequest,
+  CreateApiKeyResponse,
+  GetApiKeysResponse,
+  IdParams,
+} from '../types/index.js';
+
+/**
+ * API key management routes (access tokens only; an API key can't manage keys)
+ */
+export async function apiKeyRoutes(fastify: FastifyInstance) {
+  // Create a key for the current workspace; the full key is only returned here
+  fastify.post<{ Body: CreateApiKeyRequest }>(
+    '/api-keys',
+    { preHandler: authenticateUser, schema: createApiKeySchema },
+    async (request, reply) => {
+      try {
+        const { name, scopes, expiresInDays } = request.body;
+        const { userId, orgId = null } = request.user!;
+
+        // Keys never exceed their owner's role, which is re-checked on every request
+        const role = await resolveRole(request.user!, orgId);
+        if (!role) {
+          return reply.status(403).send({
+            error: 'Not a member of the current organization',
+          });
+        }
+
+        let expiresAt: Date | null = null;
+        if (expiresInDays !== undefined) {
+          expiresAt = new Date();
+          expiresAt.setDate(expiresAt.getDate() + expiresInDays);
+        }
+
+        const { key, prefix, secretHash } = generateApiKey();
+        const apiKey = await repository.createApiKey(
+          userId,
+          orgId,
+          name.trim(),
+          prefix,
+          secretHash,
+          scopes,
+          expiresAt
+        );
+
+        const response: CreateApiKeyResponse = { apiKey, key };
+
+        return reply.status(201).send(response);
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to create API key',
+        });
+      }
+    }
+  );
+
+  // List the user's keys (all workspaces)
+  fastify.get(
+    '/api-keys',
+    { preHandler: authenticateUser, schema: getApiKeysSchema },
+    async (request, reply) => {
+      try {
+        const userId = request.user!.userId;
+
+        const response: GetApiKeysResponse = {
+          apiKeys: await repository.getApiKeysByUser(userId),
+        };
+
+        return reply.send(response);
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to fetch API keys',
+        });
+      }
+    }
+  );
+
+  // Revoke a key
+  fastify.delete<{ Params: IdParams }>(
+    '/api-keys/:id',
+    { preHandler: authenticateUser, schema: deleteApiKeySchema },
+    async (request, reply) => {
+      try {
+        const { id: keyId } = request.params;
+        const userId = request.user!.userId;
+
+        // Ownership is verified in the query
+        const deleted = await repository.deleteApiKey(keyId, userId);
+
+        if (!deleted) {
+          return reply.status(404).send({
+            error: 'API key not found',
+          });
+        }
+
+        return reply.send({
+          success: true,
+          message: 'API key revoked',
+        });
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to revoke API key',
+        });
+      }
+    }
+  );
+}
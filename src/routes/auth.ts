@@ -1,36 +1,170 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import * as repository from '../db/repository.js';
-import { hashPassword, comparePassword, isValidPassword, isValidEmail } from '../utils/password.js';
+import { withTransaction } from '../db/connection.js';
+import type { Executor } from '../db/connection.js';
+import {
+  hashPassword,
+  comparePassword,
+  compareDummyPassword,
+  isValidPassword,
+  isValidEmail,
+} from '../utils/password.js';
+import { checkEmailRequestAllowed } from '../utils/emailThrottle.js';
+import { checkLoginAllowed, recordLoginFailure, recordLoginSuccess } from '../utils/loginThrottle.js';
+import { buildTokenPayload } from '../utils/access.js';
+import { generateToken, hashToken } from '../utils/tokens.js';
+import { config } from '../config/env.js';
+import { createMailer } from '../mail/mailer.js';
+import type { Mailer } from '../mail/mailer.js';
+import { verificationEmail, passwordResetEmail } from '../mail/templates.js';
+import { generateRecoveryCodes, verifyMfaCode } from '../utils/mfa.js';
+import { generateTotpSecret, buildProvisioningUri } from '../utils/totp.js';
 import {
   generateAccessToken,
   generateRefreshToken,
   getRefreshTokenExpiry,
+  generateMfaToken,
+  verifyMfaToken,
 } from '../config/jwt.js';
+import {
+  registerSchema,
+  loginSchema,
+  refreshSchema,
+  logoutSchema,
+  logoutAllSchema,
+  getSessionsSchema,
+  deleteSessionSchema,
+  verifyEmailSchema,
+  resendVerificationSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  mfaLoginSchema,
+  getMfaStatusSchema,
+  setupMfaSchema,
+  enableMfaSchema,
+  disableMfaSchema,
+  regenerateRecoveryCodesSchema,
+  getOidcProvidersSchema,
+  oidcAuthorizeSchema,
+  oidcCallbackSchema,
+} from '../schemas/auth.js';
+import { OidcError, getOidcProvider, createAuthorizationRequest, exchangeCode } from '../utils/oidc.js';
+import { authenticateUser } from '../middleware/auth.js';
 import type {
   RegisterRequest,
   LoginRequest,
   RefreshTokenRequest,
   AuthResponse,
+  RefreshTokenResponse,
+  GetSessionsResponse,
+  IdParams,
+  SessionMetadata,
+  User,
+  EmailTokenPurpose,
+  VerifyEmailRequest,
+  EmailRequest,
+  ResetPasswordRequest,
+  MfaChallengeResponse,
+  MfaLoginRequest,
+  MfaCodeRequest,
+  DisableMfaRequest,
+  MfaSetupResponse,
+  MfaStatusResponse,
+  RecoveryCodesResponse,
+  OidcProvidersResponse,
+  OidcAuthorizeResponse,
+  OidcCallbackRequest,
 } from '../types/index.js';
 
+export interface AuthRoutesOptions {
+  mailer?: Mailer;
+}
+
+/**
+ * Client details stored with a new session
+ */
+function getSessionMetadata(request: FastifyRequest): SessionMetadata {
+  return {
+    userAgent: request.headers['user-agent']?.slice(0, 512) ?? null,
+    ipAddress: request.ip ?? null,
+  };
+}
+
+/**
+ * Sign the user in: issue an access token and a new refresh token session
+ * (stored through `db` when given, e.g. as part of a transaction)
+ */
+async function createSession(request: FastifyRequest, user: User, db?: Executor): Promise<AuthResponse> {
+  const accessToken = generateAccessToken(await buildTokenPayload(user));
+  const refreshToken = generateRefreshToken();
+
+  await repository.createRefreshToken(
+    user.id,
+    hashToken(refreshToken),
+    getRefreshTokenExpiry(),
+    getSessionMetadata(request),
+    undefined,
+    db
+  );
+
+  return {
+    accessToken,
+    refreshToken,
+    user: {
+      id: user.id,
+      email: user.email,
+      fullName: user.full_name,
+      emailVerified: user.is_verified,
+    },
+  };
+}
+
+/**
+ * Refuse a password or code check while the email or client IP is locked out
+ */
+function sendLockedOut(reply: FastifyReply, retryAfterSeconds: number): FastifyReply {
+  return reply
+    .status(429)
+    .header('Retry-After', String(retryAfterSeconds))
+    .send({
+      error: 'Too many failed login attempts, try again later',
+    });
+}
+
+/**
+ * Issue a single-use email token and mail the link to the user
+ */
+async function sendEmailToken(mailer: Mailer, user: User, purpose: EmailTokenPurpose): Promise<void> {
+  const token = generateToken();
+  const expiresAt = new Date();
+
+  if (purpose === 'verify_email') {
+    expiresAt.setHours(expiresAt.getHours() + config.auth.emailVerificationExpiryHours);
+  } else {
+    expiresAt.setMinutes(expiresAt.getMinutes() + config.auth.passwordResetExpiryMinutes);
+  }
+
+  await repository.createEmailToken(user.id, purpose, hashToken(token), expiresAt);
+
+  await mailer.send(
+    purpose === 'verify_email' ? verificationEmail(user.email, token) : passwordResetEmail(user.email, token)
+  );
+}
+
 /**
  * Authentication routes
  */
-export async function authRoutes(fastify: FastifyInstance) {
+export async function authRoutes(fastify: FastifyInstance, options: AuthRoutesOptions) {
+  const mailer = options.mailer ?? createMailer();
+
   // Register new user
   fastify.post<{ Body: RegisterRequest }>(
     '/auth/register',
+    { schema: registerSchema },
     async (request: FastifyRequest<{ Body: RegisterRequest }>, reply: FastifyReply) => {
       try {
         const { email, password, fullName } = request.body;
 
-        // Validate input
-        if (!email || !password) {
-          return reply.status(400).send({
-            error: 'Email and password are required',
-          });
-        }
-
         // Validate email format
         if (!isValidEmail(email)) {
           return reply.status(400).send({
@@ -58,33 +192,31 @@ export async function authRoutes(fastify: FastifyInstance) {
         // Hash password
         const passwordHash = await hashPassword(password);
 
-        // Create user
-        const user = await repository.createUser(
-          email.toLowerCase(),
-          passwordHash,
-          fullName
-        );
-
-        // Generate tokens
-        const accessToken = generateAccessToken({
-          userId: user.id,
-          email: user.email,
-        });
-        const refreshToken = generateRefreshToken();
-        const refreshExpiry = getRefreshTokenExpiry();
-
-        // Save refresh token
-        await repository.createRefreshToken(user.id, refreshToken, refreshExpiry);
+        // Create the user and their first session together, so a failure can't leave
+        // an account the client never received tokens for
+        let user: User;
+        let response: AuthResponse;
+        try {
+          ({ user, response } = await withTransaction(async (client) => {
+            const user = await repository.createUser(email.toLowerCase(), passwordHash, fullName, client);
+            return { user, response: await createSession(request, user, client) };
+          }));
+        } catch (error) {
+          // Unique violation: registered concurrently with the same email
+          if ((error as { code?: string }).code === '23505') {
+            return reply.status(409).send({
+              error: 'User with this email already exists',
+            });
+          }
+          throw error;
+        }
 
-        const response: AuthResponse = {
-          accessToken,
-          refreshToken,
-          user: {
-            id: user.id,
-            email: user.email,
-            fullName: user.full_name,
-          },
-        };
+        // A mail failure shouldn't fail registration; the user can ask for a new link
+        try {
+          await sendEmailToken(mailer, user, 'verify_email');
+        } catch (error) {
+          fastify.log.error(error, 'Failed to send verification email');
+        }
 
         return reply.status(201).send(response);
       } catch (error) {
@@ -99,54 +231,247 @@ export async function authRoutes(fastify: FastifyInstance) {
   // Login
   fastify.post<{ Body: LoginRequest }>(
     '/auth/login',
+    { schema: loginSchema },
     async (request: FastifyRequest<{ Body: LoginRequest }>, reply: FastifyReply) => {
       try {
-        const { email, password } = request.body;
+        const { password } = request.body;
+        const email = request.body.email.toLowerCase();
 
-        // Validate input
-        if (!email || !password) {
-          return reply.status(400).send({
-            error: 'Email and password are required',
-          });
+        // Refuse while the email or client IP is locked out, without checking the password
+        const check = await checkLoginAllowed(email, request.ip);
+        if (!check.allowed) {
+          return sendLockedOut(reply, check.retryAfterSeconds);
         }
 
         // Find user
-        const user = await repository.findUserByEmail(email.toLowerCase());
-        if (!user) {
+        const user = await repository.findUserByEmail(email);
+
+        // Verify password (unknown emails still pay for a bcrypt comparison, so timing
+        // doesn't reveal which emails have accounts)
+        const passwordValid = user
+          ? await comparePassword(password, user.password_hash)
+          : await compareDummyPassword(password);
+
+        if (!user || !passwordValid) {
+          await recordLoginFailure(email, request.ip, user?.id ?? null);
           return reply.status(401).send({
             error: 'Invalid email or password',
           });
         }
 
-        // Verify password
-        const passwordValid = await comparePassword(password, user.password_hash);
-        if (!passwordValid) {
+        // With 2FA enabled the password only earns a short-lived challenge token
+        if (user.totp_enabled) {
+          const challenge: MfaChallengeResponse = {
+            mfaRequired: true,
+            mfaToken: generateMfaToken(user.id),
+          };
+
+          return reply.send(challenge);
+        }
+
+        await recordLoginSuccess(email, request.ip, user.id);
+
+        const response = await createSession(request, user);
+
+        return reply.send(response);
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to login',
+        });
+      }
+    }
+  );
+
+  // Second login step: exchange the MFA challenge token and a TOTP or recovery code for tokens
+  fastify.post<{ Body: MfaLoginRequest }>(
+    '/auth/login/mfa',
+    { schema: mfaLoginSchema },
+    async (request, reply) => {
+      try {
+        const { mfaToken, code } = request.body;
+
+        const userId = verifyMfaToken(mfaToken);
+        const user = userId !== null ? await repository.findUserById(userId) : null;
+
+        if (!user || !user.totp_enabled) {
+          return reply.status(401).send({
+            error: 'Invalid or expired MFA token',
+          });
+        }
+
+        // Wrong codes count towards the same lockout as wrong passwords
+        const check = await checkLoginAllowed(user.email, request.ip);
+        if (!check.allowed) {
+          return sendLockedOut(reply, check.retryAfterSeconds);
+        }
+
+        if (!(await verifyMfaCode(user, code))) {
+          await recordLoginFailure(user.email, request.ip, user.id);
           return reply.status(401).send({
-            error: 'Invalid email or password',
+            error: 'Invalid authentication code',
           });
         }
 
-        // Generate tokens
-        const accessToken = generateAccessToken({
-          userId: user.id,
-          email: user.email,
+        await recordLoginSuccess(user.email, request.ip, user.id);
+
+        const response = await createSession(request, user);
+
+        return reply.send(response);
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to login',
         });
-        const refreshToken = generateRefreshToken();
-        const refreshExpiry = getRefreshTokenExpiry();
+      }
+    }
+  );
 
-        // Save refresh token
-        await repository.createRefreshToken(user.id, refreshToken, refreshExpiry);
+  // OpenID Connect providers that are configured, for showing sign-in buttons
+  fastify.get(
+    '/auth/oidc/providers',
+    { schema: getOidcProvidersSchema },
+    async (_request, reply) => {
+      const response: OidcProvidersResponse = {
+        providers: config.oidc.providers.map((provider) => provider.name),
+      };
 
-        const response: AuthResponse = {
-          accessToken,
-          refreshToken,
-          user: {
-            id: user.id,
-            email: user.email,
-            fullName: user.full_name,
-          },
+      return reply.send(response);
+    }
+  );
+
+  // Start an OpenID Connect login; the client sends the browser to authorizationUrl
+  fastify.post<{ Params: { provider: string } }>(
+    '/auth/oidc/:provider/authorize',
+    { schema: oidcAuthorizeSchema },
+    async (request, reply) => {
+      const provider = getOidcProvider(request.params.provider);
+      if (!provider) {
+        return reply.status(404).send({
+          error: 'Unknown login provider',
+        });
+      }
+
+      try {
+        const authorization = await createAuthorizationRequest(provider);
+
+        const expiresAt = new Date();
+        expiresAt.setMinutes(expiresAt.getMinutes() + config.oidc.stateExpiryMinutes);
+
+        await repository.createOidcLoginState(
+          hashToken(authorization.state),
+          provider.name,
+          authorization.nonce,
+          authorization.codeVerifier,
+          hashToken(authorization.clientNonce),
+          expiresAt
+        );
+
+        const response: OidcAuthorizeResponse = {
+          authorizationUrl: authorization.url,
+          clientNonce: authorization.clientNonce,
         };
 
+        return reply.send(response);
+      } catch (error) {
+        if (error instanceof OidcError) {
+          fastify.log.warn({ provider: provider.name, err: error }, 'OIDC discovery failed');
+          return reply.status(502).send({
+            error: 'Login provider is unavailable',
+          });
+        }
+
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to start login',
+        });
+      }
+    }
+  );
+
+  // Finish an OpenID Connect login with the code and state the provider redirected back with.
+  // The client nonce from /authorize ties the state to the client that started the login, so a
+  // code and state from someone else's login can't be replayed in another browser (login CSRF).
+  // Identities are linked to existing users by verified email.
+  fastify.post<{ Body: OidcCallbackRequest }>(
+    '/auth/oidc/callback',
+    { schema: oidcCallbackSchema },
+    async (request, reply) => {
+      try {
+        const { code, state, clientNonce } = request.body;
+
+        const loginState = await repository.consumeOidcLoginState(hashToken(state), hashToken(clientNonce));
+        const provider = loginState ? getOidcProvider(loginState.provider) : null;
+
+        if (!loginState || !provider) {
+          return reply.status(400).send({
+            error: 'Invalid or expired login state',
+          });
+        }
+
+        let identity;
+        try {
+          identity = await exchangeCode(provider, code, loginState.code_verifier, loginState.nonce);
+        } catch (error) {
+          if (error instanceof OidcError) {
+            fastify.log.warn({ provider: provider.name, err: error }, 'OIDC login failed');
+            return reply.status(401).send({
+              error: 'Login with the provider failed',
+            });
+          }
+          throw error;
+        }
+
+        let user = await repository.findUserByIdentity(provider.name, identity.subject);
+
+        if (!user) {
+          if (!identity.email || !identity.emailVerified) {
+            return reply.status(403).send({
+              error: 'The provider account has no verified email address',
+            });
+          }
+
+          const existingUser = await repository.findUserByEmail(identity.email);
+
+          if (existingUser) {
+            // An unverified account might not belong to the email's owner, so its credentials are reset
+            user = await repository.linkIdentity(
+              existingUser.id,
+              provider.name,
+              identity.subject,
+              identity.email,
+              existingUser.is_verified ? null : await hashPassword(generateToken())
+            );
+          } else if (config.oidc.allowSignup) {
+            // Random password: the user can set one with the password reset flow
+            user = await repository.createUserWithIdentity(
+              identity.email,
+              await hashPassword(generateToken()),
+              identity.name,
+              provider.name,
+              identity.subject
+            );
+          } else {
+            return reply.status(403).send({
+              error: 'No account exists for this email address',
+            });
+          }
+        }
+
+        // 2FA still applies to provider logins
+        if (user.totp_enabled) {
+          const challenge: MfaChallengeResponse = {
+            mfaRequired: true,
+            mfaToken: generateMfaToken(user.id),
+          };
+
+          return reply.send(challenge);
+        }
+
+        await recordLoginSuccess(user.email, request.ip, user.id);
+
+        const response = await createSession(request, user);
+
         return reply.send(response);
       } catch (error) {
         fastify.log.error(error);
@@ -160,19 +485,27 @@ export async function authRoutes(fastify: FastifyInstance) {
   // Refresh access token
   fastify.post<{ Body: RefreshTokenRequest }>(
     '/auth/refresh',
+    { schema: refreshSchema },
     async (request: FastifyRequest<{ Body: RefreshTokenRequest }>, reply: FastifyReply) => {
       try {
         const { refreshToken } = request.body;
 
-        if (!refreshToken) {
-          return reply.status(400).send({
-            error: 'Refresh token is required',
+        // Find refresh token
+        const storedToken = await repository.findRefreshToken(hashToken(refreshToken));
+        if (!storedToken) {
+          return reply.status(401).send({
+            error: 'Invalid or expired refresh token',
           });
         }
 
-        // Find refresh token
-        const storedToken = await repository.findRefreshToken(refreshToken);
-        if (!storedToken) {
+        // A revoked token being presented again means it was stolen or replayed:
+        // revoke the whole family so neither party can keep using it
+        if (storedToken.revoked_at) {
+          await repository.revokeRefreshTokenFamily(storedToken.family_id);
+          fastify.log.warn(
+            { userId: storedToken.user_id, familyId: storedToken.family_id },
+            'Refresh token reuse detected, session revoked'
+          );
           return reply.status(401).send({
             error: 'Invalid or expired refresh token',
           });
@@ -186,15 +519,40 @@ export async function authRoutes(fastify: FastifyInstance) {
           });
         }
 
-        // Generate new access token
-        const accessToken = generateAccessToken({
-          userId: user.id,
-          email: user.email,
+        // Rotate: revoke the presented token and issue its successor
+        const newRefreshToken = generateRefreshToken();
+        const rotated = await withTransaction(async (client) => {
+          const rotated = await repository.rotateRefreshToken(
+            storedToken,
+            hashToken(newRefreshToken),
+            getRefreshTokenExpiry(),
+            request.ip ?? null,
+            client
+          );
+
+          // Lost a race with another refresh of the same token
+          if (!rotated) {
+            await repository.revokeRefreshTokenFamily(storedToken.family_id, client);
+          }
+
+          return rotated;
         });
 
-        return reply.send({
+        if (!rotated) {
+          return reply.status(401).send({
+            error: 'Invalid or expired refresh token',
+          });
+        }
+
+        // Generate new access token
+        const accessToken = generateAccessToken(await buildTokenPayload(user));
+
+        const response: RefreshTokenResponse = {
           accessToken,
-        });
+          refreshToken: newRefreshToken,
+        };
+
+        return reply.send(response);
       } catch (error) {
         fastify.log.error(error);
         return reply.status(500).send({
@@ -207,62 +565,449 @@ export async function authRoutes(fastify: FastifyInstance) {
   // Logout
   fastify.post<{ Body: RefreshTokenRequest }>(
     '/auth/logout',
+    { schema: logoutSchema },
     async (request: FastifyRequest<{ Body: RefreshTokenRequest }>, reply: FastifyReply) => {
       try {
         const { refreshToken } = request.body;
 
-        if (!refreshToken) {
+        // Delete the session the refresh token belongs to
+        await repository.deleteRefreshToken(hashToken(refreshToken));
+
+        return reply.send({
+          success: true,
+          message: 'Logged out successfully',
+        });
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to logout',
+        });
+      }
+    }
+  );
+
+  // Logout from all devices (the caller's own sessions only)
+  fastify.post(
+    '/auth/logout-all',
+    { preHandler: authenticateUser, schema: logoutAllSchema },
+    async (request, reply) => {
+      try {
+        const userId = request.user!.userId;
+
+        // Delete all refresh tokens for user
+        await repository.deleteUserRefreshTokens(userId);
+
+        return reply.send({
+          success: true,
+          message: 'Logged out from all devices',
+        });
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to logout',
+        });
+      }
+    }
+  );
+
+  // List the caller's active sessions
+  fastify.get(
+    '/auth/sessions',
+    { preHandler: authenticateUser, schema: getSessionsSchema },
+    async (request, reply) => {
+      try {
+        const userId = request.user!.userId;
+
+        const response: GetSessionsResponse = {
+          sessions: await repository.getUserSessions(userId),
+        };
+
+        return reply.send(response);
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to fetch sessions',
+        });
+      }
+    }
+  );
+
+  // Revoke one of the caller's sessions
+  fastify.delete<{ Params: IdParams }>(
+    '/auth/sessions/:id',
+    { preHandler: authenticateUser, schema: deleteSessionSchema },
+    async (request, reply) => {
+      try {
+        const { id: sessionId } = request.params;
+        const userId = request.user!.userId;
+
+        // Ownership is verified in the query
+        const deleted = await repository.deleteUserSession(sessionId, userId);
+
+        if (!deleted) {
+          return reply.status(404).send({
+            error: 'Session not found',
+          });
+        }
+
+        return reply.send({
+          success: true,
+          message: 'Session revoked',
+        });
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to revoke session',
+        });
+      }
+    }
+  );
+
+  // Confirm an email address with the token from the verification email
+  fastify.post<{ Body: VerifyEmailRequest }>(
+    '/auth/verify-email',
+    { schema: verifyEmailSchema },
+    async (request, reply) => {
+      try {
+        const { token } = request.body;
+
+        const user = await repository.verifyEmail(hashToken(token));
+
+        if (!user) {
           return reply.status(400).send({
-            error: 'Refresh token is required',
+            error: 'Invalid or expired token',
           });
         }
 
-        // Delete refresh token
-        await repository.deleteRefreshToken(refreshToken);
+        return reply.send({
+          success: true,
+          message: 'Email address verified',
+        });
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to verify email',
+        });
+      }
+    }
+  );
+
+  // Look up the account and send the email after replying, so neither the response time
+  // nor a mail failure reveals whether the account exists
+  function sendEmailTokenInBackground(email: string, purpose: EmailTokenPurpose): void {
+    const task = async () => {
+      const user = await repository.findUserByEmail(email);
+      if (user && (purpose === 'reset_password' || !user.is_verified)) {
+        await sendEmailToken(mailer, user, purpose);
+      }
+    };
+
+    task().catch((error) => {
+      fastify.log.error(error, `Failed to send ${purpose} email`);
+    });
+  }
+
+  // Send a new verification email (same response whether or not the account exists)
+  fastify.post<{ Body: EmailRequest }>(
+    '/auth/resend-verification',
+    { schema: resendVerificationSchema },
+    async (request, reply) => {
+      try {
+        const email = request.body.email.toLowerCase();
+
+        const check = await checkEmailRequestAllowed(email, request.ip, 'verify_email');
+        if (!check.allowed) {
+          return reply
+            .status(429)
+            .header('Retry-After', String(check.retryAfterSeconds))
+            .send({
+              error: 'Too many email requests, try again later',
+            });
+        }
+
+        sendEmailTokenInBackground(email, 'verify_email');
 
         return reply.send({
           success: true,
-          message: 'Logged out successfully',
+          message: 'If the account exists and is unverified, a verification email has been sent',
         });
       } catch (error) {
         fastify.log.error(error);
         return reply.status(500).send({
-          error: 'Failed to logout',
+          error: 'Failed to send verification email',
+        });
+      }
+    }
+  );
+
+  // Send a password reset email (same response whether or not the account exists)
+  fastify.post<{ Body: EmailRequest }>(
+    '/auth/forgot-password',
+    { schema: forgotPasswordSchema },
+    async (request, reply) => {
+      try {
+        const email = request.body.email.toLowerCase();
+
+        const check = await checkEmailRequestAllowed(email, request.ip, 'reset_password');
+        if (!check.allowed) {
+          return reply
+            .status(429)
+            .header('Retry-After', String(check.retryAfterSeconds))
+            .send({
+              error: 'Too many email requests, try again later',
+            });
+        }
+
+        sendEmailTokenInBackground(email, 'reset_password');
+
+        return reply.send({
+          success: true,
+          message: 'If the account exists, a password reset email has been sent',
+        });
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to send password reset email',
+        });
+      }
+    }
+  );
+
+  // Set a new password with the token from the reset email; signs out all sessions
+  fastify.post<{ Body: ResetPasswordRequest }>(
+    '/auth/reset-password',
+    { schema: resetPasswordSchema },
+    async (request, reply) => {
+      try {
+        const { token, password } = request.body;
+
+        // Validate password strength
+        const passwordValidation = isValidPassword(password);
+        if (!passwordValidation.valid) {
+          return reply.status(400).send({
+            error: 'Password does not meet requirements',
+            details: passwordValidation.errors,
+          });
+        }
+
+        const passwordHash = await hashPassword(password);
+        const user = await repository.resetPassword(hashToken(token), passwordHash);
+
+        if (!user) {
+          return reply.status(400).send({
+            error: 'Invalid or expired token',
+          });
+        }
+
+        return reply.send({
+          success: true,
+          message: 'Password has been reset',
+        });
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to reset password',
         });
       }
     }
   );
 
-  // Logout from all devices
+  // Two-factor authentication status
+  fastify.get(
+    '/auth/mfa',
+    { preHandler: authenticateUser, schema: getMfaStatusSchema },
+    async (request, reply) => {
+      try {
+        const userId = request.user!.userId;
+        const user = await repository.findUserById(userId);
+
+        const response: MfaStatusResponse = {
+          enabled: user?.totp_enabled ?? false,
+          recoveryCodesRemaining: user?.totp_enabled ? await repository.countRecoveryCodes(userId) : 0,
+        };
+
+        return reply.send(response);
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to fetch 2FA status',
+        });
+      }
+    }
+  );
+
+  // Start 2FA enrolment: generate a secret for the authenticator app
   fastify.post(
-    '/auth/logout-all',
-    {
-      preHandler: async (_request, _reply) => {
-        // This would need auth middleware, but for simplicity, we'll accept userId in body
-        // In production, you'd use the authenticateToken middleware
-      },
-    },
-    async (request: FastifyRequest<{ Body: { userId: number } }>, reply: FastifyReply) => {
+    '/auth/mfa/setup',
+    { preHandler: authenticateUser, schema: setupMfaSchema },
+    async (request, reply) => {
+      try {
+        const user = await repository.findUserById(request.user!.userId);
+
+        if (!user) {
+          return reply.status(404).send({
+            error: 'User not found',
+          });
+        }
+
+        if (user.totp_enabled) {
+          return reply.status(409).send({
+            error: 'Two-factor authentication is already enabled',
+          });
+        }
+
+        const secret = generateTotpSecret();
+        await repository.setPendingTotpSecret(user.id, secret);
+
+        const response: MfaSetupResponse = {
+          secret,
+          otpauthUri: buildProvisioningUri(secret, user.email, config.auth.mfaIssuer),
+        };
+
+        return reply.send(response);
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to set up two-factor authentication',
+        });
+      }
+    }
+  );
+
+  // Finish enrolment by confirming a code from the app; returns recovery codes (shown once)
+  fastify.post<{ Body: MfaCodeRequest }>(
+    '/auth/mfa/enable',
+    { preHandler: authenticateUser, schema: enableMfaSchema },
+    async (request, reply) => {
       try {
-        const { userId } = request.body;
+        const { code } = request.body;
+        const user = await repository.findUserById(request.user!.userId);
+
+        if (!user || !user.totp_secret) {
+          return reply.status(404).send({
+            error: 'Two-factor authentication has not been set up',
+          });
+        }
 
-        if (!userId) {
+        if (user.totp_enabled) {
+          return reply.status(409).send({
+            error: 'Two-factor authentication is already enabled',
+          });
+        }
+
+        if (!(await verifyMfaCode(user, code))) {
           return reply.status(400).send({
-            error: 'User ID is required',
+            error: 'Invalid authentication code',
           });
         }
 
-        // Delete all refresh tokens for user
-        await repository.deleteUserRefreshTokens(userId);
+        const { codes, hashes } = generateRecoveryCodes();
+        await repository.enableTotp(user.id, hashes);
+
+        const response: RecoveryCodesResponse = { recoveryCodes: codes };
+
+        return reply.send(response);
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to enable two-factor authentication',
+        });
+      }
+    }
+  );
+
+  // Turn off 2FA (requires the password and a current code)
+  fastify.post<{ Body: DisableMfaRequest }>(
+    '/auth/mfa/disable',
+    { preHandler: authenticateUser, schema: disableMfaSchema },
+    async (request, reply) => {
+      try {
+        const { password, code } = request.body;
+        const user = await repository.findUserById(request.user!.userId);
+
+        if (!user || !user.totp_enabled) {
+          return reply.status(404).send({
+            error: 'Two-factor authentication is not enabled',
+          });
+        }
+
+        // Wrong passwords and codes count towards the login lockout, so a stolen
+        // access token can't be used to guess them
+        const check = await checkLoginAllowed(user.email, request.ip);
+        if (!check.allowed) {
+          return sendLockedOut(reply, check.retryAfterSeconds);
+        }
+
+        if (!(await comparePassword(password, user.password_hash))) {
+          await recordLoginFailure(user.email, request.ip, user.id);
+          return reply.status(401).send({
+            error: 'Invalid password',
+          });
+        }
+
+        if (!(await verifyMfaCode(user, code))) {
+          await recordLoginFailure(user.email, request.ip, user.id);
+          return reply.status(400).send({
+            error: 'Invalid authentication code',
+          });
+        }
+
+        await recordLoginSuccess(user.email, request.ip, user.id);
+        await repository.disableTotp(user.id);
 
         return reply.send({
           success: true,
-          message: 'Logged out from all devices',
+          message: 'Two-factor authentication disabled',
         });
       } catch (error) {
         fastify.log.error(error);
         return reply.status(500).send({
-          error: 'Failed to logout',
+          error: 'Failed to disable two-factor authentication',
+        });
+      }
+    }
+  );
+
+  // Replace all recovery codes (requires a current code)
+  fastify.post<{ Body: MfaCodeRequest }>(
+    '/auth/mfa/recovery-codes',
+    { preHandler: authenticateUser, schema: regenerateRecoveryCodesSchema },
+    async (request, reply) => {
+      try {
+        const { code } = request.body;
+        const user = await repository.findUserById(request.user!.userId);
+
+        if (!user || !user.totp_enabled) {
+          return reply.status(404).send({
+            error: 'Two-factor authentication is not enabled',
+          });
+        }
+
+        // Throttled like the code check at login
+        const check = await checkLoginAllowed(user.email, request.ip);
+        if (!check.allowed) {
+          return sendLockedOut(reply, check.retryAfterSeconds);
+        }
+
+        if (!(await verifyMfaCode(user, code))) {
+          await recordLoginFailure(user.email, request.ip, user.id);
+          return reply.status(400).send({
+            error: 'Invalid authentication code',
+          });
+        }
+
+        await recordLoginSuccess(user.email, request.ip, user.id);
+
+        const { codes, hashes } = generateRecoveryCodes();
+        await repository.replaceRecoveryCodes(user.id, hashes);
+
+        const response: RecoveryCodesResponse = { recoveryCodes: codes };
+
+        return reply.send(response);
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to regenerate recovery codes',
         });
       }
     }
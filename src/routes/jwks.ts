@@ -0,0 +1,17 @@
+import type { FastifyInstance } from 'fastify';
+import { getJwks } from '../utils/signingKeys.js';
+import { getJwksSchema } from '../schemas/jwks.js';
+
+/**
+ * Public signing keys so other services can verify access tokens
+ */
+export async function jwksRoutes(fastify: FastifyInstance) {
+  fastify.get(
+    '/.well-known/jwks.json',
+    { schema: getJwksSchema },
+    async (_request, reply) => {
+      // Keys are published ahead of use, so clients can cache briefly
+      return reply.header('Cache-Control', 'public, max-age=300').send(getJwks());
+    }
+  );
+}
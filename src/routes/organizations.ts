@@ -0,0 +1,466 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import * as repository from '../db/repository.js';
+import { authenticateUser } from '../middleware/auth.js';
+import { generateAccessToken } from '../config/jwt.js';
+import type { JWTPayload } from '../config/jwt.js';
+import { hasPermission, canManageRole } from '../config/roles.js';
+import type { Permission } from '../config/roles.js';
+import { resolveRole, buildTokenPayload } from '../utils/access.js';
+import { config } from '../config/env.js';
+import { generateToken, hashToken } from '../utils/tokens.js';
+import { isValidEmail } from '../utils/password.js';
+import {
+  createOrganizationSchema,
+  getOrganizationsSchema,
+  getMembersSchema,
+  removeMemberSchema,
+  updateMemberSchema,
+  createInvitationSchema,
+  getInvitationsSchema,
+  deleteInvitationSchema,
+  acceptInvitationSchema,
+  switchOrganizationSchema,
+} from '../schemas/organizations.js';
+import type {
+  Invitation,
+  InvitationSummary,
+  Role,
+  CreateOrganizationRequest,
+  CreateInvitationRequest,
+  AcceptInvitationRequest,
+  SwitchOrganizationRequest,
+  UpdateMemberRequest,
+  IdParams,
+} from '../types/index.js';
+
+type AccessResult =
+  | { role: Role }
+  | { role: null; status: 403; error: string };
+
+/**
+ * Resolve the user's role in the organization, optionally requiring a permission
+ */
+async function getOrganizationAccess(
+  organizationId: number,
+  user: JWTPayload,
+  permission?: Permission
+): Promise<AccessResult> {
+  const role = await resolveRole(user, organizationId);
+
+  if (!role) {
+    return { role: null, status: 403, error: 'Not a member of this organization' };
+  }
+
+  if (permission && !hasPermission(role, permission)) {
+    return { role: null, status: 403, error: 'Insufficient permissions' };
+  }
+
+  return { role };
+}
+
+function toInvitationSummary(invitation: Invitation): InvitationSummary {
+  return {
+    id: invitation.id,
+    email: invitation.email,
+    role: invitation.role,
+    expiresAt: invitation.expires_at.toISOString(),
+    createdAt: invitation.created_at.toISOString(),
+  };
+}
+
+/**
+ * Organization (team workspace) routes (protected with authentication)
+ */
+export async function organizationRoutes(fastify: FastifyInstance) {
+  // Create an organization; the creator becomes its owner
+  fastify.post<{ Body: CreateOrganizationRequest }>(
+    '/organizations',
+    { preHandler: authenticateUser, schema: createOrganizationSchema },
+    async (request: FastifyRequest<{ Body: CreateOrganizationRequest }>, reply: FastifyReply) => {
+      try {
+        const { name } = request.body;
+        const userId = request.user!.userId;
+
+        const organization = await repository.createOrganization(name.trim(), userId);
+
+        return reply.status(201).send({
+          organization: {
+            id: organization.id,
+            name: organization.name,
+            role: 'owner',
+            memberCount: 1,
+            createdAt: organization.created_at.toISOString(),
+          },
+        });
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to create organization',
+        });
+      }
+    }
+  );
+
+  // List organizations the user belongs to
+  fastify.get(
+    '/organizations',
+    { preHandler: authenticateUser, schema: getOrganizationsSchema },
+    async (request, reply) => {
+      try {
+        const userId = request.user!.userId;
+        const organizations = await repository.getOrganizationsByUser(userId);
+
+        return reply.send({ organizations });
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to fetch organizations',
+        });
+      }
+    }
+  );
+
+  // Switch the current workspace (null = personal) and get a new access token
+  fastify.post<{ Body: SwitchOrganizationRequest }>(
+    '/organizations/switch',
+    { preHandler: authenticateUser, schema: switchOrganizationSchema },
+    async (request, reply) => {
+      try {
+        const { organizationId } = request.body;
+        const userId = request.user!.userId;
+
+        if (organizationId !== null) {
+          const access = await getOrganizationAccess(organizationId, request.user!);
+          if (!access.role) {
+            return reply.status(access.status).send({
+              error: access.error,
+            });
+          }
+        }
+
+        await repository.setCurrentOrganization(userId, organizationId);
+
+        const user = await repository.findUserById(userId);
+        if (!user) {
+          return reply.status(401).send({
+            error: 'User not found',
+          });
+        }
+
+        const accessToken = generateAccessToken(await buildTokenPayload(user));
+
+        return reply.send({ accessToken, organizationId });
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to switch organization',
+        });
+      }
+    }
+  );
+
+  // List members
+  fastify.get<{ Params: IdParams }>(
+    '/organizations/:id/members',
+    { preHandler: authenticateUser, schema: getMembersSchema },
+    async (request, reply) => {
+      try {
+        const { id: organizationId } = request.params;
+
+        const access = await getOrganizationAccess(organizationId, request.user!, 'members:read');
+        if (!access.role) {
+          return reply.status(access.status).send({
+            error: access.error,
+          });
+        }
+
+        const members = await repository.getOrganizationMembers(organizationId);
+
+        return reply.send({ members });
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to fetch members',
+        });
+      }
+    }
+  );
+
+  // Change a member's role (admins and owners; only owners can grant or change owner/admin)
+  fastify.patch<{ Params: { id: number; userId: number }; Body: UpdateMemberRequest }>(
+    '/organizations/:id/members/:userId',
+    { preHandler: authenticateUser, schema: updateMemberSchema },
+    async (request, reply) => {
+      try {
+        const { id: organizationId, userId: memberId } = request.params;
+        const { role } = request.body;
+
+        const access = await getOrganizationAccess(organizationId, request.user!, 'members:manage');
+        if (!access.role) {
+          return reply.status(access.status).send({
+            error: access.error,
+          });
+        }
+
+        const members = await repository.getOrganizationMembers(organizationId);
+        const member = members.find((m) => m.userId === memberId);
+
+        if (!member) {
+          return reply.status(404).send({
+            error: 'Member not found',
+          });
+        }
+
+        if (!canManageRole(access.role, member.role) || !canManageRole(access.role, role)) {
+          return reply.status(403).send({
+            error: 'Insufficient permissions',
+          });
+        }
+
+        // Every organization needs at least one owner
+        if (
+          member.role === 'owner' &&
+          role !== 'owner' &&
+          members.filter((m) => m.role === 'owner').length === 1
+        ) {
+          return reply.status(409).send({
+            error: 'Cannot demote the last owner',
+          });
+        }
+
+        await repository.updateMembershipRole(organizationId, memberId, role);
+
+        return reply.send({
+          success: true,
+          message: 'Member role updated',
+        });
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to update member',
+        });
+      }
+    }
+  );
+
+  // Remove a member (admins and owners), or leave the organization (any member removing themselves)
+  fastify.delete<{ Params: { id: number; userId: number } }>(
+    '/organizations/:id/members/:userId',
+    { preHandler: authenticateUser, schema: removeMemberSchema },
+    async (request, reply) => {
+      try {
+        const { id: organizationId, userId: memberId } = request.params;
+        const isSelf = memberId === request.user!.userId;
+
+        const access = await getOrganizationAccess(
+          organizationId,
+          request.user!,
+          isSelf ? undefined : 'members:manage'
+        );
+        if (!access.role) {
+          return reply.status(access.status).send({
+            error: access.error,
+          });
+        }
+
+        const members = await repository.getOrganizationMembers(organizationId);
+        const member = members.find((m) => m.userId === memberId);
+
+        if (!member) {
+          return reply.status(404).send({
+            error: 'Member not found',
+          });
+        }
+
+        if (!isSelf && !canManageRole(access.role, member.role)) {
+          return reply.status(403).send({
+            error: 'Insufficient permissions',
+          });
+        }
+
+        // Every organization needs at least one owner
+        if (member.role === 'owner' && members.filter((m) => m.role === 'owner').length === 1) {
+          return reply.status(409).send({
+            error: 'Cannot remove the last owner',
+          });
+        }
+
+        await repository.removeMembership(organizationId, memberId);
+
+        return reply.send({
+          success: true,
+          message: 'Member removed successfully',
+        });
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to remove member',
+        });
+      }
+    }
+  );
+
+  // Invite someone by email (admins and owners)
+  fastify.post<{ Params: IdParams; Body: CreateInvitationRequest }>(
+    '/organizations/:id/invitations',
+    { preHandler: authenticateUser, schema: createInvitationSchema },
+    async (request, reply) => {
+      try {
+        const { id: organizationId } = request.params;
+        const { email, role = 'viewer' } = request.body;
+        const userId = request.user!.userId;
+
+        if (!isValidEmail(email)) {
+          return reply.status(400).send({
+            error: 'Invalid email format',
+          });
+        }
+
+        const access = await getOrganizationAccess(organizationId, request.user!, 'members:manage');
+        if (!access.role) {
+          return reply.status(access.status).send({
+            error: access.error,
+          });
+        }
+
+        if (!canManageRole(access.role, role)) {
+          return reply.status(403).send({
+            error: 'Insufficient permissions',
+          });
+        }
+
+        const token = generateToken();
+        const expiresAt = new Date();
+        expiresAt.setDate(expiresAt.getDate() + config.organizations.invitationExpiryDays);
+
+        const invitation = await repository.createInvitation(
+          organizationId,
+          email.toLowerCase(),
+          role,
+          hashToken(token),
+          userId,
+          expiresAt
+        );
+
+        // Only the hash is stored, so the token can't be shown again
+        return reply.status(201).send({
+          invitation: toInvitationSummary(invitation),
+          token,
+        });
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to create invitation',
+        });
+      }
+    }
+  );
+
+  // List pending invitations (admins and owners)
+  fastify.get<{ Params: IdParams }>(
+    '/organizations/:id/invitations',
+    { preHandler: authenticateUser, schema: getInvitationsSchema },
+    async (request, reply) => {
+      try {
+        const { id: organizationId } = request.params;
+
+        const access = await getOrganizationAccess(organizationId, request.user!, 'members:manage');
+        if (!access.role) {
+          return reply.status(access.status).send({
+            error: access.error,
+          });
+        }
+
+        const invitations = await repository.getPendingInvitations(organizationId);
+
+        return reply.send({ invitations: invitations.map(toInvitationSummary) });
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to fetch invitations',
+        });
+      }
+    }
+  );
+
+  // Revoke a pending invitation (admins and owners)
+  fastify.delete<{ Params: { id: number; invitationId: number } }>(
+    '/organizations/:id/invitations/:invitationId',
+    { preHandler: authenticateUser, schema: deleteInvitationSchema },
+    async (request, reply) => {
+      try {
+        const { id: organizationId, invitationId } = request.params;
+
+        const access = await getOrganizationAccess(organizationId, request.user!, 'members:manage');
+        if (!access.role) {
+          return reply.status(access.status).send({
+            error: access.error,
+          });
+        }
+
+        const deleted = await repository.deleteInvitation(invitationId, organizationId);
+
+        if (!deleted) {
+          return reply.status(404).send({
+            error: 'Invitation not found',
+          });
+        }
+
+        return reply.send({
+          success: true,
+          message: 'Invitation revoked',
+        });
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to revoke invitation',
+        });
+      }
+    }
+  );
+
+  // Accept an invitation sent to the user's email address
+  fastify.post<{ Body: AcceptInvitationRequest }>(
+    '/invitations/accept',
+    { preHandler: authenticateUser, schema: acceptInvitationSchema },
+    async (request, reply) => {
+      try {
+        const { token } = request.body;
+        const { userId, email } = request.user!;
+
+        const invitation = await repository.findPendingInvitation(hashToken(token));
+
+        if (!invitation) {
+          return reply.status(404).send({
+            error: 'Invitation not found or expired',
+          });
+        }
+
+        if (invitation.email !== email.toLowerCase()) {
+          return reply.status(403).send({
+            error: 'Invitation was sent to a different email address',
+          });
+        }
+
+        const membership = await repository.acceptInvitation(invitation, userId);
+
+        // Accepted by a concurrent request
+        if (!membership) {
+          return reply.status(409).send({
+            error: 'Invitation has already been accepted',
+          });
+        }
+
+        return reply.send({
+          organizationId: membership.organization_id,
+          role: membership.role,
+        });
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to accept invitation',
+        });
+      }
+    }
+  );
+}
@@ -1,7 +1,35 @@
+import { Readable } from 'stream';
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import * as repository from '../db/repository.js';
-import { authenticateToken } from '../middleware/auth.js';
-import type { CreateReportRequest } from '../types/index.js';
+import { authenticateToken, requirePermission, requireVerifiedEmail } from '../middleware/auth.js';
+import { getOwnedReport } from '../utils/access.js';
+import { decodeCursor } from '../utils/cursor.js';
+import { config } from '../config/env.js';
+import { scoreReport, findScoreMismatches } from '../utils/scoring.js';
+import {
+  createReportSchema,
+  getReportsSchema,
+  getReportSchema,
+  deleteReportSchema,
+  getRecentReportsSchema,
+  diffReportsSchema,
+  exportReportSchema,
+  exportReportsSchema,
+} from '../schemas/reports.js';
+import { diffReports } from '../utils/reportDiff.js';
+import { renderReportHtml } from '../export/html.js';
+import { renderReportPdf } from '../export/reportPdf.js';
+import { exportFilename } from '../export/common.js';
+import { buildReportSheet, createCsvStream, createXlsxStream } from '../export/spreadsheet.js';
+import type {
+  CreateReportRequest,
+  DiffReportParams,
+  ExportReportQuery,
+  ExportReportsQuery,
+  GetReportsQuery,
+  GetRecentReportsQuery,
+  IdParams,
+} from '../types/index.js';
 
 /**
  * Report routes (protected with authentication)
@@ -10,24 +38,38 @@ export async function reportRoutes(fastify: FastifyInstance) {
   // Create a new report
   fastify.post<{ Body: CreateReportRequest }>(
     '/reports',
-    { preHandler: authenticateToken },
+    {
+      preHandler: [authenticateToken, requireVerifiedEmail, requirePermission('reports:create')],
+      schema: createReportSchema,
+    },
     async (request: FastifyRequest<{ Body: CreateReportRequest }>, reply: FastifyReply) => {
       try {
         const { report } = request.body;
-        const userId = request.user!.userId;
+        const { userId, orgId = null } = request.user!;
 
-        if (!report) {
-          return reply.status(400).send({
-            error: 'Missing required field: report',
+        // Recompute score, status and summary rather than trusting the client
+        const scoredReport = scoreReport(report);
+        const mismatches = findScoreMismatches(report, scoredReport);
+
+        if (mismatches.length > 0 && config.scoring.mismatchPolicy === 'reject') {
+          return reply.status(422).send({
+            error: 'Submitted score does not match computed score',
+            details: mismatches,
           });
         }
 
-        // Create report for authenticated user
-        const savedReport = await repository.createReport(userId, report);
+        // Reports created in an organization workspace are shared with its members
+        const savedReport = await repository.createReport(userId, scoredReport, {
+          scoreMismatch: mismatches.length > 0,
+          organizationId: orgId,
+        });
 
         return reply.status(201).send({
           success: true,
           reportId: savedReport.id,
+          overallScore: scoredReport.overallScore,
+          overallStatus: scoredReport.overallStatus,
+          ...(mismatches.length > 0 && { scoreMismatches: mismatches }),
         });
       } catch (error) {
         fastify.log.error(error);
@@ -39,20 +81,50 @@ export async function reportRoutes(fastify: FastifyInstance) {
   );
 
   // Get all reports for a user
-  fastify.get<{ Querystring: { limit?: string; offset?: string } }>(
+  fastify.get<{ Querystring: GetReportsQuery }>(
     '/reports',
-    { preHandler: authenticateToken },
+    { preHandler: [authenticateToken, requirePermission('reports:read')], schema: getReportsSchema },
     async (request, reply) => {
       try {
-        const { limit, offset } = request.query;
-        const userId = request.user!.userId;
+        const { limit, offset, cursor: cursorParam, sort, order, ...filters } = request.query;
+        const { userId, orgId = null } = request.user!;
 
-        // Get reports for authenticated user
-        const result = await repository.getReportsByUser(
-          userId,
-          limit ? parseInt(limit, 10) : 50,
-          offset ? parseInt(offset, 10) : 0
-        );
+        const cursor = cursorParam !== undefined ? decodeCursor(cursorParam) : undefined;
+        if (cursor === null) {
+          return reply.status(400).send({
+            error: 'Invalid cursor',
+          });
+        }
+        if (cursor && (sort !== 'created_at' || offset > 0)) {
+          return reply.status(400).send({
+            error: 'cursor can only be used with sort=created_at and without offset',
+          });
+        }
+
+        if (sort === 'relevance' && !filters.q) {
+          return reply.status(400).send({
+            error: 'Sorting by relevance requires a search query (q)',
+          });
+        }
+        const { minScore, maxScore } = filters;
+        if (minScore !== undefined && maxScore !== undefined && minScore > maxScore) {
+          return reply.status(400).send({
+            error: 'minScore must not be greater than maxScore',
+          });
+        }
+        if (filters.from && filters.to && new Date(filters.from) > new Date(filters.to)) {
+          return reply.status(400).send({
+            error: 'from must not be after to',
+          });
+        }
+
+        // Get reports for the current workspace
+        const result = await repository.getReportsByUser(userId, limit, offset, orgId, {
+          filters,
+          sort,
+          order,
+          cursor,
+        });
 
         return reply.send(result);
       } catch (error) {
@@ -64,72 +136,147 @@ export async function reportRoutes(fastify: FastifyInstance) {
     }
   );
 
+  // Download every report in the workspace as a spreadsheet (streamed, not buffered)
+  for (const format of ['csv', 'xlsx'] as const) {
+    fastify.get<{ Querystring: ExportReportsQuery }>(
+      `/reports/export.${format}`,
+      { preHandler: [authenticateToken, requirePermission('reports:read')], schema: exportReportsSchema },
+      async (request, reply) => {
+        const { rows } = request.query;
+        const { userId, orgId = null } = request.user!;
+
+        const sheet = buildReportSheet(repository.streamReportsByUser(userId, orgId), rows);
+        const filename = `compliance-${rows}-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+        // Errors after the headers are sent abort the download rather than producing a 500
+        const stream = Readable.from(format === 'csv' ? createCsvStream(sheet) : createXlsxStream(sheet));
+        stream.on('error', (error) => fastify.log.error(error, 'Report export failed'));
+
+        return reply
+          .type(
+            format === 'csv'
+              ? 'text/csv; charset=utf-8'
+              : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+          )
+          .header('Content-Disposition', `attachment; filename="${filename}"`)
+          .send(stream);
+      }
+    );
+  }
+
   // Get a specific report by ID
-  fastify.get<{ Params: { id: string } }>(
+  fastify.get<{ Params: IdParams }>(
     '/reports/:id',
-    { preHandler: authenticateToken },
+    { preHandler: authenticateToken, schema: getReportSchema },
     async (request, reply) => {
       try {
-        const { id } = request.params;
-        const userId = request.user!.userId;
+        const { id: reportId } = request.params;
 
-        const reportId = parseInt(id, 10);
-        if (isNaN(reportId)) {
-          return reply.status(400).send({
-            error: 'Invalid report ID',
+        const result = await getOwnedReport(reportId, request.user!, 'reports:read');
+
+        if (!result.report) {
+          return reply.status(result.status).send({
+            error: result.error,
           });
         }
 
-        const report = await repository.getReportById(reportId);
+        return reply.send({ report: result.report });
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to fetch report',
+        });
+      }
+    }
+  );
+
+  // Compare two reports owned by the user
+  fastify.get<{ Params: DiffReportParams }>(
+    '/reports/:id/diff/:otherId',
+    { preHandler: authenticateToken, schema: diffReportsSchema },
+    async (request, reply) => {
+      try {
+        const { id, otherId } = request.params;
 
-        if (!report) {
-          return reply.status(404).send({
-            error: 'Report not found',
+        const from = await getOwnedReport(id, request.user!, 'reports:read');
+        if (!from.report) {
+          return reply.status(from.status).send({
+            error: from.error,
           });
         }
 
-        // Verify ownership
-        if (report.user_id !== userId) {
-          return reply.status(403).send({
-            error: 'Unauthorized',
+        const to = await getOwnedReport(otherId, request.user!, 'reports:read');
+        if (!to.report) {
+          return reply.status(to.status).send({
+            error: to.error,
           });
         }
 
-        return reply.send({ report });
+        return reply.send({ diff: diffReports(from.report, to.report) });
       } catch (error) {
         fastify.log.error(error);
         return reply.status(500).send({
-          error: 'Failed to fetch report',
+          error: 'Failed to compare reports',
         });
       }
     }
   );
 
-  // Delete a report
-  fastify.delete<{ Params: { id: string } }>(
-    '/reports/:id',
-    { preHandler: authenticateToken },
+  // Download a report as a printable PDF or HTML document
+  fastify.get<{ Params: IdParams; Querystring: ExportReportQuery }>(
+    '/reports/:id/export',
+    { preHandler: authenticateToken, schema: exportReportSchema },
     async (request, reply) => {
       try {
-        const { id } = request.params;
-        const userId = request.user!.userId;
+        const { id: reportId } = request.params;
+        const { format } = request.query;
 
-        const reportId = parseInt(id, 10);
-        if (isNaN(reportId)) {
-          return reply.status(400).send({
-            error: 'Invalid report ID',
+        const result = await getOwnedReport(reportId, request.user!, 'reports:read');
+
+        if (!result.report) {
+          return reply.status(result.status).send({
+            error: result.error,
           });
         }
 
-        // Delete report (ownership is verified in the query)
-        const deleted = await repository.deleteReport(reportId, userId);
+        if (format === 'html') {
+          return reply
+            .type('text/html; charset=utf-8')
+            .header('Content-Disposition', `inline; filename="${exportFilename(result.report, 'html')}"`)
+            .send(renderReportHtml(result.report));
+        }
 
-        if (!deleted) {
-          return reply.status(404).send({
-            error: 'Report not found or unauthorized',
+        return reply
+          .type('application/pdf')
+          .header('Content-Disposition', `attachment; filename="${exportFilename(result.report, 'pdf')}"`)
+          .send(renderReportPdf(result.report));
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to export report',
+        });
+      }
+    }
+  );
+
+  // Delete a report
+  fastify.delete<{ Params: IdParams }>(
+    '/reports/:id',
+    { preHandler: authenticateToken, schema: deleteReportSchema },
+    async (request, reply) => {
+      try {
+        const { id: reportId } = request.params;
+
+        const result = await getOwnedReport(reportId, request.user!, 'reports:delete');
+
+        if (!result.report) {
+          return reply.status(result.status).send({
+            error: result.error,
           });
         }
 
+        await repository.deleteReport(reportId);
+
         return reply.send({
           success: true,
           message: 'Report deleted successfully',
@@ -144,16 +291,23 @@ export async function reportRoutes(fastify: FastifyInstance) {
   );
 
   // Get recent reports (public endpoint for stats)
-  fastify.get<{ Querystring: { limit?: string } }>(
+  fastify.get<{ Querystring: GetRecentReportsQuery }>(
     '/reports/recent',
+    { schema: getRecentReportsSchema },
     async (request, reply) => {
       try {
-        const { limit } = request.query;
-        const reports = await repository.getRecentReports(
-          limit ? parseInt(limit, 10) : 10
-        );
+        const { limit, cursor: cursorParam } = request.query;
+
+        const cursor = cursorParam !== undefined ? decodeCursor(cursorParam) : null;
+        if (cursorParam !== undefined && cursor === null) {
+          return reply.status(400).send({
+            error: 'Invalid cursor',
+          });
+        }
 
-        return reply.send({ reports });
+        const result = await repository.getRecentReports(limit, cursor);
+
+        return reply.send(result);
       } catch (error) {
         fastify.log.error(error);
         return reply.status(500).send({
@@ -0,0 +1,24 @@
+import type { FastifyInstance } from 'fastify';
+import { getRules, toRuleSummary } from '../rules/index.js';
+import { getRulesSchema } from '../schemas/rules.js';
+import type { CheckCategory, GetRulesResponse } from '../types/index.js';
+
+/**
+ * Compliance rule routes (public, read-only)
+ */
+export async function ruleRoutes(fastify: FastifyInstance) {
+  // List registered compliance rules
+  fastify.get<{ Querystring: { category?: CheckCategory } }>(
+    '/rules',
+    { schema: getRulesSchema },
+    async (request, reply) => {
+      const { category } = request.query;
+
+      const response: GetRulesResponse = {
+        rules: getRules(category).map(toRuleSummary),
+      };
+
+      return reply.send(response);
+    }
+  );
+}
@@ -0,0 +1,60 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import * as repository from '../db/repository.js';
+import { authenticateToken, requirePermission, requireVerifiedEmail } from '../middleware/auth.js';
+import { scanSite, parseScanUrl, ScanError } from '../scanner/index.js';
+import { createScanSchema } from '../schemas/scans.js';
+import type { PageFetcher } from '../scanner/index.js';
+import type { CreateScanRequest, CreateScanResponse } from '../types/index.js';
+
+export interface ScanRoutesOptions {
+  fetcher?: PageFetcher;
+}
+
+/**
+ * Scan routes (server-side compliance scanning)
+ */
+export async function scanRoutes(fastify: FastifyInstance, options: ScanRoutesOptions) {
+  // Scan a website and save the resulting report
+  fastify.post<{ Body: CreateScanRequest }>(
+    '/scans',
+    {
+      preHandler: [authenticateToken, requireVerifiedEmail, requirePermission('scans:run')],
+      schema: createScanSchema,
+    },
+    async (request: FastifyRequest<{ Body: CreateScanRequest }>, reply: FastifyReply) => {
+      try {
+        const { url } = request.body;
+        const { userId, orgId = null } = request.user!;
+
+        const scanUrl = parseScanUrl(url);
+        if (!scanUrl) {
+          return reply.status(400).send({
+            error: 'Invalid or unsupported URL',
+          });
+        }
+
+        const report = await scanSite(scanUrl, { fetcher: options.fetcher });
+        const savedReport = await repository.createReport(userId, report, { organizationId: orgId });
+
+        const response: CreateScanResponse = {
+          success: true,
+          reportId: savedReport.id,
+          report,
+        };
+
+        return reply.status(201).send(response);
+      } catch (error) {
+        if (error instanceof ScanError) {
+          return reply.status(422).send({
+            error: error.message,
+          });
+        }
+
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to scan website',
+        });
+      }
+    }
+  );
+}
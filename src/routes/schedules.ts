@@ -0,0 +1,179 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import * as repository from '../db/repository.js';
+import { authenticateUser, requirePermission } from '../middleware/auth.js';
+import { getOwnedSchedule, getOwnedSite } from '../utils/access.js';
+import {
+  getSchedulesSchema,
+  getScheduleSchema,
+  createScheduleSchema,
+  updateScheduleSchema,
+  deleteScheduleSchema,
+} from '../schemas/schedules.js';
+import type { CreateScheduleRequest, UpdateScheduleRequest, IdParams } from '../types/index.js';
+
+/**
+ * Scan schedule routes (protected with authentication)
+ */
+export async function scheduleRoutes(fastify: FastifyInstance) {
+  // List the schedules of the current workspace
+  fastify.get(
+    '/schedules',
+    { preHandler: [authenticateUser, requirePermission('reports:read')], schema: getSchedulesSchema },
+    async (request, reply) => {
+      try {
+        const { userId, orgId = null } = request.user!;
+        const schedules = await repository.getSchedulesByUser(userId, orgId);
+
+        return reply.send({ schedules });
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to fetch schedules',
+        });
+      }
+    }
+  );
+
+  // Schedule recurring rescans of a site
+  fastify.post<{ Body: CreateScheduleRequest }>(
+    '/schedules',
+    { preHandler: authenticateUser, schema: createScheduleSchema },
+    async (request: FastifyRequest<{ Body: CreateScheduleRequest }>, reply: FastifyReply) => {
+      try {
+        const { siteId, frequency, startAt } = request.body;
+        const userId = request.user!.userId;
+
+        // Scheduled rescans run scans in the site's workspace
+        const site = await getOwnedSite(siteId, request.user!, 'scans:run');
+
+        if (!site.site) {
+          return reply.status(site.status).send({
+            error: site.error,
+          });
+        }
+
+        try {
+          const schedule = await repository.createSchedule(
+            userId,
+            site.site.organization_id,
+            siteId,
+            frequency,
+            startAt ? new Date(startAt) : new Date()
+          );
+
+          return reply.status(201).send({ schedule });
+        } catch (error) {
+          // Unique violation: one schedule per site
+          if ((error as { code?: string }).code === '23505') {
+            return reply.status(409).send({
+              error: 'Site already has a schedule',
+            });
+          }
+          throw error;
+        }
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to create schedule',
+        });
+      }
+    }
+  );
+
+  // Get a specific schedule
+  fastify.get<{ Params: IdParams }>(
+    '/schedules/:id',
+    { preHandler: authenticateUser, schema: getScheduleSchema },
+    async (request, reply) => {
+      try {
+        const { id: scheduleId } = request.params;
+
+        const result = await getOwnedSchedule(scheduleId, request.user!, 'reports:read');
+
+        if (!result.schedule) {
+          return reply.status(result.status).send({
+            error: result.error,
+          });
+        }
+
+        return reply.send({ schedule: result.schedule });
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to fetch schedule',
+        });
+      }
+    }
+  );
+
+  // Change frequency or pause/resume a schedule
+  fastify.patch<{ Params: IdParams; Body: UpdateScheduleRequest }>(
+    '/schedules/:id',
+    { preHandler: authenticateUser, schema: updateScheduleSchema },
+    async (request, reply) => {
+      try {
+        const { id: scheduleId } = request.params;
+
+        const result = await getOwnedSchedule(scheduleId, request.user!, 'scans:run');
+
+        if (!result.schedule) {
+          return reply.status(result.status).send({
+            error: result.error,
+          });
+        }
+
+        const schedule = await repository.updateSchedule(scheduleId, request.user!.userId, request.body);
+
+        if (!schedule) {
+          return reply.status(404).send({
+            error: 'Schedule not found',
+          });
+        }
+
+        return reply.send({ schedule });
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to update schedule',
+        });
+      }
+    }
+  );
+
+  // Delete a schedule
+  fastify.delete<{ Params: IdParams }>(
+    '/schedules/:id',
+    { preHandler: authenticateUser, schema: deleteScheduleSchema },
+    async (request, reply) => {
+      try {
+        const { id: scheduleId } = request.params;
+
+        const result = await getOwnedSchedule(scheduleId, request.user!, 'scans:run');
+
+        if (!result.schedule) {
+          return reply.status(result.status).send({
+            error: result.error,
+          });
+        }
+
+        const deleted = await repository.deleteSchedule(scheduleId);
+
+        if (!deleted) {
+          return reply.status(404).send({
+            error: 'Schedule not found',
+          });
+        }
+
+        return reply.send({
+          success: true,
+          message: 'Schedule deleted successfully',
+        });
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to delete schedule',
+        });
+      }
+    }
+  );
+}
@@ -0,0 +1,226 @@
+import type { FastifyInstance } from 'fastify';
+import * as repository from '../db/repository.js';
+import { authenticateUser } from '../middleware/auth.js';
+import { getOwnedReport } from '../utils/access.js';
+import { hashPassword, comparePassword } from '../utils/password.js';
+import { buildSummary } from '../utils/scoring.js';
+import { generateToken, hashToken } from '../utils/tokens.js';
+import { config } from '../config/env.js';
+import {
+  createShareSchema,
+  getSharesSchema,
+  revokeShareSchema,
+  getSharedReportSchema,
+} from '../schemas/shares.js';
+import type {
+  CheckCategory,
+  ComplianceReport,
+  CreateShareRequest,
+  CreateShareResponse,
+  GetSharesResponse,
+  IdParams,
+  ShareParams,
+  SharedReportParams,
+  SharedReportResponse,
+} from '../types/index.js';
+
+/**
+ * Remove the checks in redacted categories. The summary is rebuilt from the remaining
+ * checks so it doesn't mention them; the overall score and status are left as scanned.
+ */
+function redactReport(report: ComplianceReport, categories: CheckCategory[]): ComplianceReport {
+  if (categories.length === 0) {
+    return report;
+  }
+
+  const checks = { ...report.checks };
+  for (const category of categories) {
+    checks[category] = [];
+  }
+
+  return { ...report, checks, summary: buildSummary(checks) };
+}
+
+/**
+ * Share link routes: management for the report's workspace, plus the public link itself
+ */
+export async function shareRoutes(fastify: FastifyInstance) {
+  // Create a link to a report; the token is only returned here
+  fastify.post<{ Params: IdParams; Body: CreateShareRequest }>(
+    '/reports/:id/share',
+    { preHandler: authenticateUser, schema: createShareSchema },
+    async (request, reply) => {
+      try {
+        const { expiresInDays, password, redactCategories = [] } = request.body ?? {};
+
+        const result = await getOwnedReport(request.params.id, request.user!, 'reports:share');
+        if (!result.report) {
+          return reply.status(result.status).send({
+            error: result.error,
+          });
+        }
+
+        let expiresAt: Date | null = null;
+        if (expiresInDays !== undefined) {
+          expiresAt = new Date();
+          expiresAt.setDate(expiresAt.getDate() + expiresInDays);
+        }
+
+        const token = generateToken();
+        const share = await repository.createReportShare(
+          result.report.id,
+          request.user!.userId,
+          hashToken(token),
+          password ? await hashPassword(password) : null,
+          redactCategories,
+          expiresAt
+        );
+
+        const response: CreateShareResponse = {
+          share,
+          token,
+          url: `${config.mail.appUrl.replace(/\/$/, '')}/shared/${token}`,
+        };
+
+        return reply.status(201).send(response);
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to create share link',
+        });
+      }
+    }
+  );
+
+  // List a report's links, including expired and revoked ones
+  fastify.get<{ Params: IdParams }>(
+    '/reports/:id/shares',
+    { preHandler: authenticateUser, schema: getSharesSchema },
+    async (request, reply) => {
+      try {
+        const result = await getOwnedReport(request.params.id, request.user!, 'reports:share');
+        if (!result.report) {
+          return reply.status(result.status).send({
+            error: result.error,
+          });
+        }
+
+        const response: GetSharesResponse = {
+          shares: await repository.getReportShares(result.report.id),
+        };
+
+        return reply.send(response);
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to fetch share links',
+        });
+      }
+    }
+  );
+
+  // Revoke a link
+  fastify.delete<{ Params: ShareParams }>(
+    '/reports/:id/shares/:shareId',
+    { preHandler: authenticateUser, schema: revokeShareSchema },
+    async (request, reply) => {
+      try {
+        const { id: reportId, shareId } = request.params;
+
+        const result = await getOwnedReport(reportId, request.user!, 'reports:share');
+        if (!result.report) {
+          return reply.status(result.status).send({
+            error: result.error,
+          });
+        }
+
+        const revoked = await repository.revokeReportShare(shareId, reportId);
+        if (!revoked) {
+          return reply.status(404).send({
+            error: 'Share link not found',
+          });
+        }
+
+        return reply.send({
+          success: true,
+          message: 'Share link revoked',
+        });
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to revoke share link',
+        });
+      }
+    }
+  );
+
+  // Public view of a shared report (no account needed)
+  fastify.get<{ Params: SharedReportParams; Headers: { 'x-share-password'?: string } }>(
+    '/shared/:token',
+    { schema: getSharedReportSchema },
+    async (request, reply) => {
+      try {
+        // Keep shared reports out of caches, search engines and Referer headers
+        reply.header('Cache-Control', 'no-store');
+        reply.header('X-Robots-Tag', 'noindex');
+        reply.header('Referrer-Policy', 'no-referrer');
+
+        // Unknown, expired and revoked links look the same
+        const share = await repository.findActiveReportShare(hashToken(request.params.token));
+        const report = share ? await repository.getReportById(share.report_id) : null;
+
+        if (!share || !report) {
+          return reply.status(404).send({
+            error: 'Share link not found or expired',
+          });
+        }
+
+        if (share.password_hash) {
+          const password = request.headers['x-share-password'];
+          if (!password) {
+            return reply.status(401).send({
+              error: 'Password required',
+            });
+          }
+
+          // Counted per link, so spreading guesses across clients doesn't help
+          const lockedUntil = await repository.claimSharePasswordAttempt(
+            share.id,
+            config.shares.maxPasswordAttempts,
+            config.shares.passwordLockoutMinutes
+          );
+          if (lockedUntil) {
+            const retryAfterSeconds = Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 1000));
+            return reply
+              .status(429)
+              .header('Retry-After', String(retryAfterSeconds))
+              .send({
+                error: 'Too many password attempts, try again later',
+              });
+          }
+
+          if (!(await comparePassword(password, share.password_hash))) {
+            return reply.status(401).send({
+              error: 'Invalid password',
+            });
+          }
+        }
+
+        await repository.recordReportShareAccess(share.id);
+
+        const response: SharedReportResponse = {
+          report: redactReport(report.report_data, share.redacted_categories),
+          redactedCategories: share.redacted_categories,
+          expiresAt: share.expires_at ? share.expires_at.toISOString() : null,
+        };
+
+        return reply.send(response);
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to fetch shared report',
+        });
+      }
+    }
+  );
+}
@@ -0,0 +1,64 @@
+import type { FastifyInstance } from 'fastify';
+import * as repository from '../db/repository.js';
+import { authenticateToken, requirePermission } from '../middleware/auth.js';
+import { getOwnedSite } from '../utils/access.js';
+import { getSitesSchema, getSiteHistorySchema } from '../schemas/sites.js';
+import type { GetSitesResponse, GetSiteHistoryResponse, IdParams } from '../types/index.js';
+
+/**
+ * Site routes (protected with authentication)
+ */
+export async function siteRoutes(fastify: FastifyInstance) {
+  // List sites scanned in the current workspace
+  fastify.get(
+    '/sites',
+    { preHandler: [authenticateToken, requirePermission('reports:read')], schema: getSitesSchema },
+    async (request, reply) => {
+      try {
+        const { userId, orgId = null } = request.user!;
+
+        const response: GetSitesResponse = {
+          sites: await repository.getSitesByUser(userId, orgId),
+        };
+
+        return reply.send(response);
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to fetch sites',
+        });
+      }
+    }
+  );
+
+  // Score and status time series for a site
+  fastify.get<{ Params: IdParams }>(
+    '/sites/:id/history',
+    { preHandler: authenticateToken, schema: getSiteHistorySchema },
+    async (request, reply) => {
+      try {
+        const { id: siteId } = request.params;
+
+        const result = await getOwnedSite(siteId, request.user!, 'reports:read');
+
+        if (!result.site) {
+          return reply.status(result.status).send({
+            error: result.error,
+          });
+        }
+
+        const response: GetSiteHistoryResponse = {
+          site: result.summary,
+          history: await repository.getSiteHistory(siteId),
+        };
+
+        return reply.send(response);
+      } catch (error) {
+        fastify.log.error(error);
+        return reply.status(500).send({
+          error: 'Failed to fetch site history',
+        });
+      }
+    }
+  );
+}
@@ -0,0 +1,21 @@
+import { registerRule } from './registry.js';
+import { websitePolicyRules } from './websitePolicies.js';
+import { securityRules } from './security.js';
+import { memberDataRules } from './memberData.js';
+import { marketingRules } from './marketing.js';
+import { paymentRules } from './payments.js';
+
+export { registerRule, getRule, getRules, runRules, toRuleSummary } from './registry.js';
+export { CHECK_CATEGORIES } from './types.js';
+export type { ComplianceRule } from './types.js';
+
+// Built-in rules. Add a new rule to its category module and it is picked up here.
+for (const rule of [
+  ...websitePolicyRules,
+  ...securityRules,
+  ...memberDataRules,
+  ...marketingRules,
+  ...paymentRules,
+]) {
+  registerRule(rule);
+}
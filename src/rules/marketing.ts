@@ -0,0 +1,91 @@
+import type { ScanContext } from '../scanner/context.js';
+import type { ComplianceRule } from './types.js';
+
+const TRACKER_PATTERN = /google-analytics\.com|googletagmanager\.com|connect\.facebook\.net|hotjar\.com|static\.ads-twitter\.com|snap\.licdn\.com/i;
+const CONSENT_PLATFORM_PATTERN = /cookiebot|onetrust|cookieyes|civic-?cookie|termly|iubenda|cookie-?consent|cookie-?banner/i;
+
+function hasTrackers(context: ScanContext): boolean {
+  return context.resources.some((resource) => TRACKER_PATTERN.test(resource)) || TRACKER_PATTERN.test(context.html);
+}
+
+export const marketingRules: ComplianceRule[] = [
+  {
+    id: 'cookie-banner',
+    category: 'marketing',
+    title: 'Cookie consent banner',
+    description: 'A cookie consent mechanism is present.',
+    weight: 3,
+    evaluate(context) {
+      const hasBanner =
+        CONSENT_PLATFORM_PATTERN.test(context.html) || /we use cookies|accept (?:all )?cookies/i.test(context.text);
+      if (hasBanner) {
+        return {
+          id: this.id,
+          title: this.title,
+          status: 'Compliant',
+          summary: 'A cookie consent mechanism was detected.',
+          recommendation: 'Ensure non-essential cookies are only set after the visitor opts in.',
+        };
+      }
+
+      const tracking = hasTrackers(context);
+      return {
+        id: this.id,
+        title: this.title,
+        status: tracking ? 'Non-Compliant' : 'Warning',
+        summary: tracking
+          ? 'Tracking scripts are loaded but no cookie consent mechanism was detected.'
+          : 'No cookie consent mechanism was detected.',
+        recommendation: 'Add a consent banner that blocks non-essential cookies until the visitor accepts them (PECR).',
+      };
+    },
+  },
+  {
+    id: 'third-party-tracking',
+    category: 'marketing',
+    title: 'Third-party tracking',
+    description: 'Third-party analytics and advertising scripts are disclosed.',
+    weight: 1,
+    evaluate(context) {
+      const tracking = hasTrackers(context);
+      return {
+        id: this.id,
+        title: this.title,
+        status: tracking ? 'Info' : 'Compliant',
+        summary: tracking
+          ? 'Third-party analytics or advertising scripts were found.'
+          : 'No common third-party tracking scripts were found.',
+        recommendation: 'List every third-party tracker in the cookie policy and only load them after consent.',
+      };
+    },
+  },
+  {
+    id: 'marketing-consent',
+    category: 'marketing',
+    title: 'Marketing consent',
+    description: 'Marketing sign-ups ask for opt-in consent.',
+    weight: 2,
+    evaluate(context) {
+      if (!/newsletter|sign up|subscribe/i.test(context.text)) {
+        return {
+          id: this.id,
+          title: this.title,
+          status: 'Info',
+          summary: 'No newsletter or marketing sign-up was found.',
+          recommendation: 'If you add a sign-up, collect explicit opt-in consent for each channel.',
+        };
+      }
+
+      const hasOptIn = /opt[- ]?in|unsubscribe|tick (?:this|the) box|you can change your mind/i.test(context.text);
+      return {
+        id: this.id,
+        title: this.title,
+        status: hasOptIn ? 'Compliant' : 'Warning',
+        summary: hasOptIn
+          ? 'Marketing sign-up includes opt-in or unsubscribe wording.'
+          : 'A marketing sign-up was found without clear opt-in wording.',
+        recommendation: 'Use unticked opt-in boxes and tell supporters how to unsubscribe.',
+      };
+    },
+  },
+];
@@ -0,0 +1,81 @@
+import type { ScanContext } from '../scanner/context.js';
+import type { ComplianceRule } from './types.js';
+
+function personalDataForms(context: ScanContext): string[] {
+  return context.forms.filter((form) =>
+    /type\s*=\s*["']?(?:email|tel)|name\s*=\s*["'][^"']*(?:email|phone|address)/i.test(form)
+  );
+}
+
+export const memberDataRules: ComplianceRule[] = [
+  {
+    id: 'form-transport',
+    category: 'memberData',
+    title: 'Secure form submission',
+    description: 'Forms do not submit data over plain HTTP.',
+    weight: 3,
+    evaluate(context) {
+      const insecure = context.forms.filter((form) => /action\s*=\s*["']http:\/\//i.test(form));
+      return {
+        id: this.id,
+        title: this.title,
+        status: insecure.length === 0 ? 'Compliant' : 'Non-Compliant',
+        summary:
+          insecure.length === 0
+            ? 'No forms submit data over plain HTTP.'
+            : `${insecure.length} form(s) submit data over plain HTTP.`,
+        recommendation: 'Point every form action at an HTTPS endpoint.',
+      };
+    },
+  },
+  {
+    id: 'form-consent',
+    category: 'memberData',
+    title: 'Consent on data collection forms',
+    description: 'Forms collecting personal data explain how it is used.',
+    weight: 2,
+    evaluate(context) {
+      const forms = personalDataForms(context);
+      if (forms.length === 0) {
+        return {
+          id: this.id,
+          title: this.title,
+          status: 'Info',
+          summary: 'No forms collecting personal data were found on the scanned pages.',
+          recommendation: 'When adding forms, explain how the data is used and link to the privacy notice.',
+        };
+      }
+
+      const withoutConsent = forms.filter((form) => !/consent|privacy|data protection/i.test(form));
+      return {
+        id: this.id,
+        title: this.title,
+        status: withoutConsent.length === 0 ? 'Compliant' : 'Warning',
+        summary:
+          withoutConsent.length === 0
+            ? 'Forms collecting personal data reference consent or the privacy notice.'
+            : `${withoutConsent.length} form(s) collect personal data without a consent statement.`,
+        recommendation: 'Add a short privacy statement and link next to each form that collects personal data.',
+      };
+    },
+  },
+  {
+    id: 'data-protection-statement',
+    category: 'memberData',
+    title: 'Data protection statement',
+    description: 'The site references UK GDPR or data protection.',
+    weight: 2,
+    evaluate(context) {
+      const mentioned = /gdpr|data protection|information commissioner|\bico\b/i.test(context.text);
+      return {
+        id: this.id,
+        title: this.title,
+        status: mentioned ? 'Compliant' : 'Warning',
+        summary: mentioned
+          ? 'The site references UK GDPR or data protection.'
+          : 'The site does not mention data protection or UK GDPR.',
+        recommendation: 'Explain the lawful basis for processing supporter data and how to contact the data controller.',
+      };
+    },
+  },
+];
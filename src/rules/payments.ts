@@ -0,0 +1,101 @@
+import { findLink } from '../scanner/context.js';
+import type { ScanContext } from '../scanner/context.js';
+import type { ComplianceRule } from './types.js';
+
+const PAYMENT_PROVIDER_PATTERN = /stripe\.com|paypal\.com|justgiving\.com|enthuse\.com|gocardless\.com|donorbox\.org|blackbaud|givey|charitycheckout/i;
+
+function usesPaymentProvider(context: ScanContext): boolean {
+  return (
+    PAYMENT_PROVIDER_PATTERN.test(context.html) ||
+    context.links.some((link) => PAYMENT_PROVIDER_PATTERN.test(link.href))
+  );
+}
+
+function acceptsDonations(context: ScanContext): boolean {
+  return findLink(context, /donat|give|support us/i) !== undefined || usesPaymentProvider(context);
+}
+
+export const paymentRules: ComplianceRule[] = [
+  {
+    id: 'donations',
+    category: 'payments',
+    title: 'Online donations',
+    description: 'An online donation route is available.',
+    weight: 1,
+    evaluate(context) {
+      return acceptsDonations(context)
+        ? {
+            id: this.id,
+            title: this.title,
+            status: 'Compliant',
+            summary: 'An online donation route was found.',
+            recommendation: 'Show the charity number and a fundraising promise on the donation page.',
+          }
+        : {
+            id: this.id,
+            title: this.title,
+            status: 'Info',
+            summary: 'No online donation page was found.',
+            recommendation: 'If you accept donations online, link to the donation page from the homepage.',
+          };
+    },
+  },
+  {
+    id: 'payment-provider',
+    category: 'payments',
+    title: 'Payment provider',
+    description: 'Donations are taken through a PCI DSS compliant provider.',
+    weight: 3,
+    evaluate(context) {
+      if (!acceptsDonations(context)) {
+        return {
+          id: this.id,
+          title: this.title,
+          status: 'Info',
+          summary: 'No online payments were found.',
+          recommendation: 'Take card payments through a PCI DSS compliant provider rather than your own forms.',
+        };
+      }
+
+      const recognised = usesPaymentProvider(context);
+      return {
+        id: this.id,
+        title: this.title,
+        status: recognised ? 'Compliant' : 'Warning',
+        summary: recognised
+          ? 'Donations are processed by a recognised PCI DSS compliant provider.'
+          : 'No recognised payment provider was detected for donations.',
+        recommendation: 'Take card payments through a PCI DSS compliant provider rather than your own forms.',
+      };
+    },
+  },
+  {
+    id: 'gift-aid',
+    category: 'payments',
+    title: 'Gift Aid declaration',
+    description: 'Gift Aid wording includes the HMRC taxpayer declaration.',
+    weight: 2,
+    evaluate(context) {
+      if (!/gift ?aid/i.test(context.text)) {
+        return {
+          id: this.id,
+          title: this.title,
+          status: 'Info',
+          summary: 'Gift Aid is not mentioned on the scanned pages.',
+          recommendation: 'If you claim Gift Aid, include an HMRC compliant declaration on the donation form.',
+        };
+      }
+
+      const hasDeclaration = /uk tax ?payer|pay (?:less|enough) income tax|capital gains tax/i.test(context.text);
+      return {
+        id: this.id,
+        title: this.title,
+        status: hasDeclaration ? 'Compliant' : 'Warning',
+        summary: hasDeclaration
+          ? 'Gift Aid wording includes the UK taxpayer declaration.'
+          : 'Gift Aid is mentioned without the HMRC taxpayer declaration wording.',
+        recommendation: 'Use HMRC\'s model Gift Aid declaration, including the statement about paying enough tax.',
+      };
+    },
+  },
+];
@@ -0,0 +1,54 @@
+import type { CheckCategory, ComplianceCheck, RuleSummary } from '../types/index.js';
+import type { ScanContext } from '../scanner/context.js';
+import { CHECK_CATEGORIES } from './types.js';
+import type { ComplianceRule } from './types.js';
+
+const rules = new Map<string, ComplianceRule>();
+
+/**
+ * Register a rule. Rule ids must be unique across all categories.
+ */
+export function registerRule(rule: ComplianceRule): void {
+  if (rules.has(rule.id)) {
+    throw new Error(`Rule already registered: ${rule.id}`);
+  }
+  rules.set(rule.id, rule);
+}
+
+export function getRule(id: string): ComplianceRule | undefined {
+  return rules.get(id);
+}
+
+/**
+ * List registered rules, optionally for a single category
+ */
+export function getRules(category?: CheckCategory): ComplianceRule[] {
+  const all = [...rules.values()];
+  return category ? all.filter((rule) => rule.category === category) : all;
+}
+
+export function toRuleSummary(rule: ComplianceRule): RuleSummary {
+  return {
+    id: rule.id,
+    category: rule.category,
+    title: rule.title,
+    description: rule.description,
+    weight: rule.weight,
+  };
+}
+
+/**
+ * Evaluate every registered rule, grouped by report category
+ */
+export function runRules(context: ScanContext): Record<CheckCategory, ComplianceCheck[]> {
+  const checks = Object.fromEntries(
+    CHECK_CATEGORIES.map((category) => [category, [] as ComplianceCheck[]])
+  ) as Record<CheckCategory, ComplianceCheck[]>;
+
+  for (const rule of rules.values()) {
+    // The rule id is authoritative so checks can be matched across reports
+    checks[rule.category].push({ ...rule.evaluate(context), id: rule.id });
+  }
+
+  return checks;
+}
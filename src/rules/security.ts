@@ -0,0 +1,98 @@
+import type { ScanContext } from '../scanner/context.js';
+import type { ComplianceRule } from './types.js';
+
+const RECOMMENDED_HEADERS = ['content-security-policy', 'x-content-type-options', 'x-frame-options'];
+
+function usesHttps(context: ScanContext): boolean {
+  return new URL(context.homepage.url).protocol === 'https:';
+}
+
+export const securityRules: ComplianceRule[] = [
+  {
+    id: 'https',
+    category: 'security',
+    title: 'HTTPS encryption',
+    description: 'The site is served over HTTPS.',
+    weight: 3,
+    evaluate(context) {
+      return usesHttps(context)
+        ? {
+            id: this.id,
+            title: this.title,
+            status: 'Compliant',
+            summary: 'The site is served over HTTPS.',
+            recommendation: 'Keep the TLS certificate renewed automatically.',
+          }
+        : {
+            id: this.id,
+            title: this.title,
+            status: 'Non-Compliant',
+            summary: 'The site is served over plain HTTP, so data in transit is not encrypted.',
+            recommendation: 'Install a TLS certificate and redirect all HTTP traffic to HTTPS.',
+          };
+    },
+  },
+  {
+    id: 'hsts',
+    category: 'security',
+    title: 'HTTP Strict Transport Security',
+    description: 'The Strict-Transport-Security header is sent.',
+    weight: 1,
+    evaluate(context) {
+      const hasHsts = 'strict-transport-security' in context.homepage.headers;
+      return {
+        id: this.id,
+        title: this.title,
+        status: hasHsts ? 'Compliant' : 'Warning',
+        summary: hasHsts
+          ? 'The Strict-Transport-Security header is set.'
+          : 'The Strict-Transport-Security header is not set.',
+        recommendation: hasHsts
+          ? 'Consider submitting the domain to the HSTS preload list.'
+          : 'Send a Strict-Transport-Security header so browsers always use HTTPS.',
+      };
+    },
+  },
+  {
+    id: 'mixed-content',
+    category: 'security',
+    title: 'Mixed content',
+    description: 'HTTPS pages do not load resources over plain HTTP.',
+    weight: 2,
+    evaluate(context) {
+      const insecure = usesHttps(context)
+        ? context.resources.filter((resource) => resource.startsWith('http://'))
+        : [];
+      return {
+        id: this.id,
+        title: this.title,
+        status: insecure.length === 0 ? 'Compliant' : 'Warning',
+        summary:
+          insecure.length > 0
+            ? `${insecure.length} resource(s) are loaded over insecure HTTP.`
+            : 'No insecure resources were found on HTTPS pages.',
+        recommendation: 'Load every script, image and stylesheet over HTTPS.',
+      };
+    },
+  },
+  {
+    id: 'security-headers',
+    category: 'security',
+    title: 'Security headers',
+    description: 'Recommended browser security headers are present.',
+    weight: 1,
+    evaluate(context) {
+      const missing = RECOMMENDED_HEADERS.filter((header) => !(header in context.homepage.headers));
+      return {
+        id: this.id,
+        title: this.title,
+        status: missing.length === 0 ? 'Compliant' : 'Warning',
+        summary:
+          missing.length === 0
+            ? 'Recommended security headers are present.'
+            : `Missing security headers: ${missing.join(', ')}.`,
+        recommendation: 'Configure Content-Security-Policy, X-Content-Type-Options and X-Frame-Options on the web server.',
+      };
+    },
+  },
+];
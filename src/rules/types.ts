@@ -0,0 +1,23 @@
+import type { CheckCategory, ComplianceCheck } from '../types/index.js';
+import type { ScanContext } from '../scanner/context.js';
+
+export const CHECK_CATEGORIES: readonly CheckCategory[] = [
+  'websitePolicies',
+  'security',
+  'memberData',
+  'marketing',
+  'payments',
+];
+
+/**
+ * A single compliance rule evaluated against a scanned site
+ */
+export interface ComplianceRule {
+  id: string;
+  category: CheckCategory;
+  title: string;
+  description: string;
+  // Relative importance of the rule when scoring (1 = minor, 3 = critical)
+  weight: number;
+  evaluate(context: ScanContext): ComplianceCheck;
+}
@@ -0,0 +1,96 @@
+import { findLink } from '../scanner/context.js';
+import type { ComplianceRule } from './types.js';
+
+export const websitePolicyRules: ComplianceRule[] = [
+  {
+    id: 'privacy-policy',
+    category: 'websitePolicies',
+    title: 'Privacy policy',
+    description: 'A privacy policy is linked from the site.',
+    weight: 3,
+    evaluate(context) {
+      const link = findLink(context, /privacy/i);
+      return link
+        ? {
+            id: this.id,
+            title: this.title,
+            status: 'Compliant',
+            summary: `A privacy policy is linked from the site (${link.href}).`,
+            recommendation: 'Review the privacy policy at least annually and after any change in how data is used.',
+          }
+        : {
+            id: this.id,
+            title: this.title,
+            status: 'Non-Compliant',
+            summary: 'No privacy policy link was found on the scanned pages.',
+            recommendation: 'Publish a UK GDPR privacy notice and link to it from every page, usually in the footer.',
+          };
+    },
+  },
+  {
+    id: 'cookie-policy',
+    category: 'websitePolicies',
+    title: 'Cookie policy',
+    description: 'A cookie policy is linked from the site.',
+    weight: 2,
+    evaluate(context) {
+      const link = findLink(context, /cookie/i);
+      return {
+        id: this.id,
+        title: this.title,
+        status: link ? 'Compliant' : 'Warning',
+        summary: link
+          ? 'A cookie policy is linked from the site.'
+          : 'No cookie policy link was found on the scanned pages.',
+        recommendation: link
+          ? 'Keep the cookie list in the policy in step with the cookies the site actually sets.'
+          : 'Publish a cookie policy describing each cookie, its purpose and duration (PECR).',
+      };
+    },
+  },
+  {
+    id: 'terms-of-use',
+    category: 'websitePolicies',
+    title: 'Terms of use',
+    description: 'Website terms and conditions are published.',
+    weight: 1,
+    evaluate(context) {
+      const link = findLink(context, /terms|conditions/i);
+      return {
+        id: this.id,
+        title: this.title,
+        status: link ? 'Compliant' : 'Info',
+        summary: link
+          ? 'Website terms and conditions are linked from the site.'
+          : 'No terms and conditions link was found.',
+        recommendation: link
+          ? 'Make sure the terms cover donations, refunds and acceptable use.'
+          : 'Consider publishing website terms, especially if you take online donations or sell goods.',
+      };
+    },
+  },
+  {
+    id: 'charity-number',
+    category: 'websitePolicies',
+    title: 'Registered charity number',
+    description: 'The registered charity number is displayed on the site.',
+    weight: 2,
+    evaluate(context) {
+      const found =
+        /registered charity\s*(?:no\.?|number|#)?\s*:?\s*\d{6,8}|charity\s*(?:no\.?|number)\s*:?\s*\d{6,8}|\bsc0\d{5}\b/i.test(
+          context.text
+        );
+      return {
+        id: this.id,
+        title: this.title,
+        status: found ? 'Compliant' : 'Warning',
+        summary: found
+          ? 'The registered charity number is displayed on the site.'
+          : 'No registered charity number was found on the scanned pages.',
+        recommendation: found
+          ? 'Keep the charity number visible on the homepage and donation pages.'
+          : 'Registered charities with income over £10,000 must state that they are registered on their website, including the number.',
+      };
+    },
+  },
+];
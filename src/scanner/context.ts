@@ -0,0 +1,42 @@
+import type { FetchedPage } from './fetcher.js';
+import { extractLinks, extractForms, extractResourceUrls, stripTags } from './html.js';
+import type { PageLink } from './html.js';
+
+/**
+ * Everything the checks need to know about a scanned site
+ */
+export interface ScanContext {
+  url: URL;
+  homepage: FetchedPage;
+  pages: FetchedPage[];
+  links: PageLink[];
+  forms: string[];
+  resources: string[];
+  text: string;
+  html: string;
+}
+
+/**
+ * Build the scan context from the homepage and any linked pages
+ */
+export function buildScanContext(url: URL, homepage: FetchedPage, pages: FetchedPage[]): ScanContext {
+  const allPages = [homepage, ...pages];
+
+  return {
+    url,
+    homepage,
+    pages: allPages,
+    links: allPages.flatMap((page) => extractLinks(page.html, page.url)),
+    forms: allPages.flatMap((page) => extractForms(page.html)),
+    resources: allPages.flatMap((page) => extractResourceUrls(page.html)),
+    text: allPages.map((page) => stripTags(page.html)).join(' ').toLowerCase(),
+    html: allPages.map((page) => page.html).join('\n').toLowerCase(),
+  };
+}
+
+/**
+ * Find a link whose text or URL matches the pattern
+ */
+export function findLink(context: ScanContext, pattern: RegExp): PageLink | undefined {
+  return context.links.find((link) => pattern.test(link.text) || pattern.test(link.href));
+}
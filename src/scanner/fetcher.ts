@@ -0,0 +1,147 @@
+import { isIP } from 'net';
+import { Agent, fetch } from 'undici';
+import type { Response } from 'undici';
+import { config } from '../config/env.js';
+import { isPublicAddress, lookupPublicAddress, unbracketHost } from './network.js';
+
+/**
+ * A single page retrieved by the scanner
+ */
+export interface FetchedPage {
+  url: string;
+  status: number;
+  headers: Record<string, string>;
+  html: string;
+}
+
+/**
+ * Page fetcher used by the scanner.
+ * Swap the HTTP implementation for a static one to scan local HTML fixtures.
+ */
+export interface PageFetcher {
+  fetch(url: string): Promise<FetchedPage | null>;
+}
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+// Connections resolve hostnames through the public address check
+const scannerAgent = new Agent({ connect: { lookup: lookupPublicAddress } });
+
+// Read at most maxBytes of a response body, cancelling the stream once the limit is reached
+async function readLimitedBody(response: Response, maxBytes: number): Promise<string> {
+  if (!response.body) {
+    return '';
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let received = 0;
+  let text = '';
+
+  try {
+    while (received < maxBytes) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      const chunk = value.subarray(0, maxBytes - received);
+      received += chunk.byteLength;
+      text += decoder.decode(chunk, { stream: true });
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+
+  return text + decoder.decode();
+}
+
+/**
+ * Fetch pages over HTTP(S) using the global fetch API.
+ * Every connection (including each redirect hop) is made to an address checked against private ranges.
+ */
+export function createHttpFetcher(): PageFetcher {
+  return {
+    async fetch(url: string): Promise<FetchedPage | null> {
+      try {
+        const signal = AbortSignal.timeout(config.scanner.timeoutMs);
+        let currentUrl = new URL(url);
+
+        for (let hop = 0; hop <= config.scanner.maxRedirects; hop++) {
+          if (currentUrl.protocol !== 'http:' && currentUrl.protocol !== 'https:') {
+            return null;
+          }
+
+          // IP literals are connected to without a lookup, so check them here
+          const host = unbracketHost(currentUrl.hostname);
+          if (isIP(host) && !isPublicAddress(host)) {
+            return null;
+          }
+
+          const response = await fetch(currentUrl, {
+            redirect: 'manual',
+            dispatcher: scannerAgent,
+            signal,
+            headers: {
+              'User-Agent': config.scanner.userAgent,
+              Accept: 'text/html,application/xhtml+xml',
+            },
+          });
+
+          const location = response.headers.get('location');
+          if (REDIRECT_STATUSES.has(response.status) && location) {
+            await response.body?.cancel();
+            currentUrl = new URL(location, currentUrl);
+            continue;
+          }
+
+          const headers: Record<string, string> = {};
+          response.headers.forEach((value, key) => {
+            headers[key.toLowerCase()] = value;
+          });
+
+          // Skip pages that declare a body over the limit without downloading them
+          const contentLength = parseInt(headers['content-length'] ?? '', 10);
+          if (contentLength > config.scanner.maxPageBytes) {
+            await response.body?.cancel();
+            return null;
+          }
+
+          return {
+            url: currentUrl.toString(),
+            status: response.status,
+            headers,
+            html: await readLimitedBody(response, config.scanner.maxPageBytes),
+          };
+        }
+
+        // Too many redirects
+        return null;
+      } catch {
+        return null;
+      }
+    },
+  };
+}
+
+/**
+ * Serve pages from an in-memory map of URL -> HTML (for tests and fixtures)
+ */
+export function createStaticFetcher(
+  pages: Record<string, string | Omit<FetchedPage, 'url'>>
+): PageFetcher {
+  return {
+    async fetch(url: string): Promise<FetchedPage | null> {
+      const page = pages[url];
+      if (page === undefined) {
+        return null;
+      }
+
+      if (typeof page === 'string') {
+        return { url, status: 200, headers: {}, html: page };
+      }
+
+      return { url, ...page };
+    },
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * Lightweight HTML helpers for the scanner (regex based, no DOM)
+ */
+
+export interface PageLink {
+  href: string;
+  text: string;
+}
+
+/**
+ * Extract anchor links, resolved against the page URL
+ */
+export function extractLinks(html: string, baseUrl: string): PageLink[] {
+  const links: PageLink[] = [];
+  const anchorRegex = /<a\b[^>]*\bhref\s*=\s*["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi;
+
+  let match: RegExpExecArray | null;
+  while ((match = anchorRegex.exec(html)) !== null) {
+    try {
+      const href = new URL(match[1], baseUrl).toString();
+      links.push({ href, text: stripTags(match[2]) });
+    } catch {
+      // Ignore malformed hrefs
+    }
+  }
+
+  return links;
+}
+
+/**
+ * Remove scripts, styles and tags, collapsing whitespace
+ */
+export function stripTags(html: string): string {
+  return html
+    .replace(/<script\b[\s\S]*?<\/script>/gi, ' ')
+    .replace(/<style\b[\s\S]*?<\/style>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&amp;/gi, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Collect src attributes of scripts, images, iframes and stylesheets
+ */
+export function extractResourceUrls(html: string): string[] {
+  const urls: string[] = [];
+  const resourceRegex = /<(?:script|img|iframe|link|source)\b[^>]*\b(?:src|href)\s*=\s*["']([^"']+)["']/gi;
+
+  let match: RegExpExecArray | null;
+  while ((match = resourceRegex.exec(html)) !== null) {
+    urls.push(match[1]);
+  }
+
+  return urls;
+}
+
+/**
+ * Extract the raw markup of every <form> element
+ */
+export function extractForms(html: string): string[] {
+  return html.match(/<form\b[\s\S]*?<\/form>/gi) ?? [];
+}
@@ -0,0 +1,94 @@
+import { isIP } from 'net';
+import type { ComplianceReport } from '../types/index.js';
+import { config } from '../config/env.js';
+import { createHttpFetcher } from './fetcher.js';
+import type { PageFetcher } from './fetcher.js';
+import { buildScanContext } from './context.js';
+import { extractLinks } from './html.js';
+import { isPublicAddress, unbracketHost } from './network.js';
+import { runRules } from '../rules/index.js';
+import { scoreReport } from '../utils/scoring.js';
+
+export { createHttpFetcher, createStaticFetcher } from './fetcher.js';
+export type { PageFetcher, FetchedPage } from './fetcher.js';
+
+export interface ScanOptions {
+  fetcher?: PageFetcher;
+}
+
+export class ScanError extends Error {}
+
+// Linked pages worth fetching in addition to the homepage
+const FOLLOW_LINK_PATTERN = /privacy|cookie|terms|donat|give|gift-?aid|data-?protection|contact|about/i;
+
+const LOCAL_HOST_PATTERN = /(?:^|\.)localhost\.?$/i;
+
+/**
+ * Parse and validate a URL the scanner is allowed to visit
+ */
+export function parseScanUrl(input: string): URL | null {
+  let url: URL;
+  try {
+    url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(input) ? input : `https://${input}`);
+  } catch {
+    return null;
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return null;
+  }
+
+  // Don't let the scanner be used to probe internal services.
+  // Hostnames are checked by the HTTP fetcher as it connects, on every request and redirect.
+  const host = unbracketHost(url.hostname);
+  if (LOCAL_HOST_PATTERN.test(host) || (isIP(host) && !isPublicAddress(host))) {
+    return null;
+  }
+
+  return url;
+}
+
+/**
+ * Scan a website and build a ComplianceReport from the server-side checks
+ */
+export async function scanSite(url: URL, options: ScanOptions = {}): Promise<ComplianceReport> {
+  const fetcher = options.fetcher ?? createHttpFetcher();
+
+  const homepage = await fetcher.fetch(url.toString());
+  if (!homepage || homepage.status >= 400) {
+    throw new ScanError(`Could not fetch ${url.toString()}`);
+  }
+
+  // Follow same-site links to policy and donation pages
+  const homeHost = new URL(homepage.url).hostname;
+  const candidates = new Set<string>();
+  for (const link of extractLinks(homepage.html, homepage.url)) {
+    const linkUrl = new URL(link.href);
+    linkUrl.hash = '';
+    if (
+      linkUrl.hostname === homeHost &&
+      linkUrl.toString() !== homepage.url &&
+      (FOLLOW_LINK_PATTERN.test(link.text) || FOLLOW_LINK_PATTERN.test(linkUrl.pathname))
+    ) {
+      candidates.add(linkUrl.toString());
+    }
+  }
+
+  const pageUrls = [...candidates].slice(0, config.scanner.maxPages - 1);
+  const fetched = await Promise.all(pageUrls.map((pageUrl) => fetcher.fetch(pageUrl)));
+  const pages = fetched.filter((page) => page !== null && page.status < 400) as NonNullable<
+    (typeof fetched)[number]
+  >[];
+
+  const context = buildScanContext(url, homepage, pages);
+  const checks = runRules(context);
+
+  return scoreReport({
+    scannedUrl: url.toString(),
+    scanDate: new Date().toISOString(),
+    overallStatus: 'Info',
+    overallScore: 0,
+    summary: { goodPoints: [], warnings: [], threats: [] },
+    checks,
+  });
+}
@@ -0,0 +1,130 @@
+import { BlockList, isIP } from 'net';
+import dns from 'dns';
+import type { LookupAddress, LookupOptions } from 'dns';
+
+// Address ranges the scanner must never connect to
+const blockedAddresses = new BlockList();
+blockedAddresses.addSubnet('0.0.0.0', 8, 'ipv4'); // "this" network
+blockedAddresses.addSubnet('10.0.0.0', 8, 'ipv4');
+blockedAddresses.addSubnet('100.64.0.0', 10, 'ipv4'); // carrier-grade NAT
+blockedAddresses.addSubnet('127.0.0.0', 8, 'ipv4');
+blockedAddresses.addSubnet('169.254.0.0', 16, 'ipv4'); // link-local, cloud metadata
+blockedAddresses.addSubnet('172.16.0.0', 12, 'ipv4');
+blockedAddresses.addSubnet('192.0.0.0', 24, 'ipv4');
+blockedAddresses.addSubnet('192.168.0.0', 16, 'ipv4');
+blockedAddresses.addSubnet('198.18.0.0', 15, 'ipv4'); // benchmarking
+blockedAddresses.addSubnet('224.0.0.0', 4, 'ipv4'); // multicast
+blockedAddresses.addSubnet('240.0.0.0', 4, 'ipv4'); // reserved, broadcast
+blockedAddresses.addSubnet('::', 128, 'ipv6');
+blockedAddresses.addSubnet('::1', 128, 'ipv6');
+blockedAddresses.addSubnet('fc00::', 7, 'ipv6'); // unique local (ULA)
+blockedAddresses.addSubnet('fe80::', 10, 'ipv6'); // link-local
+blockedAddresses.addSubnet('fec0::', 10, 'ipv6'); // site-local (deprecated)
+blockedAddresses.addSubnet('ff00::', 8, 'ipv6'); // multicast
+
+// Expand an IPv6 address into its eight 16-bit groups
+function ipv6Groups(address: string): number[] | null {
+  let value = address.toLowerCase().replace(/%.*$/, '');
+
+  // Trailing dotted IPv4, e.g. ::ffff:127.0.0.1
+  const dotted = value.match(/^(.*:)(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(2).map(Number);
+    value = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const halves = value.split('::');
+  if (halves.length > 2) {
+    return null;
+  }
+
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const fill = halves.length === 2 ? 8 - head.length - tail.length : 0;
+  const groups = [...head, ...new Array<string>(Math.max(fill, 0)).fill('0'), ...tail].map((group) =>
+    parseInt(group, 16)
+  );
+
+  return groups.length === 8 && groups.every((group) => !isNaN(group)) ? groups : null;
+}
+
+// IPv4 address carried inside an IPv6 one (mapped ::ffff:a.b.c.d, compatible ::a.b.c.d, NAT64 64:ff9b::a.b.c.d)
+function embeddedIPv4(groups: number[]): string | null {
+  const mapped = groups.slice(0, 5).every((group) => group === 0) && (groups[5] === 0xffff || groups[5] === 0);
+  const nat64 = groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((group) => group === 0);
+  if (!mapped && !nat64) {
+    return null;
+  }
+
+  return [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff].join('.');
+}
+
+/**
+ * Check whether an IP address is publicly routable (not private, loopback, link-local or ULA)
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+
+  if (family === 4) {
+    return !blockedAddresses.check(address, 'ipv4');
+  }
+
+  if (family === 6) {
+    const groups = ipv6Groups(address);
+    if (!groups) {
+      return false;
+    }
+
+    const ipv4 = embeddedIPv4(groups);
+    if (ipv4) {
+      return !blockedAddresses.check(ipv4, 'ipv4');
+    }
+
+    return !blockedAddresses.check(address.replace(/%.*$/, ''), 'ipv6');
+  }
+
+  return false;
+}
+
+/**
+ * Strip the brackets URL.hostname keeps around IPv6 literals
+ */
+export function unbracketHost(hostname: string): string {
+  return hostname.startsWith('[') && hostname.endsWith(']') ? hostname.slice(1, -1) : hostname;
+}
+
+export class BlockedAddressError extends Error {
+  code = 'EBLOCKEDADDRESS';
+}
+
+type LookupCallback = (
+  error: NodeJS.ErrnoException | null,
+  address: string | LookupAddress[],
+  family?: number
+) => void;
+
+/**
+ * DNS lookup for the scanner's connections: resolves the name and fails unless every
+ * address is public. The socket connects to the address checked here, so a name that
+ * resolves differently on a second lookup (DNS rebinding) can't reach a private one.
+ * A name with any private address is refused, so a mixed answer can't be used either.
+ */
+export function lookupPublicAddress(hostname: string, options: LookupOptions, callback: LookupCallback): void {
+  dns.lookup(hostname, { ...options, all: true, verbatim: true }, (error, addresses) => {
+    if (error) {
+      callback(error, []);
+      return;
+    }
+
+    if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+      callback(new BlockedAddressError(`${hostname} resolves to a non-public address`), []);
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
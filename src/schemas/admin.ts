@@ -0,0 +1,42 @@
+import { errorResponseSchema, idParamsSchema, successResponseSchema } from './common.js';
+
+const securityEventSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'integer' },
+    type: { type: 'string' },
+    userId: { type: ['integer', 'null'] },
+    email: { type: ['string', 'null'] },
+    ipAddress: { type: ['string', 'null'] },
+    details: { type: 'object', additionalProperties: true },
+    createdAt: { type: 'string' },
+  },
+} as const;
+
+export const unlockUserSchema = {
+  params: idParamsSchema,
+  response: {
+    200: successResponseSchema,
+    404: errorResponseSchema,
+  },
+} as const;
+
+export const getSecurityEventsSchema = {
+  querystring: {
+    type: 'object',
+    properties: {
+      limit: { type: 'integer', minimum: 1, maximum: 100, default: 50 },
+      offset: { type: 'integer', minimum: 0, maximum: 1000000, default: 0 },
+      userId: { type: 'integer', minimum: 1 },
+    },
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        events: { type: 'array', items: securityEventSchema },
+        total: { type: 'integer' },
+      },
+    },
+  },
+} as const;
@@ -0,0 +1,73 @@
+import { checkCategorySchema, dateQuerySchema, errorResponseSchema } from './common.js';
+
+const reportCountSchema = { type: 'integer' } as const;
+
+export const getAnalyticsSchema = {
+  querystring: {
+    type: 'object',
+    properties: {
+      bucket: { type: 'string', enum: ['day', 'week', 'month'], default: 'month' },
+      // Plain dates (YYYY-MM-DD) include the whole UTC day
+      from: dateQuerySchema,
+      to: dateQuerySchema,
+      limit: { type: 'integer', minimum: 1, maximum: 50, default: 10 },
+    },
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        scoreTrend: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              bucket: { type: 'string' },
+              averageScore: { type: 'number' },
+              reportCount: reportCountSchema,
+            },
+          },
+        },
+        statusDistribution: {
+          type: 'object',
+          properties: {
+            Compliant: reportCountSchema,
+            Warning: reportCountSchema,
+            'Non-Compliant': reportCountSchema,
+            Info: reportCountSchema,
+          },
+        },
+        failingChecks: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              category: checkCategorySchema,
+              checkId: { type: 'string' },
+              title: { type: 'string' },
+              failures: reportCountSchema,
+            },
+          },
+        },
+        regressions: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              siteId: { type: 'integer' },
+              url: { type: 'string' },
+              reportId: { type: 'integer' },
+              previousReportId: { type: 'integer' },
+              score: { type: 'integer' },
+              previousScore: { type: 'integer' },
+              scanDate: { type: 'string' },
+              previousScanDate: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    400: errorResponseSchema,
+    500: errorResponseSchema,
+  },
+} as const;
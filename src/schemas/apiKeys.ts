@@ -0,0 +1,63 @@
+import { errorResponseSchema, idParamsSchema, successResponseSchema } from './common.js';
+
+const apiKeyScopeSchema = {
+  type: 'string',
+  enum: ['reports:read', 'reports:write', 'scans:run'],
+} as const;
+
+const apiKeySummarySchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'integer' },
+    name: { type: 'string' },
+    prefix: { type: 'string' },
+    organizationId: { type: ['integer', 'null'] },
+    scopes: { type: 'array', items: apiKeyScopeSchema },
+    expiresAt: { type: ['string', 'null'] },
+    lastUsedAt: { type: ['string', 'null'] },
+    createdAt: { type: 'string' },
+  },
+} as const;
+
+export const createApiKeySchema = {
+  body: {
+    type: 'object',
+    required: ['name', 'scopes'],
+    properties: {
+      name: { type: 'string', minLength: 1, maxLength: 255 },
+      scopes: { type: 'array', items: apiKeyScopeSchema, minItems: 1, uniqueItems: true },
+      // Omit for a key that never expires
+      expiresInDays: { type: 'integer', minimum: 1, maximum: 3650 },
+    },
+  },
+  response: {
+    201: {
+      type: 'object',
+      properties: {
+        apiKey: apiKeySummarySchema,
+        key: { type: 'string' },
+      },
+    },
+    403: errorResponseSchema,
+  },
+} as const;
+
+export const getApiKeysSchema = {
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        apiKeys: { type: 'array', items: apiKeySummarySchema },
+      },
+    },
+    500: errorResponseSchema,
+  },
+} as const;
+
+export const deleteApiKeySchema = {
+  params: idParamsSchema,
+  response: {
+    200: successResponseSchema,
+    404: errorResponseSchema,
+  },
+} as const;
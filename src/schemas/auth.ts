@@ -0,0 +1,338 @@
+import { errorResponseSchema, idParamsSchema, successResponseSchema } from './common.js';
+
+const credentialsProperties = {
+  email: { type: 'string', minLength: 3, maxLength: 255 },
+  password: { type: 'string', minLength: 1, maxLength: 128 },
+} as const;
+
+const authResponseSchema = {
+  type: 'object',
+  properties: {
+    accessToken: { type: 'string' },
+    refreshToken: { type: 'string' },
+    user: {
+      type: 'object',
+      properties: {
+        id: { type: 'integer' },
+        email: { type: 'string' },
+        fullName: { type: ['string', 'null'] },
+        emailVerified: { type: 'boolean' },
+      },
+    },
+  },
+} as const;
+
+const mfaCodeProperty = { type: 'string', minLength: 6, maxLength: 20 } as const;
+
+const emailBodySchema = {
+  type: 'object',
+  required: ['email'],
+  properties: {
+    email: credentialsProperties.email,
+  },
+} as const;
+
+const refreshTokenBodySchema = {
+  type: 'object',
+  required: ['refreshToken'],
+  properties: {
+    refreshToken: { type: 'string', minLength: 1, maxLength: 500 },
+  },
+} as const;
+
+export const registerSchema = {
+  body: {
+    type: 'object',
+    required: ['email', 'password'],
+    properties: {
+      ...credentialsProperties,
+      fullName: { type: 'string', maxLength: 255 },
+    },
+  },
+  response: {
+    201: authResponseSchema,
+    409: errorResponseSchema,
+  },
+} as const;
+
+// Either an auth response or, with 2FA enabled, an MFA challenge
+const loginResponseSchema = {
+  type: 'object',
+  properties: {
+    ...authResponseSchema.properties,
+    mfaRequired: { type: 'boolean' },
+    mfaToken: { type: 'string' },
+  },
+} as const;
+
+export const loginSchema = {
+  body: {
+    type: 'object',
+    required: ['email', 'password'],
+    properties: credentialsProperties,
+  },
+  response: {
+    200: loginResponseSchema,
+    401: errorResponseSchema,
+    429: errorResponseSchema,
+  },
+} as const;
+
+export const getOidcProvidersSchema = {
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        providers: { type: 'array', items: { type: 'string' } },
+      },
+    },
+  },
+} as const;
+
+export const oidcAuthorizeSchema = {
+  params: {
+    type: 'object',
+    required: ['provider'],
+    properties: {
+      provider: { type: 'string', maxLength: 50 },
+    },
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        authorizationUrl: { type: 'string' },
+        clientNonce: { type: 'string' },
+      },
+    },
+    404: errorResponseSchema,
+    500: errorResponseSchema,
+    502: errorResponseSchema,
+  },
+} as const;
+
+export const oidcCallbackSchema = {
+  body: {
+    type: 'object',
+    required: ['code', 'state', 'clientNonce'],
+    properties: {
+      code: { type: 'string', minLength: 1, maxLength: 2000 },
+      state: { type: 'string', minLength: 1, maxLength: 200 },
+      clientNonce: { type: 'string', minLength: 1, maxLength: 200 },
+    },
+  },
+  response: {
+    200: loginResponseSchema,
+    400: errorResponseSchema,
+    401: errorResponseSchema,
+    403: errorResponseSchema,
+    500: errorResponseSchema,
+  },
+} as const;
+
+export const refreshSchema = {
+  body: refreshTokenBodySchema,
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        accessToken: { type: 'string' },
+        refreshToken: { type: 'string' },
+      },
+    },
+    401: errorResponseSchema,
+  },
+} as const;
+
+export const logoutSchema = {
+  body: refreshTokenBodySchema,
+  response: {
+    200: successResponseSchema,
+  },
+} as const;
+
+export const logoutAllSchema = {
+  response: {
+    200: successResponseSchema,
+    500: errorResponseSchema,
+  },
+} as const;
+
+export const getSessionsSchema = {
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        sessions: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'integer' },
+              device: { type: ['string', 'null'] },
+              ipAddress: { type: ['string', 'null'] },
+              createdAt: { type: 'string' },
+              lastUsedAt: { type: 'string' },
+              expiresAt: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    500: errorResponseSchema,
+  },
+} as const;
+
+export const deleteSessionSchema = {
+  params: idParamsSchema,
+  response: {
+    200: successResponseSchema,
+    404: errorResponseSchema,
+  },
+} as const;
+
+export const verifyEmailSchema = {
+  body: {
+    type: 'object',
+    required: ['token'],
+    properties: {
+      token: { type: 'string', minLength: 1, maxLength: 200 },
+    },
+  },
+  response: {
+    200: successResponseSchema,
+    400: errorResponseSchema,
+    500: errorResponseSchema,
+  },
+} as const;
+
+export const resendVerificationSchema = {
+  body: emailBodySchema,
+  response: {
+    200: successResponseSchema,
+    429: errorResponseSchema,
+    500: errorResponseSchema,
+  },
+} as const;
+
+export const forgotPasswordSchema = {
+  body: emailBodySchema,
+  response: {
+    200: successResponseSchema,
+    429: errorResponseSchema,
+    500: errorResponseSchema,
+  },
+} as const;
+
+export const resetPasswordSchema = {
+  body: {
+    type: 'object',
+    required: ['token', 'password'],
+    properties: {
+      token: { type: 'string', minLength: 1, maxLength: 200 },
+      password: credentialsProperties.password,
+    },
+  },
+  response: {
+    200: successResponseSchema,
+    400: errorResponseSchema,
+    500: errorResponseSchema,
+  },
+} as const;
+
+export const mfaLoginSchema = {
+  body: {
+    type: 'object',
+    required: ['mfaToken', 'code'],
+    properties: {
+      mfaToken: { type: 'string', minLength: 1, maxLength: 1000 },
+      code: mfaCodeProperty,
+    },
+  },
+  response: {
+    200: authResponseSchema,
+    401: errorResponseSchema,
+    429: errorResponseSchema,
+  },
+} as const;
+
+export const getMfaStatusSchema = {
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        enabled: { type: 'boolean' },
+        recoveryCodesRemaining: { type: 'integer' },
+      },
+    },
+    500: errorResponseSchema,
+  },
+} as const;
+
+export const setupMfaSchema = {
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        secret: { type: 'string' },
+        otpauthUri: { type: 'string' },
+      },
+    },
+    404: errorResponseSchema,
+    409: errorResponseSchema,
+    500: errorResponseSchema,
+  },
+} as const;
+
+const recoveryCodesResponseSchema = {
+  type: 'object',
+  properties: {
+    recoveryCodes: { type: 'array', items: { type: 'string' } },
+  },
+} as const;
+
+const mfaCodeBodySchema = {
+  type: 'object',
+  required: ['code'],
+  properties: {
+    code: mfaCodeProperty,
+  },
+} as const;
+
+export const enableMfaSchema = {
+  body: mfaCodeBodySchema,
+  response: {
+    200: recoveryCodesResponseSchema,
+    400: errorResponseSchema,
+    404: errorResponseSchema,
+    409: errorResponseSchema,
+  },
+} as const;
+
+export const disableMfaSchema = {
+  body: {
+    type: 'object',
+    required: ['password', 'code'],
+    properties: {
+      password: credentialsProperties.password,
+      code: mfaCodeProperty,
+    },
+  },
+  response: {
+    200: successResponseSchema,
+    400: errorResponseSchema,
+    401: errorResponseSchema,
+    404: errorResponseSchema,
+    429: errorResponseSchema,
+  },
+} as const;
+
+export const regenerateRecoveryCodesSchema = {
+  body: mfaCodeBodySchema,
+  response: {
+    200: recoveryCodesResponseSchema,
+    400: errorResponseSchema,
+    404: errorResponseSchema,
+    429: errorResponseSchema,
+  },
+} as const;
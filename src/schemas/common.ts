@@ -0,0 +1,106 @@
+/**
+ * Shared JSON Schemas used by route definitions
+ */
+
+export const complianceStatusSchema = {
+  type: 'string',
+  enum: ['Compliant', 'Warning', 'Non-Compliant', 'Info'],
+} as const;
+
+export const checkCategorySchema = {
+  type: 'string',
+  enum: ['websitePolicies', 'security', 'memberData', 'marketing', 'payments'],
+} as const;
+
+// A date (YYYY-MM-DD) or date-time in a query string
+export const dateQuerySchema = {
+  type: 'string',
+  anyOf: [{ format: 'date' }, { format: 'date-time' }],
+} as const;
+
+export const idParamsSchema = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'integer', minimum: 1 },
+  },
+} as const;
+
+export const errorResponseSchema = {
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+    message: { type: 'string' },
+    details: {},
+  },
+} as const;
+
+export const successResponseSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    message: { type: 'string' },
+  },
+} as const;
+
+export const complianceCheckSchema = {
+  type: 'object',
+  required: ['id', 'title', 'status', 'summary', 'recommendation'],
+  properties: {
+    id: { type: 'string', minLength: 1, maxLength: 100 },
+    title: { type: 'string', maxLength: 500 },
+    status: complianceStatusSchema,
+    summary: { type: 'string', maxLength: 5000 },
+    recommendation: { type: 'string', maxLength: 5000 },
+  },
+} as const;
+
+const checkListSchema = {
+  type: 'array',
+  maxItems: 200,
+  items: complianceCheckSchema,
+} as const;
+
+const summaryListSchema = {
+  type: 'array',
+  maxItems: 1000,
+  items: { type: 'string', maxLength: 500 },
+} as const;
+
+export const complianceReportSchema = {
+  type: 'object',
+  required: ['scannedUrl', 'scanDate', 'overallStatus', 'overallScore', 'summary', 'checks'],
+  properties: {
+    scannedUrl: { type: 'string', minLength: 1, maxLength: 2048 },
+    scanDate: { type: 'string', format: 'date-time' },
+    overallStatus: complianceStatusSchema,
+    overallScore: { type: 'integer', minimum: 0, maximum: 100 },
+    summary: {
+      type: 'object',
+      required: ['goodPoints', 'warnings', 'threats'],
+      properties: {
+        goodPoints: summaryListSchema,
+        warnings: summaryListSchema,
+        threats: summaryListSchema,
+      },
+    },
+    checks: {
+      type: 'object',
+      required: ['websitePolicies', 'security', 'memberData', 'marketing', 'payments'],
+      properties: {
+        websitePolicies: checkListSchema,
+        security: checkListSchema,
+        memberData: checkListSchema,
+        marketing: checkListSchema,
+        payments: checkListSchema,
+      },
+    },
+  },
+} as const;
+
+// Report JSON as stored, for responses. Older or partial reports may lack fields the
+// request schema requires, and unknown fields are passed through unchanged.
+export const storedReportSchema = {
+  type: 'object',
+  additionalProperties: true,
+} as const;
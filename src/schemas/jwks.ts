@@ -0,0 +1,27 @@
+export const getJwksSchema = {
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        keys: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              kty: { type: 'string' },
+              kid: { type: 'string' },
+              alg: { type: 'string' },
+              use: { type: 'string' },
+              // RSA
+              n: { type: 'string' },
+              e: { type: 'string' },
+              // Ed25519
+              crv: { type: 'string' },
+              x: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+  },
+} as const;
@@ -0,0 +1,214 @@
+import { errorResponseSchema, idParamsSchema, successResponseSchema } from './common.js';
+
+const roleSchema = {
+  type: 'string',
+  enum: ['owner', 'admin', 'editor', 'viewer'],
+} as const;
+
+const organizationSummarySchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'integer' },
+    name: { type: 'string' },
+    role: roleSchema,
+    memberCount: { type: 'integer' },
+    createdAt: { type: 'string' },
+  },
+} as const;
+
+const invitationSummarySchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'integer' },
+    email: { type: 'string' },
+    role: roleSchema,
+    expiresAt: { type: 'string' },
+    createdAt: { type: 'string' },
+  },
+} as const;
+
+const memberParamsSchema = {
+  type: 'object',
+  required: ['id', 'userId'],
+  properties: {
+    id: { type: 'integer', minimum: 1 },
+    userId: { type: 'integer', minimum: 1 },
+  },
+} as const;
+
+const invitationParamsSchema = {
+  type: 'object',
+  required: ['id', 'invitationId'],
+  properties: {
+    id: { type: 'integer', minimum: 1 },
+    invitationId: { type: 'integer', minimum: 1 },
+  },
+} as const;
+
+export const createOrganizationSchema = {
+  body: {
+    type: 'object',
+    required: ['name'],
+    properties: {
+      name: { type: 'string', minLength: 1, maxLength: 255 },
+    },
+  },
+  response: {
+    201: {
+      type: 'object',
+      properties: {
+        organization: organizationSummarySchema,
+      },
+    },
+  },
+} as const;
+
+export const getOrganizationsSchema = {
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        organizations: { type: 'array', items: organizationSummarySchema },
+      },
+    },
+    500: errorResponseSchema,
+  },
+} as const;
+
+export const getMembersSchema = {
+  params: idParamsSchema,
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        members: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              userId: { type: 'integer' },
+              email: { type: 'string' },
+              fullName: { type: ['string', 'null'] },
+              role: roleSchema,
+              joinedAt: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    403: errorResponseSchema,
+  },
+} as const;
+
+export const removeMemberSchema = {
+  params: memberParamsSchema,
+  response: {
+    200: successResponseSchema,
+    403: errorResponseSchema,
+    404: errorResponseSchema,
+    409: errorResponseSchema,
+  },
+} as const;
+
+export const updateMemberSchema = {
+  params: memberParamsSchema,
+  body: {
+    type: 'object',
+    required: ['role'],
+    properties: {
+      role: roleSchema,
+    },
+  },
+  response: {
+    200: successResponseSchema,
+    403: errorResponseSchema,
+    404: errorResponseSchema,
+    409: errorResponseSchema,
+  },
+} as const;
+
+export const createInvitationSchema = {
+  params: idParamsSchema,
+  body: {
+    type: 'object',
+    required: ['email'],
+    properties: {
+      email: { type: 'string', minLength: 3, maxLength: 255 },
+      role: roleSchema,
+    },
+  },
+  response: {
+    201: {
+      type: 'object',
+      properties: {
+        invitation: invitationSummarySchema,
+        token: { type: 'string' },
+      },
+    },
+    403: errorResponseSchema,
+  },
+} as const;
+
+export const getInvitationsSchema = {
+  params: idParamsSchema,
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        invitations: { type: 'array', items: invitationSummarySchema },
+      },
+    },
+    403: errorResponseSchema,
+  },
+} as const;
+
+export const deleteInvitationSchema = {
+  params: invitationParamsSchema,
+  response: {
+    200: successResponseSchema,
+    403: errorResponseSchema,
+    404: errorResponseSchema,
+  },
+} as const;
+
+export const acceptInvitationSchema = {
+  body: {
+    type: 'object',
+    required: ['token'],
+    properties: {
+      token: { type: 'string', minLength: 1, maxLength: 200 },
+    },
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        organizationId: { type: 'integer' },
+        role: roleSchema,
+      },
+    },
+    403: errorResponseSchema,
+    404: errorResponseSchema,
+    409: errorResponseSchema,
+  },
+} as const;
+
+export const switchOrganizationSchema = {
+  body: {
+    type: 'object',
+    required: ['organizationId'],
+    properties: {
+      organizationId: { type: ['integer', 'null'], minimum: 1 },
+    },
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        accessToken: { type: 'string' },
+        organizationId: { type: ['integer', 'null'] },
+      },
+    },
+    403: errorResponseSchema,
+  },
+} as const;
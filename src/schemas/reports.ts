@@ -0,0 +1,233 @@
+import {
+  checkCategorySchema,
+  complianceCheckSchema,
+  complianceReportSchema,
+  complianceStatusSchema,
+  dateQuerySchema,
+  errorResponseSchema,
+  idParamsSchema,
+  storedReportSchema,
+  successResponseSchema,
+} from './common.js';
+
+const reportSummarySchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'integer' },
+    scannedUrl: { type: 'string' },
+    scanDate: { type: 'string' },
+    overallStatus: complianceStatusSchema,
+    overallScore: { type: 'integer' },
+    createdAt: { type: 'string' },
+  },
+} as const;
+
+const reportSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'integer' },
+    user_id: { type: 'integer' },
+    organization_id: { type: ['integer', 'null'] },
+    site_id: { type: ['integer', 'null'] },
+    scanned_url: { type: 'string' },
+    scan_date: { type: 'string', format: 'date-time' },
+    overall_status: complianceStatusSchema,
+    overall_score: { type: 'integer' },
+    report_data: storedReportSchema,
+    score_mismatch: { type: 'boolean' },
+    created_at: { type: 'string', format: 'date-time' },
+  },
+} as const;
+
+export const createReportSchema = {
+  body: {
+    type: 'object',
+    required: ['report'],
+    properties: {
+      report: complianceReportSchema,
+    },
+  },
+  response: {
+    201: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean' },
+        reportId: { type: 'integer' },
+        overallScore: { type: 'integer' },
+        overallStatus: complianceStatusSchema,
+        scoreMismatches: { type: 'array', items: { type: 'string' } },
+      },
+    },
+    403: errorResponseSchema,
+    422: errorResponseSchema,
+  },
+} as const;
+
+export const getReportsSchema = {
+  querystring: {
+    type: 'object',
+    properties: {
+      limit: { type: 'integer', minimum: 1, maximum: 100, default: 50 },
+      offset: { type: 'integer', minimum: 0, maximum: 1000000, default: 0 },
+      cursor: { type: 'string', minLength: 1, maxLength: 200 },
+      sort: { type: 'string', enum: ['created_at', 'scan_date', 'score', 'relevance'], default: 'created_at' },
+      order: { type: 'string', enum: ['asc', 'desc'], default: 'desc' },
+      // Repeat to match any of several statuses (?status=Warning&status=Non-Compliant)
+      status: { type: 'array', items: complianceStatusSchema, maxItems: 4 },
+      minScore: { type: 'integer', minimum: 0, maximum: 100 },
+      maxScore: { type: 'integer', minimum: 0, maximum: 100 },
+      // Plain dates (YYYY-MM-DD) mean midnight UTC
+      from: dateQuerySchema,
+      to: dateQuerySchema,
+      url: { type: 'string', minLength: 1, maxLength: 2048 },
+      domain: { type: 'string', pattern: '^[A-Za-z0-9.-]+$', maxLength: 253 },
+      q: { type: 'string', minLength: 1, maxLength: 200 },
+      checkCategory: checkCategorySchema,
+      checkStatus: complianceStatusSchema,
+      checkId: { type: 'string', pattern: '^[a-z0-9-]+$', maxLength: 100 },
+    },
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        reports: { type: 'array', items: reportSummarySchema },
+        total: { type: 'integer' },
+        nextCursor: { type: ['string', 'null'] },
+      },
+    },
+    400: errorResponseSchema,
+  },
+} as const;
+
+export const getReportSchema = {
+  params: idParamsSchema,
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        report: reportSchema,
+      },
+    },
+    403: errorResponseSchema,
+    404: errorResponseSchema,
+  },
+} as const;
+
+export const deleteReportSchema = {
+  params: idParamsSchema,
+  response: {
+    200: successResponseSchema,
+    403: errorResponseSchema,
+    404: errorResponseSchema,
+  },
+} as const;
+
+export const getRecentReportsSchema = {
+  querystring: {
+    type: 'object',
+    properties: {
+      limit: { type: 'integer', minimum: 1, maximum: 50, default: 10 },
+      cursor: { type: 'string', minLength: 1, maxLength: 200 },
+    },
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        reports: { type: 'array', items: reportSummarySchema },
+        nextCursor: { type: ['string', 'null'] },
+      },
+    },
+    400: errorResponseSchema,
+  },
+} as const;
+
+const checkTransitionSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    title: { type: 'string' },
+    from: complianceStatusSchema,
+    to: complianceStatusSchema,
+  },
+} as const;
+
+const categoryDiffSchema = {
+  type: 'object',
+  properties: {
+    scoreFrom: { type: ['integer', 'null'] },
+    scoreTo: { type: ['integer', 'null'] },
+    scoreDelta: { type: ['integer', 'null'] },
+    transitions: { type: 'array', items: checkTransitionSchema },
+    added: { type: 'array', items: complianceCheckSchema },
+    removed: { type: 'array', items: complianceCheckSchema },
+    unchanged: { type: 'integer' },
+  },
+} as const;
+
+export const diffReportsSchema = {
+  params: {
+    type: 'object',
+    required: ['id', 'otherId'],
+    properties: {
+      id: { type: 'integer', minimum: 1 },
+      otherId: { type: 'integer', minimum: 1 },
+    },
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        diff: {
+          type: 'object',
+          properties: {
+            fromReportId: { type: 'integer' },
+            toReportId: { type: 'integer' },
+            overallScoreFrom: { type: 'integer' },
+            overallScoreTo: { type: 'integer' },
+            overallScoreDelta: { type: 'integer' },
+            overallStatusFrom: complianceStatusSchema,
+            overallStatusTo: complianceStatusSchema,
+            categories: {
+              type: 'object',
+              properties: {
+                websitePolicies: categoryDiffSchema,
+                security: categoryDiffSchema,
+                memberData: categoryDiffSchema,
+                marketing: categoryDiffSchema,
+                payments: categoryDiffSchema,
+              },
+            },
+          },
+        },
+      },
+    },
+    403: errorResponseSchema,
+    404: errorResponseSchema,
+  },
+} as const;
+
+export const exportReportSchema = {
+  params: idParamsSchema,
+  querystring: {
+    type: 'object',
+    properties: {
+      format: { type: 'string', enum: ['pdf', 'html'], default: 'pdf' },
+    },
+  },
+  response: {
+    403: errorResponseSchema,
+    404: errorResponseSchema,
+    500: errorResponseSchema,
+  },
+} as const;
+
+export const exportReportsSchema = {
+  querystring: {
+    type: 'object',
+    properties: {
+      rows: { type: 'string', enum: ['reports', 'checks'], default: 'reports' },
+    },
+  },
+} as const;
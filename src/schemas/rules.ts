@@ -0,0 +1,30 @@
+import { checkCategorySchema } from './common.js';
+
+export const getRulesSchema = {
+  querystring: {
+    type: 'object',
+    properties: {
+      category: checkCategorySchema,
+    },
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        rules: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              category: checkCategorySchema,
+              title: { type: 'string' },
+              description: { type: 'string' },
+              weight: { type: 'number' },
+            },
+          },
+        },
+      },
+    },
+  },
+} as const;
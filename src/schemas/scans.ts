@@ -0,0 +1,23 @@
+import { complianceReportSchema, errorResponseSchema } from './common.js';
+
+export const createScanSchema = {
+  body: {
+    type: 'object',
+    required: ['url'],
+    properties: {
+      url: { type: 'string', minLength: 1, maxLength: 2048 },
+    },
+  },
+  response: {
+    201: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean' },
+        reportId: { type: 'integer' },
+        report: complianceReportSchema,
+      },
+    },
+    403: errorResponseSchema,
+    422: errorResponseSchema,
+  },
+} as const;
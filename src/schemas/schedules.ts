@@ -0,0 +1,96 @@
+import { errorResponseSchema, idParamsSchema, successResponseSchema } from './common.js';
+
+const frequencySchema = {
+  type: 'string',
+  enum: ['weekly', 'monthly'],
+} as const;
+
+const scheduleSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'integer' },
+    user_id: { type: 'integer' },
+    organization_id: { type: ['integer', 'null'] },
+    site_id: { type: 'integer' },
+    frequency: frequencySchema,
+    enabled: { type: 'boolean' },
+    next_run_at: { type: 'string', format: 'date-time' },
+    last_run_at: { type: ['string', 'null'], format: 'date-time' },
+    last_report_id: { type: ['integer', 'null'] },
+    created_at: { type: 'string', format: 'date-time' },
+    updated_at: { type: 'string', format: 'date-time' },
+  },
+} as const;
+
+const scheduleResponseSchema = {
+  type: 'object',
+  properties: {
+    schedule: scheduleSchema,
+  },
+} as const;
+
+export const getSchedulesSchema = {
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        schedules: { type: 'array', items: scheduleSchema },
+      },
+    },
+    403: errorResponseSchema,
+    500: errorResponseSchema,
+  },
+} as const;
+
+export const getScheduleSchema = {
+  params: idParamsSchema,
+  response: {
+    200: scheduleResponseSchema,
+    403: errorResponseSchema,
+    404: errorResponseSchema,
+  },
+} as const;
+
+export const createScheduleSchema = {
+  body: {
+    type: 'object',
+    required: ['siteId', 'frequency'],
+    properties: {
+      siteId: { type: 'integer', minimum: 1 },
+      frequency: frequencySchema,
+      startAt: { type: 'string', format: 'date-time' },
+    },
+  },
+  response: {
+    201: scheduleResponseSchema,
+    403: errorResponseSchema,
+    404: errorResponseSchema,
+    409: errorResponseSchema,
+  },
+} as const;
+
+export const updateScheduleSchema = {
+  params: idParamsSchema,
+  body: {
+    type: 'object',
+    minProperties: 1,
+    properties: {
+      frequency: frequencySchema,
+      enabled: { type: 'boolean' },
+    },
+  },
+  response: {
+    200: scheduleResponseSchema,
+    403: errorResponseSchema,
+    404: errorResponseSchema,
+  },
+} as const;
+
+export const deleteScheduleSchema = {
+  params: idParamsSchema,
+  response: {
+    200: successResponseSchema,
+    403: errorResponseSchema,
+    404: errorResponseSchema,
+  },
+} as const;
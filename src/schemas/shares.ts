@@ -0,0 +1,110 @@
+import {
+  checkCategorySchema,
+  errorResponseSchema,
+  idParamsSchema,
+  storedReportSchema,
+  successResponseSchema,
+} from './common.js';
+
+const shareSummarySchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'integer' },
+    reportId: { type: 'integer' },
+    hasPassword: { type: 'boolean' },
+    redactedCategories: { type: 'array', items: checkCategorySchema },
+    expiresAt: { type: ['string', 'null'] },
+    revokedAt: { type: ['string', 'null'] },
+    lastAccessedAt: { type: ['string', 'null'] },
+    accessCount: { type: 'integer' },
+    createdAt: { type: 'string' },
+  },
+} as const;
+
+export const createShareSchema = {
+  params: idParamsSchema,
+  body: {
+    type: 'object',
+    properties: {
+      // Omit for a link that never expires
+      expiresInDays: { type: 'integer', minimum: 1, maximum: 365 },
+      password: { type: 'string', minLength: 8, maxLength: 128 },
+      redactCategories: { type: 'array', items: checkCategorySchema, uniqueItems: true },
+    },
+  },
+  response: {
+    201: {
+      type: 'object',
+      properties: {
+        share: shareSummarySchema,
+        token: { type: 'string' },
+        url: { type: 'string' },
+      },
+    },
+    403: errorResponseSchema,
+    404: errorResponseSchema,
+    500: errorResponseSchema,
+  },
+} as const;
+
+export const getSharesSchema = {
+  params: idParamsSchema,
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        shares: { type: 'array', items: shareSummarySchema },
+      },
+    },
+    403: errorResponseSchema,
+    404: errorResponseSchema,
+    500: errorResponseSchema,
+  },
+} as const;
+
+export const revokeShareSchema = {
+  params: {
+    type: 'object',
+    required: ['id', 'shareId'],
+    properties: {
+      id: { type: 'integer', minimum: 1 },
+      shareId: { type: 'integer', minimum: 1 },
+    },
+  },
+  response: {
+    200: successResponseSchema,
+    403: errorResponseSchema,
+    404: errorResponseSchema,
+    500: errorResponseSchema,
+  },
+} as const;
+
+export const getSharedReportSchema = {
+  params: {
+    type: 'object',
+    required: ['token'],
+    properties: {
+      token: { type: 'string', minLength: 1, maxLength: 200 },
+    },
+  },
+  headers: {
+    type: 'object',
+    properties: {
+      'x-share-password': { type: 'string', maxLength: 128 },
+    },
+  },
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        report: storedReportSchema,
+        redactedCategories: { type: 'array', items: checkCategorySchema },
+        expiresAt: { type: ['string', 'null'] },
+      },
+    },
+    401: errorResponseSchema,
+    404: errorResponseSchema,
+    429: errorResponseSchema,
+    500: errorResponseSchema,
+  },
+} as const;
@@ -0,0 +1,53 @@
+import { complianceStatusSchema, errorResponseSchema, idParamsSchema } from './common.js';
+
+const siteSummarySchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'integer' },
+    url: { type: 'string' },
+    normalizedUrl: { type: 'string' },
+    reportCount: { type: 'integer' },
+    latestScore: { type: ['integer', 'null'] },
+    latestStatus: { anyOf: [complianceStatusSchema, { type: 'null' }] },
+    lastScannedAt: { type: ['string', 'null'] },
+    createdAt: { type: 'string' },
+  },
+} as const;
+
+export const getSitesSchema = {
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        sites: { type: 'array', items: siteSummarySchema },
+      },
+    },
+    500: errorResponseSchema,
+  },
+} as const;
+
+export const getSiteHistorySchema = {
+  params: idParamsSchema,
+  response: {
+    200: {
+      type: 'object',
+      properties: {
+        site: siteSummarySchema,
+        history: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              reportId: { type: 'integer' },
+              scanDate: { type: 'string' },
+              overallScore: { type: 'integer' },
+              overallStatus: complianceStatusSchema,
+            },
+          },
+        },
+      },
+    },
+    403: errorResponseSchema,
+    404: errorResponseSchema,
+  },
+} as const;
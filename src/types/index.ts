@@ -30,6 +30,8 @@ export interface ComplianceReport {
   };
 }
 
+export type CheckCategory = keyof ComplianceReport['checks'];
+
 // Database models
 export interface User {
   id: number;
@@ -37,26 +39,245 @@ export interface User {
   password_hash: string;
   full_name: string | null;
   is_verified: boolean;
+  is_superadmin: boolean;
+  current_organization_id: number | null;
+  totp_secret: string | null;
+  totp_enabled: boolean;
+  // BIGINT, returned as a string by pg
+  totp_last_step: string | null;
   created_at: Date;
   updated_at: Date;
 }
 
+export type MembershipRole = 'owner' | 'admin' | 'editor' | 'viewer';
+
+// Membership roles plus the system-wide superadmin
+export type Role = MembershipRole | 'superadmin';
+
+// What an API key may do (on top of its owner's role in the key's workspace)
+export type ApiKeyScope = 'reports:read' | 'reports:write' | 'scans:run';
+
+export interface ApiKey {
+  id: number;
+  user_id: number;
+  // Workspace the key acts in (null = the owner's personal workspace)
+  organization_id: number | null;
+  name: string;
+  prefix: string;
+  secret_hash: string;
+  scopes: ApiKeyScope[];
+  expires_at: Date | null;
+  last_used_at: Date | null;
+  created_at: Date;
+}
+
+export interface Organization {
+  id: number;
+  name: string;
+  created_by: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface Membership {
+  id: number;
+  organization_id: number;
+  user_id: number;
+  role: MembershipRole;
+  created_at: Date;
+}
+
+export interface Invitation {
+  id: number;
+  organization_id: number;
+  email: string;
+  role: MembershipRole;
+  token_hash: string;
+  invited_by: number | null;
+  expires_at: Date;
+  accepted_at: Date | null;
+  created_at: Date;
+}
+
 export interface RefreshToken {
   id: number;
   user_id: number;
-  token: string;
+  token_hash: string;
+  // Shared by every token rotated from the same login
+  family_id: string;
+  expires_at: Date;
+  revoked_at: Date | null;
+  user_agent: string | null;
+  ip_address: string | null;
+  last_used_at: Date;
+  created_at: Date;
+}
+
+// Client details recorded with a refresh token
+export type EmailTokenPurpose = 'verify_email' | 'reset_password';
+
+export interface EmailToken {
+  id: number;
+  user_id: number;
+  purpose: EmailTokenPurpose;
+  token_hash: string;
   expires_at: Date;
+  used_at: Date | null;
   created_at: Date;
 }
 
+export type SecurityEventType = 'account_locked' | 'ip_locked' | 'account_unlocked';
+
+export interface SecurityEvent {
+  id: number;
+  type: SecurityEventType;
+  user_id: number | null;
+  email: string | null;
+  ip_address: string | null;
+  details: Record<string, unknown>;
+  created_at: Date;
+}
+
+export interface LoginFailureStats {
+  count: number;
+  lastFailureAt: Date | null;
+}
+
+export interface EmailRequestStats {
+  count: number;
+  oldestAt: Date | null;
+}
+
+export type SigningAlgorithm = 'RS256' | 'EdDSA';
+
+export interface SigningKey {
+  kid: string;
+  algorithm: SigningAlgorithm;
+  public_key: string;
+  // AES-256-GCM encrypted PEM (see utils/signingKeys.ts)
+  private_key_encrypted: string;
+  // New keys are published before they sign, so every instance can verify their tokens
+  activates_at: Date;
+  retires_at: Date | null;
+  created_at: Date;
+}
+
+export interface JsonWebKeySet {
+  keys: Array<Record<string, unknown>>;
+}
+
+export interface OidcProviderConfig {
+  name: string;
+  // Discovery document is fetched from <issuer>/.well-known/openid-configuration
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+}
+
+// Pending authorization request, consumed by the callback
+export interface OidcLoginState {
+  id: number;
+  state_hash: string;
+  provider: string;
+  nonce: string;
+  code_verifier: string;
+  client_nonce_hash: string;
+  expires_at: Date;
+  created_at: Date;
+}
+
+export interface SessionMetadata {
+  userAgent: string | null;
+  ipAddress: string | null;
+}
+
+export interface Site {
+  id: number;
+  user_id: number;
+  organization_id: number | null;
+  url: string;
+  normalized_url: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type ScheduleFrequency = 'weekly' | 'monthly';
+
+export interface ScanSchedule {
+  id: number;
+  user_id: number;
+  organization_id: number | null;
+  site_id: number;
+  frequency: ScheduleFrequency;
+  enabled: boolean;
+  next_run_at: Date;
+  last_run_at: Date | null;
+  last_report_id: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface Job<T = unknown> {
+  id: number;
+  type: string;
+  payload: T;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: Date;
+  locked_at: Date | null;
+  last_error: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ScanJobPayload {
+  userId: number;
+  // Workspace the report is saved to (null = personal)
+  organizationId: number | null;
+  siteId: number;
+  scheduleId: number | null;
+  url: string;
+}
+
+// Payload of each job type
+export interface JobPayloads {
+  scan: ScanJobPayload;
+}
+
+export type JobType = keyof JobPayloads;
+
 export interface Report {
   id: number;
   user_id: number;
+  organization_id: number | null;
+  site_id: number | null;
   scanned_url: string;
   scan_date: Date;
   overall_status: ComplianceStatus;
   overall_score: number;
   report_data: ComplianceReport;
+  score_mismatch: boolean;
+  created_at: Date;
+}
+
+export interface ReportShare {
+  id: number;
+  report_id: number;
+  created_by: number | null;
+  token_hash: string;
+  // bcrypt hash; null when no password is required
+  password_hash: string | null;
+  redacted_categories: CheckCategory[];
+  expires_at: Date | null;
+  revoked_at: Date | null;
+  last_accessed_at: Date | null;
+  access_count: number;
+  // Password checks since the last successful view or lockout
+  password_attempts: number;
+  password_locked_until: Date | null;
   created_at: Date;
 }
 
@@ -79,21 +300,216 @@ export interface AuthResponse {
     id: number;
     email: string;
     fullName: string | null;
+    emailVerified: boolean;
   };
 }
 
+export interface OidcProvidersResponse {
+  providers: string[];
+}
+
+export interface OidcAuthorizeResponse {
+  authorizationUrl: string;
+  // Kept by the client that started the login and sent back with the callback
+  clientNonce: string;
+}
+
+export interface OidcCallbackRequest {
+  code: string;
+  state: string;
+  clientNonce: string;
+}
+
+export interface VerifyEmailRequest {
+  token: string;
+}
+
+export interface EmailRequest {
+  email: string;
+}
+
+export interface ResetPasswordRequest {
+  token: string;
+  password: string;
+}
+
+// Returned by /auth/login instead of an AuthResponse when the user has 2FA enabled
+export interface MfaChallengeResponse {
+  mfaRequired: true;
+  mfaToken: string;
+}
+
+export interface MfaLoginRequest {
+  mfaToken: string;
+  code: string;
+}
+
+export interface MfaCodeRequest {
+  code: string;
+}
+
+export interface DisableMfaRequest {
+  password: string;
+  code: string;
+}
+
+export interface MfaSetupResponse {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface MfaStatusResponse {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface RecoveryCodesResponse {
+  recoveryCodes: string[];
+}
+
+export interface CreateApiKeyRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresInDays?: number;
+}
+
+export interface ApiKeySummary {
+  id: number;
+  name: string;
+  prefix: string;
+  organizationId: number | null;
+  scopes: ApiKeyScope[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+export interface CreateApiKeyResponse {
+  apiKey: ApiKeySummary;
+  // Full key, only returned once
+  key: string;
+}
+
+export interface GetApiKeysResponse {
+  apiKeys: ApiKeySummary[];
+}
+
 export interface RefreshTokenRequest {
   refreshToken: string;
 }
 
+export interface RefreshTokenResponse {
+  accessToken: string;
+  refreshToken: string;
+}
+
+export interface SessionSummary {
+  id: number;
+  device: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+}
+
+export interface GetSessionsResponse {
+  sessions: SessionSummary[];
+}
+
+export interface SecurityEventSummary {
+  id: number;
+  type: SecurityEventType;
+  userId: number | null;
+  email: string | null;
+  ipAddress: string | null;
+  details: Record<string, unknown>;
+  createdAt: string;
+}
+
+export interface GetSecurityEventsQuery {
+  limit: number;
+  offset: number;
+  userId?: number;
+}
+
 // API request/response types
 export interface CreateReportRequest {
   report: ComplianceReport;
 }
 
+export interface CreateScanRequest {
+  url: string;
+}
+
+export interface CreateScanResponse {
+  success: boolean;
+  reportId: number;
+  report: ComplianceReport;
+}
+
+// Filters for report listings; all optional and combined with AND
+export interface ReportFilters {
+  status?: ComplianceStatus[];
+  minScore?: number;
+  maxScore?: number;
+  from?: string;
+  to?: string;
+  url?: string;
+  domain?: string;
+  // Full-text search over check titles, summaries and recommendations
+  q?: string;
+  // Match reports containing a check with all of these
+  checkCategory?: CheckCategory;
+  checkStatus?: ComplianceStatus;
+  checkId?: string;
+}
+
+export type ReportSortField = 'created_at' | 'scan_date' | 'score' | 'relevance';
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface GetReportsQuery extends ReportFilters {
+  limit: number;
+  offset: number;
+  cursor?: string;
+  sort: ReportSortField;
+  order: SortOrder;
+}
+
+// Position after the last report on a page (keyset pagination)
+export interface ReportCursor {
+  createdAt: string;
+  id: number;
+}
+
+export interface GetRecentReportsQuery {
+  limit: number;
+  cursor?: string;
+}
+
+export type ExportFormat = 'pdf' | 'html';
+
+export interface ExportReportQuery {
+  format: ExportFormat;
+}
+
+// Bulk export: one row per report, or one per check
+export type ExportRowMode = 'reports' | 'checks';
+
+export interface ExportReportsQuery {
+  rows: ExportRowMode;
+}
+
+export interface IdParams {
+  id: number;
+}
+
 export interface GetReportsResponse {
   reports: ReportSummary[];
-  total: number;
+  // Omitted on pages requested with a cursor
+  total?: number;
+  // Pass as `cursor` for the next page; null on the last page or when not sorting by created_at
+  nextCursor: string | null;
 }
 
 export interface ReportSummary {
@@ -108,3 +524,228 @@ export interface ReportSummary {
 export interface GetReportDetailResponse {
   report: Report;
 }
+
+export interface DiffReportParams {
+  id: number;
+  otherId: number;
+}
+
+export interface CheckTransition {
+  id: string;
+  title: string;
+  from: ComplianceStatus;
+  to: ComplianceStatus;
+}
+
+export interface CategoryDiff {
+  // null when the category has no scored checks
+  scoreFrom: number | null;
+  scoreTo: number | null;
+  scoreDelta: number | null;
+  transitions: CheckTransition[];
+  added: ComplianceCheck[];
+  removed: ComplianceCheck[];
+  unchanged: number;
+}
+
+export interface ReportDiff {
+  fromReportId: number;
+  toReportId: number;
+  overallScoreFrom: number;
+  overallScoreTo: number;
+  overallScoreDelta: number;
+  overallStatusFrom: ComplianceStatus;
+  overallStatusTo: ComplianceStatus;
+  categories: Record<CheckCategory, CategoryDiff>;
+}
+
+export interface CreateShareRequest {
+  expiresInDays?: number;
+  password?: string;
+  redactCategories?: CheckCategory[];
+}
+
+export interface ShareSummary {
+  id: number;
+  reportId: number;
+  hasPassword: boolean;
+  redactedCategories: CheckCategory[];
+  expiresAt: string | null;
+  revokedAt: string | null;
+  lastAccessedAt: string | null;
+  accessCount: number;
+  createdAt: string;
+}
+
+export interface CreateShareResponse {
+  share: ShareSummary;
+  // Only returned once
+  token: string;
+  url: string;
+}
+
+export interface GetSharesResponse {
+  shares: ShareSummary[];
+}
+
+export interface ShareParams {
+  id: number;
+  shareId: number;
+}
+
+export interface SharedReportParams {
+  token: string;
+}
+
+export interface SharedReportResponse {
+  report: ComplianceReport;
+  redactedCategories: CheckCategory[];
+  expiresAt: string | null;
+}
+
+export interface SiteSummary {
+  id: number;
+  url: string;
+  normalizedUrl: string;
+  reportCount: number;
+  latestScore: number | null;
+  latestStatus: ComplianceStatus | null;
+  lastScannedAt: string | null;
+  createdAt: string;
+}
+
+export interface GetSitesResponse {
+  sites: SiteSummary[];
+}
+
+export interface SiteHistoryPoint {
+  reportId: number;
+  scanDate: string;
+  overallScore: number;
+  overallStatus: ComplianceStatus;
+}
+
+export interface GetSiteHistoryResponse {
+  site: SiteSummary;
+  history: SiteHistoryPoint[];
+}
+
+export type AnalyticsBucket = 'day' | 'week' | 'month';
+
+export interface GetAnalyticsQuery {
+  bucket: AnalyticsBucket;
+  from?: string;
+  to?: string;
+  limit: number;
+}
+
+// Reports in a workspace and date range
+export interface AnalyticsScope {
+  userId: number;
+  organizationId: number | null;
+  from?: string;
+  to?: string;
+}
+
+export interface ScoreTrendPoint {
+  // Start of the bucket
+  bucket: string;
+  averageScore: number;
+  reportCount: number;
+}
+
+export type StatusDistribution = Record<ComplianceStatus, number>;
+
+export interface FailingCheck {
+  category: CheckCategory;
+  checkId: string;
+  title: string;
+  // Reports in which the check was Non-Compliant
+  failures: number;
+}
+
+export interface ScoreRegression {
+  siteId: number;
+  url: string;
+  reportId: number;
+  previousReportId: number;
+  score: number;
+  previousScore: number;
+  scanDate: string;
+  previousScanDate: string;
+}
+
+export interface AnalyticsResponse {
+  scoreTrend: ScoreTrendPoint[];
+  statusDistribution: StatusDistribution;
+  failingChecks: FailingCheck[];
+  regressions: ScoreRegression[];
+}
+
+export interface CreateScheduleRequest {
+  siteId: number;
+  frequency: ScheduleFrequency;
+  startAt?: string;
+}
+
+export interface UpdateScheduleRequest {
+  frequency?: ScheduleFrequency;
+  enabled?: boolean;
+}
+
+export interface OrganizationSummary {
+  id: number;
+  name: string;
+  role: MembershipRole;
+  memberCount: number;
+  createdAt: string;
+}
+
+export interface MemberSummary {
+  userId: number;
+  email: string;
+  fullName: string | null;
+  role: MembershipRole;
+  joinedAt: string;
+}
+
+export interface InvitationSummary {
+  id: number;
+  email: string;
+  role: MembershipRole;
+  expiresAt: string;
+  createdAt: string;
+}
+
+export interface CreateOrganizationRequest {
+  name: string;
+}
+
+export interface CreateInvitationRequest {
+  email: string;
+  role?: MembershipRole;
+}
+
+export interface AcceptInvitationRequest {
+  token: string;
+}
+
+export interface SwitchOrganizationRequest {
+  organizationId: number | null;
+}
+
+export interface UpdateMemberRequest {
+  role: MembershipRole;
+}
+
+export interface RuleSummary {
+  id: string;
+  category: CheckCategory;
+  title: string;
+  description: string;
+  weight: number;
+}
+
+export interface GetRulesResponse {
+  rules: RuleSummary[];
+}
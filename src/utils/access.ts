@@ -0,0 +1,167 @@
+import * as repository from '../db/repository.js';
+import type { JWTPayload } from '../config/jwt.js';
+import { hasPermission, scopesAllow } from '../config/roles.js';
+import type { Permission } from '../config/roles.js';
+import type { Report, Role, ScanSchedule, Site, SiteSummary, User } from '../types/index.js';
+
+/**
+ * Resolve the user's role in a workspace (null organizationId = personal workspace).
+ * Organization roles are always loaded from the database so demotions apply immediately.
+ * Returns null if the user is not a member.
+ */
+export async function resolveRole(
+  user: JWTPayload,
+  organizationId: number | null
+): Promise<Role | null> {
+  if (user.role === 'superadmin') {
+    return 'superadmin';
+  }
+
+  if (organizationId === null) {
+    return 'owner';
+  }
+
+  const membership = await repository.getMembership(organizationId, user.userId);
+  return membership ? membership.role : null;
+}
+
+/**
+ * Whether the user's role grants the permission and, for API keys, the key's scopes allow it
+ */
+export function isAllowed(user: JWTPayload, role: Role, permission: Permission): boolean {
+  if (!hasPermission(role, permission)) {
+    return false;
+  }
+
+  return user.scopes === undefined || scopesAllow(user.scopes, permission);
+}
+
+type OwnedReportResult =
+  | { report: Report }
+  | { report: null; status: 403 | 404; error: string };
+
+/**
+ * Load a report and verify the user may act on it.
+ * Personal reports are only available to their owner; organization reports
+ * to members whose role grants the permission.
+ */
+export async function getOwnedReport(
+  reportId: number,
+  user: JWTPayload,
+  permission: Permission
+): Promise<OwnedReportResult> {
+  const report = await repository.getReportById(reportId);
+
+  if (!report) {
+    return { report: null, status: 404, error: 'Report not found' };
+  }
+
+  // Verify ownership
+  if (report.organization_id === null && report.user_id !== user.userId && user.role !== 'superadmin') {
+    return { report: null, status: 403, error: 'Unauthorized' };
+  }
+
+  // API keys are further limited by their scopes
+  const role = await resolveRole(user, report.organization_id);
+  if (!role || !isAllowed(user, role, permission)) {
+    return { report: null, status: 403, error: 'Unauthorized' };
+  }
+
+  return { report };
+}
+
+type OwnedSiteResult =
+  | { site: Site; summary: SiteSummary }
+  | { site: null; status: 403 | 404; error: string };
+
+/**
+ * Load a site and verify the user may act on it, with the same rules as getOwnedReport
+ */
+export async function getOwnedSite(
+  siteId: number,
+  user: JWTPayload,
+  permission: Permission
+): Promise<OwnedSiteResult> {
+  const result = await repository.getSiteById(siteId);
+
+  if (!result) {
+    return { site: null, status: 404, error: 'Site not found' };
+  }
+
+  // Verify ownership
+  const { site } = result;
+  if (site.organization_id === null && site.user_id !== user.userId && user.role !== 'superadmin') {
+    return { site: null, status: 403, error: 'Unauthorized' };
+  }
+
+  const role = await resolveRole(user, site.organization_id);
+  if (!role || !isAllowed(user, role, permission)) {
+    return { site: null, status: 403, error: 'Unauthorized' };
+  }
+
+  return result;
+}
+
+type OwnedScheduleResult =
+  | { schedule: ScanSchedule }
+  | { schedule: null; status: 403 | 404; error: string };
+
+/**
+ * Load a scan schedule and verify the user may act on it, with the same rules as getOwnedReport
+ */
+export async function getOwnedSchedule(
+  scheduleId: number,
+  user: JWTPayload,
+  permission: Permission
+): Promise<OwnedScheduleResult> {
+  const schedule = await repository.getScheduleById(scheduleId);
+
+  if (!schedule) {
+    return { schedule: null, status: 404, error: 'Schedule not found' };
+  }
+
+  // Verify ownership
+  if (schedule.organization_id === null && schedule.user_id !== user.userId && user.role !== 'superadmin') {
+    return { schedule: null, status: 403, error: 'Unauthorized' };
+  }
+
+  const role = await resolveRole(user, schedule.organization_id);
+  if (!role || !isAllowed(user, role, permission)) {
+    return { schedule: null, status: 403, error: 'Unauthorized' };
+  }
+
+  return { schedule };
+}
+
+/**
+ * Build the access token claims for a user, including their current workspace and role
+ */
+export async function buildTokenPayload(user: User): Promise<JWTPayload> {
+  if (user.is_superadmin) {
+    return {
+      userId: user.id,
+      email: user.email,
+      orgId: user.current_organization_id,
+      role: 'superadmin',
+    };
+  }
+
+  if (user.current_organization_id !== null) {
+    const membership = await repository.getMembership(user.current_organization_id, user.id);
+    if (membership) {
+      return {
+        userId: user.id,
+        email: user.email,
+        orgId: membership.organization_id,
+        role: membership.role,
+      };
+    }
+  }
+
+  return {
+    userId: user.id,
+    email: user.email,
+    orgId: null,
+    role: 'owner',
+  };
+}
@@ -0,0 +1,33 @@
+import crypto from 'crypto';
+import { generateToken, hashToken } from './tokens.js';
+
+const KEY_PREFIX = 'cck';
+
+/**
+ * Generate an API key "cck_<prefix>_<secret>". The prefix identifies the key
+ * (and is safe to display); only a hash of the secret is stored.
+ */
+export function generateApiKey(): { key: string; prefix: string; secretHash: string } {
+  const prefix = crypto.randomBytes(6).toString('hex');
+  const secret = generateToken(32);
+
+  return {
+    key: `${KEY_PREFIX}_${prefix}_${secret}`,
+    prefix,
+    secretHash: hashToken(secret),
+  };
+}
+
+export function parseApiKey(key: string): { prefix: string; secret: string } | null {
+  const match = /^cck_([0-9a-f]{12})_([A-Za-z0-9_-]{20,100})$/.exec(key.trim());
+  return match ? { prefix: match[1], secret: match[2] } : null;
+}
+
+/**
+ * Constant-time comparison of a presented secret with the stored hash
+ */
+export function verifyApiKeySecret(secret: string, secretHash: string): boolean {
+  const presented = Buffer.from(hashToken(secret), 'hex');
+  const stored = Buffer.from(secretHash, 'hex');
+  return presented.length === stored.length && crypto.timingSafeEqual(presented, stored);
+}
@@ -0,0 +1,35 @@
+import type { ReportCursor } from '../types/index.js';
+
+// created_at as Postgres prints it; keeps the microseconds a JS Date would drop
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(\.\d{1,6})?$/;
+
+/**
+ * Opaque page cursor: the (created_at, id) of the last report on the page
+ */
+export function encodeCursor(cursor: ReportCursor): string {
+  return Buffer.from(JSON.stringify([cursor.createdAt, cursor.id])).toString('base64url');
+}
+
+/**
+ * Parse a cursor from a client; null if it is malformed
+ */
+export function decodeCursor(value: string): ReportCursor | null {
+  try {
+    const parsed: unknown = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (!Array.isArray(parsed) || parsed.length !== 2) {
+      return null;
+    }
+
+    const [createdAt, id] = parsed;
+    if (typeof createdAt !== 'string' || !TIMESTAMP_PATTERN.test(createdAt)) {
+      return null;
+    }
+    if (!Number.isSafeInteger(id) || id < 1) {
+      return null;
+    }
+
+    return { createdAt, id };
+  } catch {
+    return null;
+  }
+}
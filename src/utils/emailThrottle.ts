@@ -0,0 +1,46 @@
+import * as repository from '../db/repository.js';
+import { config } from '../config/env.js';
+import type { LoginCheck } from './loginThrottle.js';
+import type { EmailRequestStats, EmailTokenPurpose } from '../types/index.js';
+
+/**
+ * Seconds until the oldest request in the window expires (0 if under the limit)
+ */
+function limitRemaining(requests: EmailRequestStats, maxRequests: number): number {
+  if (requests.count < maxRequests || !requests.oldestAt) {
+    return 0;
+  }
+
+  const resetAt = requests.oldestAt.getTime() + config.auth.emailRequestWindowMinutes * 60 * 1000;
+  return Math.max(1, Math.ceil((resetAt - Date.now()) / 1000));
+}
+
+/**
+ * Check and record a request for a verification or password reset email.
+ * Requests are counted per email (whether or not an account exists) and per client IP,
+ * so the limits stop mail-bombing without revealing which emails have accounts.
+ */
+export async function checkEmailRequestAllowed(
+  email: string,
+  ipAddress: string,
+  purpose: EmailTokenPurpose
+): Promise<LoginCheck> {
+  const stats = await repository.getEmailRequestStats(
+    email,
+    ipAddress,
+    purpose,
+    config.auth.emailRequestWindowMinutes
+  );
+
+  const retryAfterSeconds = Math.max(
+    limitRemaining(stats.email, config.auth.maxEmailRequests),
+    limitRemaining(stats.ip, config.auth.maxEmailRequestsPerIp)
+  );
+
+  if (retryAfterSeconds > 0) {
+    return { allowed: false, retryAfterSeconds };
+  }
+
+  await repository.recordEmailRequest(email, ipAddress, purpose);
+  return { allowed: true };
+}
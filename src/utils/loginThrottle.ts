@@ -0,0 +1,89 @@
+import * as repository from '../db/repository.js';
+import { config } from '../config/env.js';
+import type { LoginFailureStats } from '../types/index.js';
+
+export type LoginCheck =
+  | { allowed: true }
+  | { allowed: false; retryAfterSeconds: number };
+
+/**
+ * Seconds until a lockout ends (0 if not locked).
+ * Reaching the limit locks for lockoutMinutes after the latest failure.
+ */
+function lockoutRemaining(failures: LoginFailureStats, maxFailures: number): number {
+  if (failures.count < maxFailures || !failures.lastFailureAt) {
+    return 0;
+  }
+
+  const unlockAt = failures.lastFailureAt.getTime() + config.auth.lockoutMinutes * 60 * 1000;
+  return Math.max(0, Math.ceil((unlockAt - Date.now()) / 1000));
+}
+
+/**
+ * Check whether the email or the client IP is temporarily locked out.
+ * Emails are tracked whether or not an account exists, so lockouts don't reveal accounts.
+ */
+export async function checkLoginAllowed(email: string, ipAddress: string): Promise<LoginCheck> {
+  const [emailFailures, ipFailures] = await Promise.all([
+    repository.getEmailLoginFailures(email, config.auth.loginWindowMinutes),
+    repository.getIpLoginFailures(ipAddress, config.auth.loginWindowMinutes),
+  ]);
+
+  const retryAfterSeconds = Math.max(
+    lockoutRemaining(emailFailures, config.auth.maxFailedLogins),
+    lockoutRemaining(ipFailures, config.auth.maxFailedLoginsPerIp)
+  );
+
+  return retryAfterSeconds > 0 ? { allowed: false, retryAfterSeconds } : { allowed: true };
+}
+
+/**
+ * Record a failed login, audit any lockout it triggers, then wait out the progressive delay
+ */
+export async function recordLoginFailure(
+  email: string,
+  ipAddress: string,
+  userId: number | null
+): Promise<void> {
+  await repository.recordLoginAttempt(email, ipAddress, false, userId);
+
+  const [emailFailures, ipFailures] = await Promise.all([
+    repository.getEmailLoginFailures(email, config.auth.loginWindowMinutes),
+    repository.getIpLoginFailures(ipAddress, config.auth.loginWindowMinutes),
+  ]);
+
+  if (emailFailures.count >= config.auth.maxFailedLogins) {
+    await repository.createSecurityEvent({
+      type: 'account_locked',
+      userId,
+      email,
+      ipAddress,
+      details: { failedAttempts: emailFailures.count, lockoutMinutes: config.auth.lockoutMinutes },
+    });
+  }
+
+  if (ipFailures.count >= config.auth.maxFailedLoginsPerIp) {
+    await repository.createSecurityEvent({
+      type: 'ip_locked',
+      ipAddress,
+      details: { failedAttempts: ipFailures.count, lockoutMinutes: config.auth.lockoutMinutes },
+    });
+  }
+
+  const delayMs = Math.min(
+    config.auth.loginDelayBaseMs * 2 ** (emailFailures.count - 1),
+    config.auth.loginMaxDelayMs
+  );
+  await new Promise((resolve) => setTimeout(resolve, delayMs));
+}
+
+/**
+ * Record a successful login, which resets the email's failure count
+ */
+export async function recordLoginSuccess(
+  email: string,
+  ipAddress: string,
+  userId: number
+): Promise<void> {
+  await repository.recordLoginAttempt(email, ipAddress, true, userId);
+}
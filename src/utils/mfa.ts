@@ -0,0 +1,47 @@
+import crypto from 'crypto';
+import * as repository from '../db/repository.js';
+import { config } from '../config/env.js';
+import { hashToken } from './tokens.js';
+import { verifyTotp } from './totp.js';
+import type { User } from '../types/index.js';
+
+// Unambiguous characters (no 0/o, 1/l/i)
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[\s-]/g, '');
+}
+
+/**
+ * Generate recovery codes like "k7m2p-x9qrt"; returns the codes to show once and their hashes to store
+ */
+export function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: config.auth.mfaRecoveryCodeCount }, () => {
+    const chars = Array.from({ length: 10 }, () => RECOVERY_CODE_ALPHABET[crypto.randomInt(RECOVERY_CODE_ALPHABET.length)]);
+    return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`;
+  });
+
+  return {
+    codes,
+    hashes: codes.map((code) => hashToken(normalizeRecoveryCode(code))),
+  };
+}
+
+/**
+ * Check a 6-digit TOTP code from the user's authenticator, or one of their recovery codes.
+ * Each TOTP code and recovery code is accepted only once.
+ */
+export async function verifyMfaCode(user: User, code: string): Promise<boolean> {
+  if (!user.totp_secret) {
+    return false;
+  }
+
+  const trimmed = code.trim();
+
+  if (/^\d{6}$/.test(trimmed)) {
+    const step = verifyTotp(user.totp_secret, trimmed);
+    return step !== null && (await repository.recordTotpStep(user.id, step));
+  }
+
+  return repository.useRecoveryCode(user.id, hashToken(normalizeRecoveryCode(trimmed)));
+}
@@ -0,0 +1,248 @@
+import crypto from 'crypto';
+import { createVerifier } from 'fast-jwt';
+import { config } from '../config/env.js';
+import { generateToken } from './tokens.js';
+import type { OidcProviderConfig } from '../types/index.js';
+
+// Discovery documents are refetched after an hour
+const METADATA_TTL_MS = 60 * 60 * 1000;
+
+// Tokens naming an unknown key trigger a JWKS refetch, at most once a minute
+const KEY_REFETCH_INTERVAL_MS = 60 * 1000;
+
+const ID_TOKEN_ALGORITHMS = ['RS256', 'ES256', 'EdDSA'] as const;
+
+export class OidcError extends Error {}
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface CachedProvider {
+  metadata: ProviderMetadata;
+  fetchedAt: number;
+  // PEM public keys by kid
+  keys: Map<string, string>;
+  keysFetchedAt: number;
+}
+
+export interface AuthorizationRequest {
+  url: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  // Returned to the client that starts the login; the callback must echo it
+  clientNonce: string;
+}
+
+// Claims we use from a verified ID token
+export interface OidcIdentity {
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+  name: string | null;
+}
+
+const providerCache = new Map<string, CachedProvider>();
+
+export function getOidcProvider(name: string): OidcProviderConfig | null {
+  return config.oidc.providers.find((provider) => provider.name === name) ?? null;
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isJsonObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+async function fetchJson(url: string, init: RequestInit = {}): Promise<JsonObject> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      ...init,
+      headers: { Accept: 'application/json', ...init.headers },
+      signal: AbortSignal.timeout(config.oidc.timeoutMs),
+    });
+  } catch (error) {
+    throw new OidcError(`Request to ${url} failed: ${(error as Error).message}`);
+  }
+
+  const body: unknown = await response.json().catch(() => null);
+  if (!response.ok || !isJsonObject(body)) {
+    const reason = isJsonObject(body) && typeof body.error === 'string' ? ` (${body.error})` : '';
+    throw new OidcError(`${url} responded with ${response.status}${reason}`);
+  }
+
+  return body;
+}
+
+function parseProviderMetadata(body: JsonObject, providerName: string): ProviderMetadata {
+  const { issuer, authorization_endpoint, token_endpoint, jwks_uri } = body;
+  const fields = { issuer, authorization_endpoint, token_endpoint, jwks_uri };
+
+  for (const [field, value] of Object.entries(fields)) {
+    if (typeof value !== 'string') {
+      throw new OidcError(`Discovery document for ${providerName} has no ${field}`);
+    }
+  }
+
+  return fields as ProviderMetadata;
+}
+
+async function getProviderMetadata(provider: OidcProviderConfig): Promise<CachedProvider> {
+  const cached = providerCache.get(provider.name);
+  if (cached && Date.now() - cached.fetchedAt < METADATA_TTL_MS) {
+    return cached;
+  }
+
+  const metadata = parseProviderMetadata(
+    await fetchJson(`${provider.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`),
+    provider.name
+  );
+
+  const entry: CachedProvider = { metadata, fetchedAt: Date.now(), keys: new Map(), keysFetchedAt: 0 };
+  providerCache.set(provider.name, entry);
+
+  return entry;
+}
+
+async function getSigningKey(entry: CachedProvider, kid: string | undefined): Promise<string> {
+  // Without a kid the provider must publish exactly one key
+  const find = () => (kid ? entry.keys.get(kid) : entry.keys.size === 1 ? [...entry.keys.values()][0] : undefined);
+
+  let key = find();
+  if (!key && Date.now() - entry.keysFetchedAt >= KEY_REFETCH_INTERVAL_MS) {
+    const jwks = await fetchJson(entry.metadata.jwks_uri);
+    const keys = new Map<string, string>();
+
+    for (const jwk of Array.isArray(jwks.keys) ? jwks.keys : []) {
+      if (!isJsonObject(jwk) || typeof jwk.kty !== 'string' || (jwk.use !== undefined && jwk.use !== 'sig')) {
+        continue;
+      }
+      try {
+        const publicKey = crypto.createPublicKey({ key: jwk as crypto.JsonWebKey, format: 'jwk' });
+        const kid = typeof jwk.kid === 'string' ? jwk.kid : '';
+        keys.set(kid, publicKey.export({ type: 'spki', format: 'pem' }).toString());
+      } catch {
+        // Key type we can't use
+      }
+    }
+
+    entry.keys = keys;
+    entry.keysFetchedAt = Date.now();
+    key = find();
+  }
+
+  if (!key) {
+    throw new OidcError(`Unknown ID token signing key ${kid ?? '(no kid)'}`);
+  }
+
+  return key;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Issuers an ID token may carry. Microsoft's multi-tenant endpoints publish
+ * "https://login.microsoftonline.com/{tenantid}/v2.0" and sign with the user's tenant;
+ * Google may leave the scheme off.
+ */
+function allowedIssuers(issuer: string): Array<string | RegExp> {
+  if (issuer.includes('{tenantid}')) {
+    const [before, after] = issuer.split('{tenantid}');
+    return [new RegExp(`^${escapeRegExp(before)}[0-9a-f-]+${escapeRegExp(after)}$`)];
+  }
+
+  return issuer === 'https://accounts.google.com' ? [issuer, 'accounts.google.com'] : [issuer];
+}
+
+/**
+ * Start an authorization code flow with PKCE. The caller stores state, nonce, verifier
+ * and a hash of the client nonce until the callback.
+ */
+export async function createAuthorizationRequest(provider: OidcProviderConfig): Promise<AuthorizationRequest> {
+  const { metadata } = await getProviderMetadata(provider);
+
+  const state = generateToken();
+  const nonce = generateToken();
+  const clientNonce = generateToken();
+  const codeVerifier = generateToken(48);
+  const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', provider.clientId);
+  url.searchParams.set('redirect_uri', config.oidc.redirectUri);
+  url.searchParams.set('scope', 'openid email profile');
+  url.searchParams.set('state', state);
+  url.searchParams.set('nonce', nonce);
+  url.searchParams.set('code_challenge', codeChallenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+
+  return { url: url.toString(), state, nonce, codeVerifier, clientNonce };
+}
+
+/**
+ * Exchange an authorization code and verify the returned ID token (signature, issuer,
+ * audience, expiry and nonce)
+ */
+export async function exchangeCode(
+  provider: OidcProviderConfig,
+  code: string,
+  codeVerifier: string,
+  nonce: string
+): Promise<OidcIdentity> {
+  const entry = await getProviderMetadata(provider);
+
+  const tokens = await fetchJson(entry.metadata.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: config.oidc.redirectUri,
+      client_id: provider.clientId,
+      client_secret: provider.clientSecret,
+      code_verifier: codeVerifier,
+    }),
+  });
+
+  const idToken = tokens.id_token;
+  if (typeof idToken !== 'string') {
+    throw new OidcError(`Token response from ${provider.name} has no ID token`);
+  }
+
+  const verify = createVerifier({
+    key: async ({ header }: { header: { kid?: string } }) => getSigningKey(entry, header.kid),
+    algorithms: [...ID_TOKEN_ALGORITHMS],
+    allowedIss: allowedIssuers(entry.metadata.issuer),
+    allowedAud: provider.clientId,
+    allowedNonce: nonce,
+    requiredClaims: ['iss', 'aud', 'sub', 'exp', 'nonce'],
+    clockTolerance: 60 * 1000,
+  });
+
+  let claims: unknown;
+  try {
+    claims = await verify(idToken);
+  } catch (error) {
+    throw new OidcError(`Invalid ID token from ${provider.name}: ${(error as Error).message}`);
+  }
+
+  if (!isJsonObject(claims) || typeof claims.sub !== 'string' || claims.sub === '') {
+    throw new OidcError(`ID token from ${provider.name} has no subject`);
+  }
+
+  return {
+    subject: claims.sub,
+    email: typeof claims.email === 'string' ? claims.email.toLowerCase() : null,
+    // Microsoft sends no email_verified; its xms_edov optional claim marks a domain-verified email
+    emailVerified: claims.email_verified === true || claims.email_verified === 'true' || claims.xms_edov === true,
+    name: typeof claims.name === 'string' ? claims.name : null,
+  };
+}
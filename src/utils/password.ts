@@ -19,6 +19,18 @@ export async function comparePassword(
   return bcrypt.compare(password, hash);
 }
 
+// Compared against when the email is unknown, so those logins take as long as real ones
+let dummyHash: Promise<string> | null = null;
+
+/**
+ * Spend the same bcrypt work as comparePassword for a login with no matching account
+ */
+export async function compareDummyPassword(password: string): Promise<false> {
+  dummyHash ??= hashPassword('dummy-password-for-timing');
+  await bcrypt.compare(password, await dummyHash);
+  return false;
+}
+
 /**
  * Validate password strength
  */
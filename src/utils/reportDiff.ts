@@ -0,0 +1,69 @@
+import { CHECK_CATEGORIES } from '../rules/index.js';
+import { calculateCategoryScore } from './scoring.js';
+import type { CategoryDiff, ComplianceCheck, Report, ReportDiff } from '../types/index.js';
+
+/**
+ * Compare one category's checks, matching them by ComplianceCheck.id
+ */
+function diffCategory(fromChecks: ComplianceCheck[], toChecks: ComplianceCheck[]): CategoryDiff {
+  const fromById = new Map(fromChecks.map((check) => [check.id, check]));
+  const toById = new Map(toChecks.map((check) => [check.id, check]));
+
+  const diff: CategoryDiff = {
+    scoreFrom: calculateCategoryScore(fromChecks),
+    scoreTo: calculateCategoryScore(toChecks),
+    scoreDelta: null,
+    transitions: [],
+    added: toChecks.filter((check) => !fromById.has(check.id)),
+    removed: fromChecks.filter((check) => !toById.has(check.id)),
+    unchanged: 0,
+  };
+
+  if (diff.scoreFrom !== null && diff.scoreTo !== null) {
+    diff.scoreDelta = diff.scoreTo - diff.scoreFrom;
+  }
+
+  for (const [id, toCheck] of toById) {
+    const fromCheck = fromById.get(id);
+    if (!fromCheck) {
+      continue;
+    }
+
+    if (fromCheck.status === toCheck.status) {
+      diff.unchanged++;
+    } else {
+      diff.transitions.push({
+        id,
+        title: toCheck.title,
+        from: fromCheck.status,
+        to: toCheck.status,
+      });
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Describe what changed between two reports (from -> to)
+ */
+export function diffReports(from: Report, to: Report): ReportDiff {
+  const categories = {} as ReportDiff['categories'];
+  for (const category of CHECK_CATEGORIES) {
+    categories[category] = diffCategory(
+      from.report_data.checks[category] ?? [],
+      to.report_data.checks[category] ?? []
+    );
+  }
+
+  return {
+    fromReportId: from.id,
+    toReportId: to.id,
+    overallScoreFrom: from.overall_score,
+    overallScoreTo: to.overall_score,
+    overallScoreDelta: to.overall_score - from.overall_score,
+    overallStatusFrom: from.overall_status,
+    overallStatusTo: to.overall_status,
+    categories,
+  };
+}
@@ -0,0 +1,122 @@
+import { config } from '../config/env.js';
+import { getRule, CHECK_CATEGORIES } from '../rules/index.js';
+import type { CheckCategory, ComplianceCheck, ComplianceReport, ComplianceStatus } from '../types/index.js';
+
+export interface ScoreBreakdown {
+  overallScore: number;
+  overallStatus: ComplianceStatus;
+  // null when a category has no scored (non-Info) checks
+  categoryScores: Record<CheckCategory, number | null>;
+}
+
+/**
+ * Score a single category as the rule-weighted average of its status weights (0-100).
+ * Info checks and statuses without a configured weight are not scored.
+ */
+export function calculateCategoryScore(checks: ComplianceCheck[]): number | null {
+  let points = 0;
+  let total = 0;
+
+  for (const check of checks) {
+    const statusWeight = config.scoring.statusWeights[check.status];
+    if (statusWeight === undefined) {
+      continue;
+    }
+
+    const ruleWeight = getRule(check.id)?.weight ?? 1;
+    points += ruleWeight * statusWeight;
+    total += ruleWeight;
+  }
+
+  return total === 0 ? null : Math.round((points / total) * 100);
+}
+
+/**
+ * Derive the overall status from the configured thresholds
+ */
+export function statusForScore(score: number): ComplianceStatus {
+  if (score >= config.scoring.compliantThreshold) return 'Compliant';
+  if (score >= config.scoring.warningThreshold) return 'Warning';
+  return 'Non-Compliant';
+}
+
+/**
+ * Compute category and overall scores from the checks arrays
+ */
+export function calculateScore(checks: ComplianceReport['checks']): ScoreBreakdown {
+  const categoryScores = {} as Record<CheckCategory, number | null>;
+  let points = 0;
+  let total = 0;
+
+  for (const category of CHECK_CATEGORIES) {
+    const score = calculateCategoryScore(checks[category] ?? []);
+    categoryScores[category] = score;
+
+    const weight = config.scoring.categoryWeights[category] ?? 1;
+    if (score !== null && weight > 0) {
+      points += score * weight;
+      total += weight;
+    }
+  }
+
+  // Nothing was scored, so the report can't be called compliant
+  if (total === 0) {
+    return { overallScore: 0, overallStatus: 'Info', categoryScores };
+  }
+
+  const overallScore = Math.round(points / total);
+
+  return {
+    overallScore,
+    overallStatus: statusForScore(overallScore),
+    categoryScores,
+  };
+}
+
+/**
+ * Rebuild summary points from check statuses
+ */
+export function buildSummary(checks: ComplianceReport['checks']): ComplianceReport['summary'] {
+  const all = CHECK_CATEGORIES.flatMap((category) => checks[category] ?? []);
+
+  return {
+    goodPoints: all.filter((check) => check.status === 'Compliant').map((check) => check.title),
+    warnings: all.filter((check) => check.status === 'Warning').map((check) => check.title),
+    threats: all.filter((check) => check.status === 'Non-Compliant').map((check) => check.title),
+  };
+}
+
+/**
+ * Return a copy of the report with score, status and summary recomputed from its checks
+ */
+export function scoreReport(report: ComplianceReport): ComplianceReport {
+  const { overallScore, overallStatus } = calculateScore(report.checks);
+
+  return {
+    ...report,
+    overallScore,
+    overallStatus,
+    summary: buildSummary(report.checks),
+  };
+}
+
+/**
+ * List differences between submitted and computed score/status
+ */
+export function findScoreMismatches(submitted: ComplianceReport, computed: ComplianceReport): string[] {
+  const mismatches: string[] = [];
+
+  if (Math.abs(submitted.overallScore - computed.overallScore) > config.scoring.scoreTolerance) {
+    mismatches.push(
+      `overallScore: submitted ${submitted.overallScore}, computed ${computed.overallScore}`
+    );
+  }
+
+  if (submitted.overallStatus !== computed.overallStatus) {
+    mismatches.push(
+      `overallStatus: submitted ${submitted.overallStatus}, computed ${computed.overallStatus}`
+    );
+  }
+
+  return mismatches;
+}
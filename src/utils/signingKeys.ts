@@ -0,0 +1,200 @@
+import crypto from 'crypto';
+import { createSigner, createVerifier } from 'fast-jwt';
+import type { FastifyBaseLogger } from 'fastify';
+import * as repository from '../db/repository.js';
+import { config } from '../config/env.js';
+import type { JsonWebKeySet, SigningAlgorithm, SigningKey } from '../types/index.js';
+
+// How often each instance reloads keys and checks whether rotation is due
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+// New keys are published this long before they sign, so every instance has loaded them
+const ACTIVATION_DELAY_MS = 5 * REFRESH_INTERVAL_MS;
+
+// Claims of a token whose signature and expiry have been verified; callers check their shape
+export type VerifiedClaims = Record<string, unknown>;
+
+interface LoadedKey {
+  kid: string;
+  algorithm: SigningAlgorithm;
+  activatesAt: Date;
+  createdAt: Date;
+  jwk: Record<string, unknown>;
+  sign: (payload: Record<string, unknown>) => string;
+  verify: (token: string) => VerifiedClaims;
+}
+
+let keys: LoadedKey[] = [];
+let refreshTimer: NodeJS.Timeout | null = null;
+
+// Private keys are encrypted at rest with a key derived from JWT_ACCESS_SECRET
+function getEncryptionKey(): Buffer {
+  return crypto.createHmac('sha256', config.jwt.accessSecret).update('jwt-signing-keys').digest();
+}
+
+function encryptPrivateKey(pem: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(pem, 'utf8'), cipher.final()]);
+
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64');
+}
+
+function decryptPrivateKey(value: string): string {
+  const data = Buffer.from(value, 'base64');
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), data.subarray(0, 12));
+  decipher.setAuthTag(data.subarray(12, 28));
+
+  return Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]).toString('utf8');
+}
+
+function generateKeyPair(algorithm: SigningAlgorithm): { publicKey: string; privateKey: string } {
+  const keyPair =
+    algorithm === 'EdDSA'
+      ? crypto.generateKeyPairSync('ed25519')
+      : crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+  return {
+    publicKey: keyPair.publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    privateKey: keyPair.privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+  };
+}
+
+function loadKey(key: SigningKey): LoadedKey {
+  const privateKey = decryptPrivateKey(key.private_key_encrypted);
+
+  return {
+    kid: key.kid,
+    algorithm: key.algorithm,
+    activatesAt: key.activates_at,
+    createdAt: key.created_at,
+    jwk: {
+      ...crypto.createPublicKey(key.public_key).export({ format: 'jwk' }),
+      kid: key.kid,
+      alg: key.algorithm,
+      use: 'sig',
+    },
+    sign: createSigner({
+      key: privateKey,
+      algorithm: key.algorithm,
+      kid: key.kid,
+      expiresIn: config.jwt.accessExpiry,
+    }),
+    verify: createVerifier({ key: key.public_key, algorithms: [key.algorithm] }),
+  };
+}
+
+/**
+ * Add a new key if the newest one is older than the rotation period.
+ * The first key signs immediately; later ones wait until every instance has loaded them.
+ */
+async function rotateIfDue(log: FastifyBaseLogger): Promise<void> {
+  const rotateAfterMs = config.jwt.keyRotationDays * 24 * 60 * 60 * 1000;
+  const newest = keys.reduce<LoadedKey | null>(
+    (latest, key) => (!latest || key.createdAt > latest.createdAt ? key : latest),
+    null
+  );
+
+  if (newest && Date.now() - newest.createdAt.getTime() < rotateAfterMs) {
+    return;
+  }
+
+  const algorithm = config.jwt.algorithm;
+  const { publicKey, privateKey } = generateKeyPair(algorithm);
+
+  const rotated = await repository.rotateSigningKey(
+    {
+      kid: crypto.randomUUID(),
+      algorithm,
+      public_key: publicKey,
+      private_key_encrypted: encryptPrivateKey(privateKey),
+      activates_at: new Date(newest ? Date.now() + ACTIVATION_DELAY_MS : Date.now()),
+    },
+    // Without a usable key (first start, or keys encrypted under another secret) rotate regardless
+    newest ? config.jwt.keyRotationDays : 0,
+    config.jwt.keyRetireAfterHours
+  );
+
+  if (rotated) {
+    log.info({ algorithm }, 'Generated a new access token signing key');
+  }
+}
+
+/**
+ * Reload keys from the database, rotating first if due
+ */
+async function refreshKeys(log: FastifyBaseLogger): Promise<void> {
+  await rotateIfDue(log);
+
+  const loaded: LoadedKey[] = [];
+  for (const key of await repository.getSigningKeys()) {
+    try {
+      loaded.push(loadKey(key));
+    } catch {
+      // Encrypted with a different JWT_ACCESS_SECRET; tokens signed with it no longer verify
+      log.warn({ kid: key.kid }, 'Skipping signing key that could not be decrypted');
+    }
+  }
+
+  keys = loaded;
+}
+
+/**
+ * Load signing keys (creating the first one if needed) and keep them refreshed
+ */
+export async function startSigningKeys(log: FastifyBaseLogger): Promise<void> {
+  await refreshKeys(log);
+
+  refreshTimer = setInterval(() => {
+    refreshKeys(log).catch((error) => log.error(error, 'Failed to refresh signing keys'));
+  }, REFRESH_INTERVAL_MS);
+  refreshTimer.unref();
+}
+
+export function stopSigningKeys(): void {
+  if (refreshTimer) {
+    clearInterval(refreshTimer);
+    refreshTimer = null;
+  }
+}
+
+/**
+ * Sign with the newest active key
+ */
+export function signWithCurrentKey(payload: Record<string, unknown>): string {
+  const now = Date.now();
+  const current = keys.find((key) => key.activatesAt.getTime() <= now);
+
+  if (!current) {
+    throw new Error('No active signing key loaded');
+  }
+
+  return current.sign(payload);
+}
+
+/**
+ * Verify a token with the key named by its `kid` header; throws if invalid
+ */
+export function verifyWithKnownKey(token: string): VerifiedClaims {
+  const header: unknown = JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString('utf8'));
+  const kid = typeof header === 'object' && header !== null ? (header as { kid?: unknown }).kid : undefined;
+  const key = keys.find((candidate) => candidate.kid === kid);
+
+  if (!key) {
+    throw new Error('Unknown signing key');
+  }
+
+  const claims: unknown = key.verify(token);
+  if (typeof claims !== 'object' || claims === null || Array.isArray(claims)) {
+    throw new Error('Token payload is not an object');
+  }
+
+  return claims as VerifiedClaims;
+}
+
+/**
+ * Public keys for verifying access tokens (including keys about to activate)
+ */
+export function getJwks(): JsonWebKeySet {
+  return { keys: keys.map((key) => key.jwk) };
+}
@@ -0,0 +1,15 @@
+import crypto from 'crypto';
+
+/**
+ * Generate a random URL-safe token
+ */
+export function generateToken(bytes: number = 32): string {
+  return crypto.randomBytes(bytes).toString('base64url');
+}
+
+/**
+ * SHA-256 hash of a token, for storing secrets we only need to compare
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,21 @@
+/**
+ * Normalize a scanned URL into the key that identifies a site.
+ *
+ * Protocol, a leading "www.", default ports, query string, fragment and
+ * trailing slashes are ignored, and the result is lowercased, so
+ * "https://www.X.org/" and "http://x.org" map to the same site ("x.org").
+ * Keep in sync with the backfill expression in migration 0001.
+ */
+export function normalizeUrl(input: string): string {
+  let url: URL;
+  try {
+    url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(input) ? input : `https://${input}`);
+  } catch {
+    return input.trim().toLowerCase();
+  }
+
+  const host = url.host.replace(/^www\./i, '');
+  const path = url.pathname.replace(/\/+$/, '');
+
+  return `${host}${path}`.toLowerCase();
+}
@@ -0,0 +1,150 @@
+// Must come first: points the config at the test database
+import { migrateTestDatabase, skipWithoutDatabase, uniqueEmail } from './helpers/app.js';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { closePool, withTransaction } from '../src/db/connection.js';
+import * as repository from '../src/db/repository.js';
+import { decodeCursor, encodeCursor } from '../src/utils/cursor.js';
+import type { ComplianceReport, ReportSummary } from '../src/types/index.js';
+
+function encodeRaw(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+describe('report cursors', () => {
+  it('round-trips created_at with microseconds and the id', () => {
+    const cursor = { createdAt: '2025-01-12 09:30:15.123456', id: 42 };
+
+    assert.deepEqual(decodeCursor(encodeCursor(cursor)), cursor);
+    assert.deepEqual(decodeCursor(encodeCursor({ createdAt: '2025-01-12 09:30:15', id: 1 })), {
+      createdAt: '2025-01-12 09:30:15',
+      id: 1,
+    });
+  });
+
+  it('is URL safe', () => {
+    assert.match(encodeCursor({ createdAt: '2025-01-12 09:30:15.999999', id: 2 ** 40 }), /^[A-Za-z0-9_-]+$/);
+  });
+
+  it('rejects malformed cursors', () => {
+    const invalid = [
+      'not base64 json',
+      encodeRaw({ createdAt: '2025-01-12 09:30:15', id: 1 }),
+      encodeRaw(['2025-01-12 09:30:15']),
+      encodeRaw(['2025-01-12 09:30:15', 1, 2]),
+      encodeRaw(['2025-01-12T09:30:15Z', 1]),
+      encodeRaw(['2025-01-12 09:30:15.1234567', 1]),
+      encodeRaw(["2025-01-12 09:30:15'; DROP TABLE reports; --", 1]),
+      encodeRaw(['2025-01-12 09:30:15', 0]),
+      encodeRaw(['2025-01-12 09:30:15', 1.5]),
+      encodeRaw(['2025-01-12 09:30:15', '1']),
+      encodeRaw(['2025-01-12 09:30:15', 2 ** 53]),
+    ];
+
+    for (const value of invalid) {
+      assert.equal(decodeCursor(value), null, value);
+    }
+  });
+});
+
+describe('keyset pagination', { skip: skipWithoutDatabase }, () => {
+  const report = (n: number): ComplianceReport => ({
+    scannedUrl: `https://page-${n}.example.org/`,
+    scanDate: '2025-01-12T09:00:00.000Z',
+    overallStatus: 'Warning',
+    overallScore: 60,
+    summary: { goodPoints: [], warnings: [], threats: [] },
+    checks: { websitePolicies: [], security: [], memberData: [], marketing: [], payments: [] },
+  });
+
+  let userId: number;
+
+  before(async () => {
+    await migrateTestDatabase();
+    userId = (await repository.createUser(uniqueEmail(), 'not-a-real-hash')).id;
+
+    // Reports created in one transaction share created_at, so only the id orders them
+    await withTransaction(async (client) => {
+      for (let n = 0; n < 4; n++) {
+        await repository.createReport(userId, report(n), {}, client);
+      }
+    });
+    for (let n = 4; n < 7; n++) {
+      await repository.createReport(userId, report(n));
+    }
+  });
+
+  after(async () => {
+    await closePool();
+  });
+
+  async function readAll(order: 'asc' | 'desc', limit: number): Promise<ReportSummary[]> {
+    const seen: ReportSummary[] = [];
+    let cursor: string | null = null;
+
+    do {
+      const page = await repository.getReportsByUser(userId, limit, 0, null, {
+        order,
+        cursor: cursor ? decodeCursor(cursor)! : undefined,
+      });
+      assert.ok(page.reports.length <= limit);
+      seen.push(...page.reports);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    return seen;
+  }
+
+  function assertOrdered(reports: ReportSummary[], order: 'asc' | 'desc'): void {
+    for (let i = 1; i < reports.length; i++) {
+      const [a, b] = order === 'desc' ? [reports[i], reports[i - 1]] : [reports[i - 1], reports[i]];
+      assert.ok(a.createdAt < b.createdAt || (a.createdAt === b.createdAt && a.id < b.id), `${a.id} before ${b.id}`);
+    }
+  }
+
+  it('visits every report once, across ties in created_at', async () => {
+    const everything = await repository.getReportsByUser(userId, 50, 0);
+    assert.equal(everything.total, 7);
+
+    for (const order of ['desc', 'asc'] as const) {
+      for (const limit of [1, 2, 3, 7]) {
+        const reports = await readAll(order, limit);
+        assert.equal(reports.length, 7);
+        assert.equal(new Set(reports.map((r) => r.id)).size, 7);
+        assertOrdered(reports, order);
+      }
+    }
+  });
+
+  it('matches offset pages for the same order', async () => {
+    const byOffset = (await repository.getReportsByUser(userId, 50, 0)).reports.map((r) => r.id);
+    const byCursor = (await readAll('desc', 2)).map((r) => r.id);
+
+    assert.deepEqual(byCursor, byOffset);
+  });
+
+  it('does not repeat or skip reports when newer ones arrive between pages', async () => {
+    const first = await repository.getReportsByUser(userId, 3, 0);
+    const expected = (await readAll('desc', 50)).map((r) => r.id);
+
+    await repository.createReport(userId, report(7));
+
+    const rest: number[] = [];
+    let cursor = first.nextCursor;
+    while (cursor) {
+      const page = await repository.getReportsByUser(userId, 3, 0, null, { cursor: decodeCursor(cursor)! });
+      rest.push(...page.reports.map((r) => r.id));
+      cursor = page.nextCursor;
+    }
+
+    assert.deepEqual([...first.reports.map((r) => r.id), ...rest], expected);
+  });
+
+  it('ends with no cursor on the last page', async () => {
+    const page = await repository.getReportsByUser(userId, 100, 0, null, {
+      cursor: { createdAt: '2000-01-01 00:00:00', id: 1 },
+    });
+    assert.equal(page.nextCursor, null);
+    assert.equal(page.reports.length, 0);
+  });
+});
@@ -0,0 +1,128 @@
+// Must come first: points the config at the test database
+import { buildTestApp, closeTestApp, linkToken, skipWithoutDatabase, uniqueEmail, uniqueIp, waitFor } from './helpers/app.js';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { FastifyInstance } from 'fastify';
+import { authRoutes } from '../src/routes/auth.js';
+import { createMemoryMailer } from '../src/mail/mailer.js';
+import * as repository from '../src/db/repository.js';
+
+const PASSWORD = 'Correct-Horse-1';
+
+describe('email token flows', { skip: skipWithoutDatabase }, () => {
+  const mailer = createMemoryMailer();
+  let fastify: FastifyInstance;
+
+  before(async () => {
+    fastify = await buildTestApp((app) => app.register(authRoutes, { prefix: '/api', mailer }));
+  });
+
+  after(async () => {
+    await closeTestApp(fastify);
+  });
+
+  function post(url: string, payload: object, remoteAddress: string = uniqueIp()) {
+    return fastify.inject({ method: 'POST', url, payload, remoteAddress });
+  }
+
+  function messageFor(email: string, subject: string) {
+    return mailer.messages.find((message) => message.to === email && message.subject === subject);
+  }
+
+  it('verifies an email address with the link sent on registration', async () => {
+    const email = uniqueEmail();
+
+    const registered = await post('/api/auth/register', { email, password: PASSWORD });
+    assert.equal(registered.statusCode, 201);
+    assert.equal(registered.json().user.emailVerified, false);
+
+    const message = messageFor(email, 'Verify your email address');
+    assert.ok(message, 'verification email sent');
+    const token = linkToken(message.text);
+
+    const verified = await post('/api/auth/verify-email', { token });
+    assert.equal(verified.statusCode, 200);
+
+    // Tokens are single use
+    const reused = await post('/api/auth/verify-email', { token });
+    assert.equal(reused.statusCode, 400);
+
+    const login = await post('/api/auth/login', { email, password: PASSWORD });
+    assert.equal(login.statusCode, 200);
+    assert.equal(login.json().user.emailVerified, true);
+  });
+
+  it('resets a password with the emailed link', async () => {
+    const email = uniqueEmail();
+    await post('/api/auth/register', { email, password: PASSWORD });
+
+    const requested = await post('/api/auth/forgot-password', { email });
+    assert.equal(requested.statusCode, 200);
+
+    // Sent after the response, so timing doesn't reveal whether the account exists
+    const message = await waitFor(() => messageFor(email, 'Reset your password'));
+    const token = linkToken(message.text);
+
+    const weak = await post('/api/auth/reset-password', { token, password: 'short' });
+    assert.equal(weak.statusCode, 400);
+
+    const reset = await post('/api/auth/reset-password', { token, password: 'New-Password-2' });
+    assert.equal(reset.statusCode, 200);
+
+    const reused = await post('/api/auth/reset-password', { token, password: 'Another-Password-3' });
+    assert.equal(reused.statusCode, 400);
+
+    const login = await post('/api/auth/login', { email, password: 'New-Password-2' });
+    assert.equal(login.statusCode, 200);
+  });
+
+  it('lifts a login lockout when the password is reset', async () => {
+    const email = uniqueEmail();
+    await post('/api/auth/register', { email, password: PASSWORD });
+
+    // Default LOGIN_MAX_FAILED_ATTEMPTS is 5
+    for (let i = 0; i < 5; i++) {
+      await repository.recordLoginAttempt(email, uniqueIp(), false, null);
+    }
+    const locked = await post('/api/auth/login', { email, password: PASSWORD });
+    assert.equal(locked.statusCode, 429);
+
+    await post('/api/auth/forgot-password', { email });
+    const message = await waitFor(() => messageFor(email, 'Reset your password'));
+    const reset = await post('/api/auth/reset-password', { token: linkToken(message.text), password: 'New-Password-2' });
+    assert.equal(reset.statusCode, 200);
+
+    const login = await post('/api/auth/login', { email, password: 'New-Password-2' });
+    assert.equal(login.statusCode, 200);
+  });
+
+  it('answers unknown emails the same way without sending mail', async () => {
+    const email = uniqueEmail();
+    const sent = mailer.messages.length;
+
+    const requested = await post('/api/auth/forgot-password', { email });
+    assert.equal(requested.statusCode, 200);
+    assert.equal(requested.json().message, 'If the account exists, a password reset email has been sent');
+
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    assert.equal(mailer.messages.length, sent);
+  });
+
+  it('limits requests per email address', async () => {
+    const email = uniqueEmail();
+
+    // Default EMAIL_REQUEST_MAX_PER_EMAIL is 3, counted from any client IP
+    for (let i = 0; i < 3; i++) {
+      const response = await post('/api/auth/forgot-password', { email });
+      assert.equal(response.statusCode, 200);
+    }
+
+    const limited = await post('/api/auth/forgot-password', { email });
+    assert.equal(limited.statusCode, 429);
+    assert.ok(Number(limited.headers['retry-after']) > 0);
+
+    // Counted per endpoint
+    const verification = await post('/api/auth/resend-verification', { email });
+    assert.equal(verification.statusCode, 200);
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { createSigner } from 'fast-jwt';
+import { config } from '../src/config/env.js';
+import { generateMfaToken, verifyMfaToken } from '../src/config/jwt.js';
+
+// Signs with the MFA challenge key, so only the payload shape is under test
+const signMfaPayload = createSigner({
+  key: crypto.createHmac('sha256', config.jwt.accessSecret).update('mfa-challenge').digest('hex'),
+  algorithm: 'HS256',
+});
+
+describe('verifyMfaToken', () => {
+  it('returns the user ID of a challenge token', () => {
+    assert.equal(verifyMfaToken(generateMfaToken(42)), 42);
+  });
+
+  it('rejects tokens signed with another key', () => {
+    const forged = createSigner({ key: 'not-the-key', algorithm: 'HS256' })({ userId: 42 });
+    assert.equal(verifyMfaToken(forged), null);
+  });
+
+  it('rejects signed tokens without a valid user ID', () => {
+    for (const payload of [{}, { userId: '42' }, { userId: 0 }, { userId: -1 }, { userId: 4.2 }, { userId: null }]) {
+      assert.equal(verifyMfaToken(signMfaPayload(payload)), null, JSON.stringify(payload));
+    }
+  });
+});
@@ -0,0 +1,184 @@
+// Must come first: points the config at the test database
+import { buildTestApp, closeTestApp, skipWithoutDatabase, uniqueEmail, uniqueIp } from './helpers/app.js';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { FastifyInstance } from 'fastify';
+import { config } from '../src/config/env.js';
+import { pool } from '../src/db/connection.js';
+import { authRoutes } from '../src/routes/auth.js';
+import { adminRoutes } from '../src/routes/admin.js';
+import { createMemoryMailer } from '../src/mail/mailer.js';
+import { generateTotp } from '../src/utils/totp.js';
+import type { AuthResponse } from '../src/types/index.js';
+
+const PASSWORD = 'Correct-Horse-1';
+
+describe('login lockout', { skip: skipWithoutDatabase }, () => {
+  const { loginDelayBaseMs, maxFailedLoginsPerIp } = config.auth;
+  let fastify: FastifyInstance;
+  let adminToken: string;
+
+  before(async () => {
+    // Keep the progressive delay from slowing the suite down
+    config.auth.loginDelayBaseMs = 1;
+
+    fastify = await buildTestApp(async (app) => {
+      await app.register(authRoutes, { prefix: '/api', mailer: createMemoryMailer() });
+      await app.register(adminRoutes, { prefix: '/api' });
+    });
+
+    const admin = await register();
+    await pool.query('UPDATE users SET is_superadmin = TRUE WHERE id = $1', [admin.user.id]);
+    adminToken = (await login(admin.user.email, PASSWORD)).json().accessToken;
+  });
+
+  after(async () => {
+    config.auth.loginDelayBaseMs = loginDelayBaseMs;
+    config.auth.maxFailedLoginsPerIp = maxFailedLoginsPerIp;
+    await closeTestApp(fastify);
+  });
+
+  async function register(email: string = uniqueEmail()): Promise<AuthResponse> {
+    const response = await fastify.inject({
+      method: 'POST',
+      url: '/api/auth/register',
+      payload: { email, password: PASSWORD },
+    });
+    assert.equal(response.statusCode, 201);
+    return response.json();
+  }
+
+  function login(email: string, password: string, remoteAddress: string = uniqueIp()) {
+    return fastify.inject({ method: 'POST', url: '/api/auth/login', payload: { email, password }, remoteAddress });
+  }
+
+  // Default LOGIN_MAX_FAILED_ATTEMPTS is 5
+  async function lockOut(email: string): Promise<void> {
+    for (let i = 0; i < 5; i++) {
+      const response = await login(email, 'Wrong-Password-1');
+      assert.equal(response.statusCode, 401);
+    }
+  }
+
+  it('locks an email after the maximum failures, even for the right password', async () => {
+    const { user } = await register();
+
+    await lockOut(user.email);
+
+    const locked = await login(user.email, PASSWORD);
+    assert.equal(locked.statusCode, 429);
+    assert.equal(locked.json().error, 'Too many failed login attempts, try again later');
+    assert.ok(Number(locked.headers['retry-after']) > 0);
+    assert.ok(Number(locked.headers['retry-after']) <= config.auth.lockoutMinutes * 60);
+  });
+
+  it('locks unknown emails the same way', async () => {
+    const email = uniqueEmail();
+
+    await lockOut(email);
+
+    const locked = await login(email, PASSWORD);
+    assert.equal(locked.statusCode, 429);
+  });
+
+  it('starts counting again after a successful login', async () => {
+    const { user } = await register();
+
+    for (let i = 0; i < 4; i++) {
+      await login(user.email, 'Wrong-Password-1');
+    }
+    assert.equal((await login(user.email, PASSWORD)).statusCode, 200);
+
+    for (let i = 0; i < 4; i++) {
+      await login(user.email, 'Wrong-Password-1');
+    }
+    assert.equal((await login(user.email, PASSWORD)).statusCode, 200);
+  });
+
+  it('locks a client IP after the maximum failures across emails', async () => {
+    config.auth.maxFailedLoginsPerIp = 3;
+    try {
+      const ip = uniqueIp();
+      const { user } = await register();
+
+      for (let i = 0; i < 3; i++) {
+        await login(uniqueEmail(), 'Wrong-Password-1', ip);
+      }
+
+      assert.equal((await login(user.email, PASSWORD, ip)).statusCode, 429);
+      assert.equal((await login(user.email, PASSWORD)).statusCode, 200);
+    } finally {
+      config.auth.maxFailedLoginsPerIp = maxFailedLoginsPerIp;
+    }
+  });
+
+  it('lets an administrator lift a lockout and audits it', async () => {
+    const { user } = await register();
+    await lockOut(user.email);
+
+    const unlocked = await fastify.inject({
+      method: 'POST',
+      url: `/api/admin/users/${user.id}/unlock`,
+      headers: { authorization: `Bearer ${adminToken}` },
+    });
+    assert.equal(unlocked.statusCode, 200);
+
+    assert.equal((await login(user.email, PASSWORD)).statusCode, 200);
+
+    const events = await fastify.inject({
+      method: 'GET',
+      url: `/api/admin/security-events?userId=${user.id}`,
+      headers: { authorization: `Bearer ${adminToken}` },
+    });
+    const types = events.json().events.map((event: { type: string }) => event.type);
+    assert.deepEqual(types, ['account_unlocked', 'account_locked']);
+  });
+
+  it('only lets administrators unlock accounts', async () => {
+    const { user, accessToken } = await register();
+
+    const response = await fastify.inject({
+      method: 'POST',
+      url: `/api/admin/users/${user.id}/unlock`,
+      headers: { authorization: `Bearer ${accessToken}` },
+    });
+    assert.equal(response.statusCode, 403);
+  });
+
+  it('counts wrong passwords when turning off two-factor authentication', async () => {
+    const { user, accessToken } = await register();
+    const headers = { authorization: `Bearer ${accessToken}` };
+
+    const setup = await fastify.inject({ method: 'POST', url: '/api/auth/mfa/setup', headers });
+    const enabled = await fastify.inject({
+      method: 'POST',
+      url: '/api/auth/mfa/enable',
+      headers,
+      payload: { code: generateTotp(setup.json().secret) },
+    });
+    assert.equal(enabled.statusCode, 200);
+    const [recoveryCode] = enabled.json().recoveryCodes;
+
+    for (let i = 0; i < 5; i++) {
+      const response = await fastify.inject({
+        method: 'POST',
+        url: '/api/auth/mfa/disable',
+        headers,
+        payload: { password: 'Wrong-Password-1', code: recoveryCode },
+        remoteAddress: uniqueIp(),
+      });
+      assert.equal(response.statusCode, 401);
+    }
+
+    const disable = await fastify.inject({
+      method: 'POST',
+      url: '/api/auth/mfa/disable',
+      headers,
+      payload: { password: PASSWORD, code: recoveryCode },
+    });
+    assert.equal(disable.statusCode, 429);
+
+    // The same lockout as logins
+    assert.equal((await login(user.email, PASSWORD)).statusCode, 429);
+  });
+});
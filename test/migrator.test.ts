@@ -0,0 +1,221 @@
+import { databaseUrl, skipWithoutDatabase } from './helpers/app.js';
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import pg from 'pg';
+import {
+  MigrationError,
+  createMigration,
+  getMigrationStatus,
+  loadMigrations,
+  migrateDown,
+  migrateUp,
+} from '../src/db/migrator.js';
+
+function tempDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'migrations-'));
+}
+
+function write(dir: string, files: Record<string, string>): void {
+  for (const [file, sql] of Object.entries(files)) {
+    fs.writeFileSync(path.join(dir, file), sql);
+  }
+}
+
+describe('loadMigrations', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = tempDir();
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true });
+  });
+
+  it('pairs up and down files in version order and ignores other files', () => {
+    write(dir, {
+      '0002_second.up.sql': '',
+      '0001_first.up.sql': '',
+      '0001_first.down.sql': '',
+      'README.md': '',
+    });
+
+    assert.deepEqual(loadMigrations(dir), [
+      { version: 1, name: 'first', upPath: path.join(dir, '0001_first.up.sql'), downPath: path.join(dir, '0001_first.down.sql') },
+      { version: 2, name: 'second', upPath: path.join(dir, '0002_second.up.sql'), downPath: null },
+    ]);
+  });
+
+  it('rejects duplicate versions and down files without an up file', () => {
+    write(dir, { '0001_first.up.sql': '', '0001_other.up.sql': '' });
+    assert.throws(() => loadMigrations(dir), MigrationError);
+
+    fs.rmSync(path.join(dir, '0001_other.up.sql'));
+    write(dir, { '0002_orphan.down.sql': '' });
+    assert.throws(() => loadMigrations(dir), /0002_orphan has no up file/);
+  });
+
+  it('creates the next version from a name', () => {
+    write(dir, { '0007_existing.up.sql': '' });
+
+    const { upPath, downPath } = createMigration('Add widget colours!', dir);
+
+    assert.equal(path.basename(upPath), '0008_add_widget_colours.up.sql');
+    assert.equal(path.basename(downPath), '0008_add_widget_colours.down.sql');
+    assert.equal(fs.readFileSync(upPath, 'utf8'), '-- Migration 0008: Add widget colours!\n\n');
+    assert.throws(() => createMigration('!!!', dir), MigrationError);
+  });
+});
+
+describe('migrator', { skip: skipWithoutDatabase }, () => {
+  // Each run migrates a schema of its own, so it doesn't touch the test database's tables
+  const schema = `migrator_${crypto.randomBytes(4).toString('hex')}`;
+  let client: pg.Client;
+  let dir: string;
+
+  async function connect(): Promise<pg.Client> {
+    const connection = new pg.Client({ connectionString: databaseUrl });
+    await connection.connect();
+    await connection.query(`SET search_path TO ${schema}`);
+    return connection;
+  }
+
+  async function tableExists(name: string): Promise<boolean> {
+    const result = await client.query('SELECT to_regclass($1) IS NOT NULL AS exists', [`${schema}.${name}`]);
+    return result.rows[0].exists;
+  }
+
+  before(async () => {
+    client = await connect();
+    await client.query(`CREATE SCHEMA ${schema}`);
+  });
+
+  after(async () => {
+    await client.query(`DROP SCHEMA ${schema} CASCADE`);
+    await client.end();
+  });
+
+  beforeEach(() => {
+    dir = tempDir();
+    write(dir, {
+      '0001_widgets.up.sql': 'CREATE TABLE widgets (id SERIAL PRIMARY KEY);',
+      '0001_widgets.down.sql': 'DROP TABLE widgets;',
+      '0002_widget_colour.up.sql': 'ALTER TABLE widgets ADD COLUMN colour TEXT;',
+      '0002_widget_colour.down.sql': 'ALTER TABLE widgets DROP COLUMN colour;',
+      '0003_widget_colour_index.up.sql':
+        '-- migrate:no-transaction\nCREATE INDEX CONCURRENTLY idx_widgets_colour ON widgets(colour);',
+      '0003_widget_colour_index.down.sql': '-- migrate:no-transaction\nDROP INDEX CONCURRENTLY idx_widgets_colour;',
+    });
+  });
+
+  afterEach(async () => {
+    await migrateDown(client, { steps: 10, dir });
+    fs.rmSync(dir, { recursive: true });
+  });
+
+  it('applies pending migrations up to a target and reports their status', async () => {
+    const first = await migrateUp(client, { target: 2, dir });
+    assert.deepEqual(first.map((migration) => migration.version), [1, 2]);
+
+    let status = await getMigrationStatus(client, dir);
+    assert.deepEqual(status.map((row) => [row.version, row.appliedAt !== null]), [[1, true], [2, true], [3, false]]);
+
+    const rest = await migrateUp(client, { dir });
+    assert.deepEqual(rest.map((migration) => migration.version), [3]);
+    assert.equal(await tableExists('idx_widgets_colour'), true);
+
+    // Nothing left to apply
+    assert.deepEqual(await migrateUp(client, { dir }), []);
+
+    status = await getMigrationStatus(client, dir);
+    assert.ok(status.every((row) => row.appliedAt !== null && !row.modified && !row.missing));
+  });
+
+  it('reverts the newest migrations first', async () => {
+    await migrateUp(client, { dir });
+
+    const reverted = await migrateDown(client, { steps: 2, dir });
+    assert.deepEqual(reverted.map((migration) => migration.version), [3, 2]);
+    assert.equal(await tableExists('idx_widgets_colour'), false);
+    assert.equal(await tableExists('widgets'), true);
+
+    const status = await getMigrationStatus(client, dir);
+    assert.deepEqual(status.map((row) => row.appliedAt !== null), [true, false, false]);
+  });
+
+  it('flags applied migrations that were edited or removed', async () => {
+    await migrateUp(client, { dir });
+
+    write(dir, { '0002_widget_colour.up.sql': 'ALTER TABLE widgets ADD COLUMN colour VARCHAR(20);' });
+    const renamed = path.join(dir, 'moved');
+    fs.mkdirSync(renamed);
+    for (const file of ['0003_widget_colour_index.up.sql', '0003_widget_colour_index.down.sql']) {
+      fs.renameSync(path.join(dir, file), path.join(renamed, file));
+    }
+
+    const status = await getMigrationStatus(client, dir);
+    assert.deepEqual(
+      status.map((row) => [row.version, row.modified, row.missing]),
+      [[1, false, false], [2, true, false], [3, false, true]]
+    );
+
+    // Restore the files so the migrations can be reverted
+    for (const file of fs.readdirSync(renamed)) {
+      fs.renameSync(path.join(renamed, file), path.join(dir, file));
+    }
+  });
+
+  it('rolls back a failing migration and stops', async () => {
+    write(dir, {
+      '0004_broken.up.sql': 'CREATE TABLE gadgets (id SERIAL PRIMARY KEY);\nSELECT * FROM no_such_table;',
+      '0005_after.up.sql': 'CREATE TABLE after_broken (id SERIAL PRIMARY KEY);',
+    });
+
+    await assert.rejects(migrateUp(client, { dir }), /Migration 0004_broken failed/);
+
+    assert.equal(await tableExists('gadgets'), false);
+    assert.equal(await tableExists('after_broken'), false);
+    const status = await getMigrationStatus(client, dir);
+    assert.deepEqual(status.map((row) => row.appliedAt !== null), [true, true, true, false, false]);
+  });
+
+  it('refuses to revert a migration without a down file', async () => {
+    fs.rmSync(path.join(dir, '0002_widget_colour.down.sql'));
+    await migrateUp(client, { dir });
+
+    await assert.rejects(migrateDown(client, { steps: 2, dir }), /0002_widget_colour has no down file/);
+
+    // Nothing was reverted, not even 0003
+    assert.equal(await tableExists('idx_widgets_colour'), true);
+
+    write(dir, { '0002_widget_colour.down.sql': 'ALTER TABLE widgets DROP COLUMN colour;' });
+  });
+
+  it('waits while another runner holds the migration lock', async () => {
+    const other = await connect();
+    try {
+      await other.query("SELECT pg_advisory_lock(hashtext('schema_migrations'))");
+
+      let done = false;
+      const migrating = migrateUp(client, { dir }).then((applied) => {
+        done = true;
+        return applied;
+      });
+
+      // Checked on the other connection; queries on the waiting one queue behind the lock
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      assert.equal(done, false);
+      const widgets = await other.query('SELECT to_regclass($1) AS widgets', [`${schema}.widgets`]);
+      assert.equal(widgets.rows[0].widgets, null);
+
+      await other.query("SELECT pg_advisory_unlock(hashtext('schema_migrations'))");
+      assert.equal((await migrating).length, 3);
+    } finally {
+      await other.end();
+    }
+  });
+});
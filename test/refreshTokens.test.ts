@@ -0,0 +1,86 @@
+// Must come first: points the config at the test database
+import { buildTestApp, closeTestApp, skipWithoutDatabase, uniqueEmail } from './helpers/app.js';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { FastifyInstance } from 'fastify';
+import { authRoutes } from '../src/routes/auth.js';
+import { createMemoryMailer } from '../src/mail/mailer.js';
+
+const PASSWORD = 'Correct-Horse-1';
+
+describe('refresh token rotation', { skip: skipWithoutDatabase }, () => {
+  let fastify: FastifyInstance;
+
+  before(async () => {
+    fastify = await buildTestApp((app) => app.register(authRoutes, { prefix: '/api', mailer: createMemoryMailer() }));
+  });
+
+  after(async () => {
+    await closeTestApp(fastify);
+  });
+
+  async function signIn(email: string = uniqueEmail()): Promise<{ email: string; refreshToken: string }> {
+    const registered = await fastify.inject({
+      method: 'POST',
+      url: '/api/auth/register',
+      payload: { email, password: PASSWORD },
+    });
+    assert.equal(registered.statusCode, 201);
+    return { email, refreshToken: registered.json().refreshToken };
+  }
+
+  function refresh(refreshToken: string) {
+    return fastify.inject({ method: 'POST', url: '/api/auth/refresh', payload: { refreshToken } });
+  }
+
+  it('issues a new refresh token and retires the old one', async () => {
+    const { refreshToken } = await signIn();
+
+    const first = await refresh(refreshToken);
+    assert.equal(first.statusCode, 200);
+    const rotated = first.json().refreshToken;
+    assert.notEqual(rotated, refreshToken);
+    assert.ok(first.json().accessToken);
+
+    const second = await refresh(rotated);
+    assert.equal(second.statusCode, 200);
+  });
+
+  it('revokes the whole family when a retired token is reused', async () => {
+    const { email, refreshToken: stolen } = await signIn();
+
+    const rotated = (await refresh(stolen)).json().refreshToken;
+    const latest = (await refresh(rotated)).json().refreshToken;
+
+    const replayed = await refresh(stolen);
+    assert.equal(replayed.statusCode, 401);
+
+    // The legitimate client's current token is revoked too
+    const current = await refresh(latest);
+    assert.equal(current.statusCode, 401);
+
+    // Other sessions are separate families
+    const login = await fastify.inject({ method: 'POST', url: '/api/auth/login', payload: { email, password: PASSWORD } });
+    assert.equal(login.statusCode, 200);
+    const other = await refresh(login.json().refreshToken);
+    assert.equal(other.statusCode, 200);
+  });
+
+  it('lets only one of two concurrent refreshes of a token through', async () => {
+    const { refreshToken } = await signIn();
+
+    const responses = await Promise.all([refresh(refreshToken), refresh(refreshToken)]);
+    const succeeded = responses.filter((response) => response.statusCode === 200);
+    assert.equal(succeeded.length, 1);
+    assert.equal(responses.filter((response) => response.statusCode === 401).length, 1);
+
+    // Treated as reuse, so the family is revoked
+    const next = await refresh(succeeded[0].json().refreshToken);
+    assert.equal(next.statusCode, 401);
+  });
+
+  it('rejects unknown tokens', async () => {
+    const response = await refresh('not-a-refresh-token');
+    assert.equal(response.statusCode, 401);
+  });
+});
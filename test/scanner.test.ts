@@ -0,0 +1,216 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { createHttpFetcher, createStaticFetcher, parseScanUrl, scanSite } from '../src/scanner/index.js';
+import type { FetchedPage, PageFetcher } from '../src/scanner/index.js';
+import { BlockedAddressError, isPublicAddress, lookupPublicAddress } from '../src/scanner/network.js';
+import type { ComplianceReport, ComplianceStatus } from '../src/types/index.js';
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/scanner/${name}`, import.meta.url), 'utf8');
+}
+
+// Static fetcher that also records the URLs the scanner asked for
+function recordingFetcher(pages: Record<string, string | Omit<FetchedPage, 'url'>>) {
+  const requested: string[] = [];
+  const inner = createStaticFetcher(pages);
+  const fetcher: PageFetcher = {
+    fetch(url) {
+      requested.push(url);
+      return inner.fetch(url);
+    },
+  };
+
+  return { fetcher, requested };
+}
+
+function statuses(report: ComplianceReport): Record<string, ComplianceStatus> {
+  return Object.fromEntries(
+    Object.values(report.checks)
+      .flat()
+      .map((check) => [check.id, check.status])
+  );
+}
+
+describe('scanSite', () => {
+  it('finds a well-run site compliant', async () => {
+    const { fetcher, requested } = recordingFetcher({
+      'https://good.example.org/': {
+        status: 200,
+        headers: {
+          'strict-transport-security': 'max-age=31536000',
+          'content-security-policy': "default-src 'self'",
+          'x-content-type-options': 'nosniff',
+          'x-frame-options': 'DENY',
+        },
+        html: fixture('good-home.html'),
+      },
+      'https://good.example.org/donate': fixture('good-donate.html'),
+    });
+
+    const report = await scanSite(new URL('https://good.example.org/'), { fetcher });
+
+    assert.deepEqual(statuses(report), {
+      'privacy-policy': 'Compliant',
+      'cookie-policy': 'Compliant',
+      'terms-of-use': 'Compliant',
+      'charity-number': 'Compliant',
+      https: 'Compliant',
+      hsts: 'Compliant',
+      'mixed-content': 'Compliant',
+      'security-headers': 'Compliant',
+      'form-transport': 'Compliant',
+      'form-consent': 'Compliant',
+      'data-protection-statement': 'Compliant',
+      'cookie-banner': 'Compliant',
+      'third-party-tracking': 'Compliant',
+      'marketing-consent': 'Compliant',
+      donations: 'Compliant',
+      'payment-provider': 'Compliant',
+      'gift-aid': 'Compliant',
+    });
+    assert.equal(report.overallStatus, 'Compliant');
+    assert.equal(report.overallScore, 100);
+    assert.equal(report.summary.threats.length, 0);
+
+    // Same-site policy and donation links are followed; other sites are not
+    assert.deepEqual(requested.sort(), [
+      'https://good.example.org/',
+      'https://good.example.org/about',
+      'https://good.example.org/cookies',
+      'https://good.example.org/donate',
+      'https://good.example.org/privacy-policy',
+      'https://good.example.org/terms',
+    ]);
+  });
+
+  it('flags the problems on a poorly run site', async () => {
+    const { fetcher } = recordingFetcher({
+      'http://poor.example.org/': fixture('poor-home.html'),
+    });
+
+    const report = await scanSite(new URL('http://poor.example.org/'), { fetcher });
+
+    assert.deepEqual(statuses(report), {
+      'privacy-policy': 'Non-Compliant',
+      'cookie-policy': 'Warning',
+      'terms-of-use': 'Info',
+      'charity-number': 'Warning',
+      https: 'Non-Compliant',
+      hsts: 'Warning',
+      // Only HTTPS pages can load mixed content
+      'mixed-content': 'Compliant',
+      'security-headers': 'Warning',
+      'form-transport': 'Non-Compliant',
+      'form-consent': 'Warning',
+      'data-protection-statement': 'Warning',
+      'cookie-banner': 'Non-Compliant',
+      'third-party-tracking': 'Info',
+      'marketing-consent': 'Warning',
+      donations: 'Compliant',
+      'payment-provider': 'Warning',
+      'gift-aid': 'Warning',
+    });
+    assert.equal(report.overallStatus, 'Non-Compliant');
+    assert.ok(report.summary.threats.length > 0);
+  });
+
+  it('fails when the homepage cannot be fetched', async () => {
+    const { fetcher } = recordingFetcher({
+      'https://gone.example.org/': { status: 404, headers: {}, html: 'Not found' },
+    });
+
+    await assert.rejects(scanSite(new URL('https://gone.example.org/'), { fetcher }), /Could not fetch/);
+  });
+});
+
+describe('parseScanUrl', () => {
+  it('adds https to bare hostnames', () => {
+    assert.equal(parseScanUrl('example.org')?.toString(), 'https://example.org/');
+  });
+
+  it('rejects other protocols', () => {
+    assert.equal(parseScanUrl('ftp://example.org/'), null);
+    assert.equal(parseScanUrl('file:///etc/passwd'), null);
+  });
+
+  it('rejects localhost and private address literals', () => {
+    for (const input of [
+      'http://localhost/',
+      'http://app.localhost./',
+      'http://127.0.0.1/',
+      'http://10.1.2.3/',
+      'http://169.254.169.254/latest/meta-data/',
+      'http://[::1]/',
+      'http://[::ffff:127.0.0.1]/',
+      'http://[fd00::1]/',
+    ]) {
+      assert.equal(parseScanUrl(input), null, input);
+    }
+  });
+});
+
+describe('isPublicAddress', () => {
+  it('accepts public addresses', () => {
+    for (const address of ['93.184.216.34', '2606:2800:220:1:248:1893:25c8:1946', '::ffff:93.184.216.34']) {
+      assert.equal(isPublicAddress(address), true, address);
+    }
+  });
+
+  it('rejects private, loopback, link-local and unique local addresses', () => {
+    for (const address of [
+      '0.0.0.0',
+      '10.0.0.1',
+      '100.64.0.1',
+      '127.0.0.1',
+      '169.254.169.254',
+      '172.16.0.1',
+      '192.168.1.1',
+      '::',
+      '::1',
+      'fc00::1',
+      'fd12:3456::1',
+      'fe80::1%eth0',
+      '::ffff:10.0.0.1',
+      '::ffff:7f00:1',
+      '64:ff9b::a9fe:a9fe',
+      'not-an-address',
+    ]) {
+      assert.equal(isPublicAddress(address), false, address);
+    }
+  });
+});
+
+describe('lookupPublicAddress', () => {
+  it('fails for names that resolve to private addresses', async () => {
+    const error = await new Promise<Error | null>((resolve) =>
+      lookupPublicAddress('localhost', { all: true }, (err) => resolve(err))
+    );
+
+    assert.ok(error instanceof BlockedAddressError);
+  });
+});
+
+describe('createHttpFetcher', () => {
+  it('never connects to a private address, by name, literal or redirect', async () => {
+    let requests = 0;
+    const server = http.createServer((request, response) => {
+      requests++;
+      response.writeHead(302, { location: 'http://127.0.0.1/' }).end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const fetcher = createHttpFetcher();
+      assert.equal(await fetcher.fetch(`http://localhost:${port}/`), null);
+      assert.equal(await fetcher.fetch(`http://127.0.0.1:${port}/`), null);
+      assert.equal(await fetcher.fetch(`http://[::ffff:127.0.0.1]:${port}/`), null);
+      assert.equal(requests, 0);
+    } finally {
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,191 @@
+// Must come first: points the config at the test database
+import { buildTestApp, closeTestApp, skipWithoutDatabase, uniqueEmail } from './helpers/app.js';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { FastifyInstance } from 'fastify';
+import { config } from '../src/config/env.js';
+import { authRoutes } from '../src/routes/auth.js';
+import { reportRoutes } from '../src/routes/reports.js';
+import { createMemoryMailer } from '../src/mail/mailer.js';
+import * as repository from '../src/db/repository.js';
+import { calculateScore, findScoreMismatches, scoreReport } from '../src/utils/scoring.js';
+import type { ComplianceCheck, ComplianceReport, ComplianceStatus } from '../src/types/index.js';
+
+function check(id: string, status: ComplianceStatus): ComplianceCheck {
+  return { id, title: `Check ${id}`, status, summary: '', recommendation: '' };
+}
+
+// With the default weights: security (3 x 1 + 1 x 0) / 4 = 75, payments 50,
+// other categories unscored, overall (75 + 50) / 2 = 62.5
+const REPORT: ComplianceReport = {
+  scannedUrl: 'https://scoring.example.org/',
+  scanDate: '2025-01-12T09:00:00.000Z',
+  overallStatus: 'Warning',
+  overallScore: 63,
+  summary: { goodPoints: [], warnings: [], threats: [] },
+  checks: {
+    websitePolicies: [],
+    security: [check('https', 'Compliant'), check('hsts', 'Non-Compliant')],
+    memberData: [check('privacy-contact', 'Info')],
+    marketing: [],
+    payments: [check('gift-aid', 'Warning')],
+  },
+};
+
+describe('calculateScore', () => {
+  it('weights checks by rule and averages the scored categories', () => {
+    const score = calculateScore(REPORT.checks);
+
+    assert.deepEqual(score.categoryScores, {
+      websitePolicies: null,
+      security: 75,
+      memberData: null,
+      marketing: null,
+      payments: 50,
+    });
+    assert.equal(score.overallScore, 63);
+    assert.equal(score.overallStatus, 'Warning');
+  });
+
+  it('gives checks without a rule a weight of 1', () => {
+    const score = calculateScore({ ...REPORT.checks, security: [check('https', 'Compliant'), check('custom', 'Non-Compliant')] });
+
+    assert.equal(score.categoryScores.security, 75);
+  });
+
+  it('applies the status thresholds', () => {
+    const compliant = calculateScore({ ...REPORT.checks, payments: [check('gift-aid', 'Compliant')] });
+    assert.equal(compliant.overallScore, 88);
+    assert.equal(compliant.overallStatus, 'Compliant');
+
+    const failing = calculateScore({ ...REPORT.checks, security: [check('https', 'Non-Compliant')] });
+    assert.equal(failing.overallScore, 25);
+    assert.equal(failing.overallStatus, 'Non-Compliant');
+  });
+
+  it('does not call a report with nothing scored compliant', () => {
+    const score = calculateScore({ ...REPORT.checks, security: [], payments: [] });
+
+    assert.equal(score.overallScore, 0);
+    assert.equal(score.overallStatus, 'Info');
+  });
+});
+
+describe('scoreReport', () => {
+  it('replaces the submitted score, status and summary', () => {
+    const scored = scoreReport({
+      ...REPORT,
+      overallScore: 100,
+      overallStatus: 'Compliant',
+      summary: { goodPoints: ['Everything'], warnings: [], threats: [] },
+    });
+
+    assert.equal(scored.overallScore, 63);
+    assert.equal(scored.overallStatus, 'Warning');
+    assert.deepEqual(scored.summary, {
+      goodPoints: ['Check https'],
+      warnings: ['Check gift-aid'],
+      threats: ['Check hsts'],
+    });
+  });
+});
+
+describe('findScoreMismatches', () => {
+  const computed = scoreReport(REPORT);
+
+  it('accepts a submitted score that matches', () => {
+    assert.deepEqual(findScoreMismatches(REPORT, computed), []);
+  });
+
+  it('lists a differing score and status', () => {
+    const mismatches = findScoreMismatches({ ...REPORT, overallScore: 90, overallStatus: 'Compliant' }, computed);
+
+    assert.deepEqual(mismatches, [
+      'overallScore: submitted 90, computed 63',
+      'overallStatus: submitted Compliant, computed Warning',
+    ]);
+  });
+
+  it('allows scores within the tolerance', () => {
+    const tolerance = config.scoring.scoreTolerance;
+    config.scoring.scoreTolerance = 2;
+    try {
+      assert.deepEqual(findScoreMismatches({ ...REPORT, overallScore: 65 }, computed), []);
+      assert.equal(findScoreMismatches({ ...REPORT, overallScore: 66 }, computed).length, 1);
+    } finally {
+      config.scoring.scoreTolerance = tolerance;
+    }
+  });
+});
+
+describe('report score mismatch policy', { skip: skipWithoutDatabase }, () => {
+  const policy = config.scoring.mismatchPolicy;
+  let fastify: FastifyInstance;
+  let accessToken: string;
+
+  before(async () => {
+    fastify = await buildTestApp(async (app) => {
+      await app.register(authRoutes, { prefix: '/api', mailer: createMemoryMailer() });
+      await app.register(reportRoutes, { prefix: '/api' });
+    });
+
+    const registered = await fastify.inject({
+      method: 'POST',
+      url: '/api/auth/register',
+      payload: { email: uniqueEmail(), password: 'Correct-Horse-1' },
+    });
+    accessToken = registered.json().accessToken;
+  });
+
+  after(async () => {
+    config.scoring.mismatchPolicy = policy;
+    await closeTestApp(fastify);
+  });
+
+  function submit(report: ComplianceReport) {
+    return fastify.inject({
+      method: 'POST',
+      url: '/api/reports',
+      headers: { authorization: `Bearer ${accessToken}` },
+      payload: { report },
+    });
+  }
+
+  it('stores a mismatched report with the computed score and flags it', async () => {
+    config.scoring.mismatchPolicy = 'flag';
+
+    const response = await submit({ ...REPORT, overallScore: 95, overallStatus: 'Compliant' });
+    assert.equal(response.statusCode, 201);
+
+    const body = response.json();
+    assert.equal(body.overallScore, 63);
+    assert.equal(body.overallStatus, 'Warning');
+    assert.equal(body.scoreMismatches.length, 2);
+
+    const saved = await repository.getReportById(body.reportId);
+    assert.equal(saved?.overall_score, 63);
+    assert.equal(saved?.score_mismatch, true);
+  });
+
+  it('stores a matching report unflagged', async () => {
+    config.scoring.mismatchPolicy = 'flag';
+
+    const response = await submit(REPORT);
+    assert.equal(response.statusCode, 201);
+    assert.equal(response.json().scoreMismatches, undefined);
+
+    const saved = await repository.getReportById(response.json().reportId);
+    assert.equal(saved?.score_mismatch, false);
+  });
+
+  it('rejects a mismatched report under the reject policy', async () => {
+    config.scoring.mismatchPolicy = 'reject';
+
+    const response = await submit({ ...REPORT, overallScore: 95 });
+    assert.equal(response.statusCode, 422);
+    assert.deepEqual(response.json().details, ['overallScore: submitted 95, computed 63']);
+
+    const accepted = await submit(REPORT);
+    assert.equal(accepted.statusCode, 201);
+  });
+});
@@ -0,0 +1,169 @@
+// Must come first: points the config at the test database
+import { buildTestApp, closeTestApp, skipWithoutDatabase, uniqueEmail } from './helpers/app.js';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { FastifyInstance } from 'fastify';
+import { authRoutes } from '../src/routes/auth.js';
+import { shareRoutes } from '../src/routes/shares.js';
+import { createMemoryMailer } from '../src/mail/mailer.js';
+import * as repository from '../src/db/repository.js';
+import type { AuthResponse, ComplianceReport } from '../src/types/index.js';
+
+const REPORT: ComplianceReport = {
+  scannedUrl: 'https://shares.example.org/',
+  scanDate: '2025-01-12T09:00:00.000Z',
+  overallStatus: 'Warning',
+  overallScore: 67,
+  summary: { goodPoints: [], warnings: [], threats: [] },
+  checks: {
+    websitePolicies: [],
+    security: [
+      { id: 'https', title: 'HTTPS', status: 'Compliant', summary: 'Served over HTTPS.', recommendation: 'Keep it.' },
+    ],
+    memberData: [],
+    marketing: [],
+    payments: [
+      {
+        id: 'gift-aid',
+        title: 'Gift Aid',
+        status: 'Warning',
+        summary: 'Gift Aid wording is incomplete.',
+        recommendation: 'Add the declaration.',
+      },
+    ],
+  },
+};
+
+describe('share links', { skip: skipWithoutDatabase }, () => {
+  let fastify: FastifyInstance;
+  let accessToken: string;
+  let reportId: number;
+
+  before(async () => {
+    fastify = await buildTestApp(async (app) => {
+      await app.register(authRoutes, { prefix: '/api', mailer: createMemoryMailer() });
+      await app.register(shareRoutes, { prefix: '/api' });
+    });
+
+    const owner = await register();
+    accessToken = owner.accessToken;
+    reportId = (await repository.createReport(owner.user.id, REPORT)).id;
+  });
+
+  after(async () => {
+    await closeTestApp(fastify);
+  });
+
+  async function register(): Promise<AuthResponse> {
+    const response = await fastify.inject({
+      method: 'POST',
+      url: '/api/auth/register',
+      payload: { email: uniqueEmail(), password: 'Correct-Horse-1' },
+    });
+    assert.equal(response.statusCode, 201);
+    return response.json();
+  }
+
+  async function createShare(body: object, token: string = accessToken) {
+    return fastify.inject({
+      method: 'POST',
+      url: `/api/reports/${reportId}/share`,
+      headers: { authorization: `Bearer ${token}` },
+      payload: body,
+    });
+  }
+
+  function view(token: string, password?: string) {
+    return fastify.inject({
+      method: 'GET',
+      url: `/api/shared/${token}`,
+      headers: password === undefined ? {} : { 'x-share-password': password },
+    });
+  }
+
+  it('shows the report without the redacted categories', async () => {
+    const created = await createShare({ redactCategories: ['payments'] });
+    assert.equal(created.statusCode, 201);
+    const { token, url, share } = created.json();
+    assert.ok(url.endsWith(`/shared/${token}`));
+    assert.equal(share.hasPassword, false);
+
+    const response = await view(token);
+    assert.equal(response.statusCode, 200);
+    assert.equal(response.headers['cache-control'], 'no-store');
+
+    const body = response.json();
+    assert.deepEqual(body.redactedCategories, ['payments']);
+    assert.deepEqual(body.report.checks.payments, []);
+    assert.equal(body.report.checks.security[0].id, 'https');
+    assert.ok(!JSON.stringify(body.report.summary).includes('Gift Aid'));
+    assert.equal(body.report.overallScore, 67);
+
+    const shares = await fastify.inject({
+      method: 'GET',
+      url: `/api/reports/${reportId}/shares`,
+      headers: { authorization: `Bearer ${accessToken}` },
+    });
+    assert.equal(shares.json().shares.find((item: { id: number }) => item.id === share.id).accessCount, 1);
+  });
+
+  it('requires the password on protected links', async () => {
+    const { token } = (await createShare({ password: 'trustees-2025' })).json();
+
+    const missing = await view(token);
+    assert.equal(missing.statusCode, 401);
+    assert.equal(missing.json().error, 'Password required');
+
+    const wrong = await view(token, 'not-the-password');
+    assert.equal(wrong.statusCode, 401);
+    assert.equal(wrong.json().error, 'Invalid password');
+
+    const right = await view(token, 'trustees-2025');
+    assert.equal(right.statusCode, 200);
+  });
+
+  it('locks a link after repeated wrong passwords', async () => {
+    const { token } = (await createShare({ password: 'trustees-2025' })).json();
+
+    // A successful view resets the count (default SHARE_PASSWORD_MAX_ATTEMPTS is 5)
+    for (let i = 0; i < 4; i++) {
+      assert.equal((await view(token, `guess-${i}`)).statusCode, 401);
+    }
+    assert.equal((await view(token, 'trustees-2025')).statusCode, 200);
+
+    for (let i = 0; i < 5; i++) {
+      assert.equal((await view(token, `guess-${i}`)).statusCode, 401);
+    }
+
+    // Locked, even for the right password
+    const locked = await view(token, 'trustees-2025');
+    assert.equal(locked.statusCode, 429);
+    const retryAfter = Number(locked.headers['retry-after']);
+    assert.ok(retryAfter > 0 && retryAfter <= 15 * 60, `Retry-After ${retryAfter}`);
+
+    // Other links to the report are unaffected
+    const other = (await createShare({ password: 'trustees-2025' })).json();
+    assert.equal((await view(other.token, 'trustees-2025')).statusCode, 200);
+  });
+
+  it('stops serving revoked links', async () => {
+    const { token, share } = (await createShare({})).json();
+
+    const revoked = await fastify.inject({
+      method: 'DELETE',
+      url: `/api/reports/${reportId}/shares/${share.id}`,
+      headers: { authorization: `Bearer ${accessToken}` },
+    });
+    assert.equal(revoked.statusCode, 200);
+
+    assert.equal((await view(token)).statusCode, 404);
+    assert.equal((await view('unknown-token')).statusCode, 404);
+  });
+
+  it("doesn't let other users share the report", async () => {
+    const other = await register();
+
+    const response = await createShare({}, other.accessToken);
+    assert.equal(response.statusCode, 403);
+  });
+});
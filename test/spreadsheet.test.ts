@@ -0,0 +1,169 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import zlib from 'zlib';
+import { createZipStream } from '../src/export/zip.js';
+import { createCsvStream, createXlsxStream } from '../src/export/spreadsheet.js';
+import type { CellValue, Sheet } from '../src/export/spreadsheet.js';
+
+async function collect<T extends string | Buffer>(stream: AsyncIterable<T>): Promise<T[]> {
+  const chunks: T[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+async function* fromArray<T>(items: T[]): AsyncGenerator<T> {
+  for (const item of items) {
+    yield item;
+  }
+}
+
+function sheetOf(columns: string[], rows: CellValue[][]): Sheet {
+  return { name: 'Test', columns, rows: fromArray(rows) };
+}
+
+/**
+ * Read every entry of a ZIP archive through its central directory, checking each
+ * local header, CRC and size along the way
+ */
+function readZip(archive: Buffer): Map<string, string> {
+  const end = archive.length - 22;
+  assert.equal(archive.readUInt32LE(end), 0x06054b50, 'end of central directory');
+
+  const count = archive.readUInt16LE(end + 10);
+  let position = archive.readUInt32LE(end + 16);
+  const entries = new Map<string, string>();
+
+  for (let i = 0; i < count; i++) {
+    assert.equal(archive.readUInt32LE(position), 0x02014b50, 'central directory header');
+    const crc = archive.readUInt32LE(position + 16);
+    const compressedSize = archive.readUInt32LE(position + 20);
+    const size = archive.readUInt32LE(position + 24);
+    const nameLength = archive.readUInt16LE(position + 28);
+    const extraLength = archive.readUInt16LE(position + 30);
+    const commentLength = archive.readUInt16LE(position + 32);
+    const offset = archive.readUInt32LE(position + 42);
+    const name = archive.subarray(position + 46, position + 46 + nameLength).toString('utf8');
+    position += 46 + nameLength + extraLength + commentLength;
+
+    assert.equal(archive.readUInt32LE(offset), 0x04034b50, `local header of ${name}`);
+    const dataStart = offset + 30 + archive.readUInt16LE(offset + 26) + archive.readUInt16LE(offset + 28);
+    const data = zlib.inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize));
+
+    assert.equal(data.length, size, `size of ${name}`);
+    assert.equal(zlib.crc32(data), crc, `CRC of ${name}`);
+    assert.equal(archive.readUInt32LE(dataStart + compressedSize), 0x08074b50, `data descriptor of ${name}`);
+
+    entries.set(name, data.toString('utf8'));
+  }
+
+  return entries;
+}
+
+describe('createZipStream', () => {
+  it('writes entries a reader can inflate', async () => {
+    const large = 'x'.repeat(100000) + 'end';
+    const archive = Buffer.concat(
+      await collect(
+        createZipStream([
+          { name: 'hello.txt', data: 'Hello, world' },
+          { name: 'streamed/large.txt', data: fromArray([large.slice(0, 40000), large.slice(40000)]) },
+          { name: 'empty.txt', data: '' },
+          { name: 'café.txt', data: 'naïve ✓' },
+        ])
+      )
+    );
+
+    const entries = readZip(archive);
+    assert.deepEqual([...entries.keys()], ['hello.txt', 'streamed/large.txt', 'empty.txt', 'café.txt']);
+    assert.equal(entries.get('hello.txt'), 'Hello, world');
+    assert.equal(entries.get('streamed/large.txt'), large);
+    assert.equal(entries.get('empty.txt'), '');
+    assert.equal(entries.get('café.txt'), 'naïve ✓');
+  });
+});
+
+describe('createXlsxStream', () => {
+  it('writes a workbook with the sheet rows', async () => {
+    const scanned = new Date('2025-01-12T00:00:00.000Z');
+    const archive = Buffer.concat(
+      await collect(
+        createXlsxStream(
+          sheetOf(
+            ['Report ID', 'URL', 'Scan date', 'Notes'],
+            [
+              [1, 'https://example.org/?a=1&b=<2>', scanned, null],
+              [2, 'https://example.com', scanned, 'Quote "this"'],
+            ]
+          )
+        )
+      )
+    );
+
+    const entries = readZip(archive);
+    assert.deepEqual([...entries.keys()], [
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/worksheets/sheet1.xml',
+    ]);
+    assert.match(entries.get('xl/workbook.xml')!, /<sheet name="Test" sheetId="1" r:id="rId1"\/>/);
+
+    const rows = entries.get('xl/worksheets/sheet1.xml')!.match(/<row>.*?<\/row>/g)!;
+    assert.equal(rows.length, 3);
+    assert.match(rows[0], /<c t="inlineStr" s="1"><is><t xml:space="preserve">Report ID<\/t><\/is><\/c>/);
+    assert.match(rows[1], /<c><v>1<\/v><\/c>/);
+    assert.match(rows[1], /https:\/\/example\.org\/\?a=1&amp;b=&lt;2&gt;/);
+    // 2025-01-12 is day 45669 counting from Excel's 1899-12-30 epoch
+    assert.match(rows[1], /<c s="2"><v>45669<\/v><\/c>/);
+    assert.match(rows[1], /<c\/><\/row>$/);
+    assert.match(rows[2], /Quote &quot;this&quot;/);
+  });
+});
+
+describe('createCsvStream', () => {
+  async function csv(columns: string[], rows: CellValue[][]): Promise<string> {
+    return (await collect(createCsvStream(sheetOf(columns, rows)))).join('');
+  }
+
+  it('starts with a BOM and the header row', async () => {
+    assert.equal(await csv(['Report ID', 'URL'], []), '\ufeffReport ID,URL\r\n');
+  });
+
+  it('escapes cells that spreadsheet apps would run as formulas', async () => {
+    const output = await csv(['Value'], [
+      ['=HYPERLINK("https://evil.example","Click")'],
+      ['+1+1'],
+      ['-2+3'],
+      ['@SUM(A1:A2)'],
+      ['\t=1'],
+      ['\r=1'],
+    ]);
+
+    assert.deepEqual(output.split('\r\n').slice(1, -1), [
+      `"'=HYPERLINK(""https://evil.example"",""Click"")"`,
+      "'+1+1",
+      "'-2+3",
+      "'@SUM(A1:A2)",
+      "'\t=1",
+      `"'\r=1"`,
+    ]);
+  });
+
+  it('leaves numbers, dates and ordinary text alone', async () => {
+    const output = await csv(['ID', 'Score', 'Date', 'Title', 'Empty'], [
+      [7, -5, new Date('2025-01-12T09:00:00.000Z'), 'Privacy policy', null],
+    ]);
+
+    assert.equal(output.split('\r\n')[1], '7,-5,2025-01-12T09:00:00.000Z,Privacy policy,');
+  });
+
+  it('quotes commas, quotes and line breaks', async () => {
+    const output = await csv(['Summary'], [['Found "cookies", see\nbelow']]);
+
+    assert.equal(output.split('\r\n').slice(1, -1).join('\r\n'), '"Found ""cookies"", see\nbelow"');
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { base32Decode, base32Encode, generateTotp, verifyTotp } from '../src/utils/totp.js';
+
+// RFC 6238 appendix B: SHA-1 seed "12345678901234567890". The RFC lists 8-digit codes;
+// the last 6 digits are the codes authenticator apps show.
+const SECRET = base32Encode(Buffer.from('12345678901234567890', 'ascii'));
+
+const VECTORS: Array<[seconds: number, code: string]> = [
+  [59, '287082'],
+  [1111111109, '081804'],
+  [1111111111, '050471'],
+  [1234567890, '005924'],
+  [2000000000, '279037'],
+  [20000000000, '353130'],
+];
+
+describe('base32', () => {
+  it('encodes the RFC 6238 seed', () => {
+    assert.equal(SECRET, 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+  });
+
+  it('decodes lower case, spaces and padding', () => {
+    assert.equal(base32Decode('gezd gnbv gy3t qojq====').toString('ascii'), '1234567890');
+  });
+
+  it('rejects characters outside the alphabet', () => {
+    assert.throws(() => base32Decode('GEZD1'), /Invalid base32 character/);
+  });
+});
+
+describe('generateTotp', () => {
+  for (const [seconds, code] of VECTORS) {
+    it(`matches the RFC 6238 vector at ${seconds}s`, () => {
+      assert.equal(generateTotp(SECRET, seconds * 1000), code);
+    });
+  }
+});
+
+describe('verifyTotp', () => {
+  const time = 1111111111 * 1000;
+  const step = Math.floor(1111111111 / 30);
+
+  it('returns the matching time step', () => {
+    assert.equal(verifyTotp(SECRET, '050471', 1, time), step);
+  });
+
+  it('accepts codes one step either side', () => {
+    assert.equal(verifyTotp(SECRET, generateTotp(SECRET, time - 30000), 1, time), step - 1);
+    assert.equal(verifyTotp(SECRET, generateTotp(SECRET, time + 30000), 1, time), step + 1);
+  });
+
+  it('rejects codes outside the window', () => {
+    assert.equal(verifyTotp(SECRET, generateTotp(SECRET, time - 60000), 1, time), null);
+  });
+
+  it('rejects malformed codes', () => {
+    assert.equal(verifyTotp(SECRET, '50471', 1, time), null);
+    assert.equal(verifyTotp(SECRET, '05047a', 1, time), null);
+  });
+});